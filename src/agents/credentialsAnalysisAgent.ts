@@ -1,9 +1,16 @@
-import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock";
+import { LanguageModelV2 } from "@ai-sdk/provider";
 import { generateObject } from "ai";
 import { z } from "zod";
 import fs from "fs/promises";
 import path from "path";
-import { PathMapper, PathMapping, resolveUnixPath } from "../core";
+import {
+  ModelPrice,
+  ModelUsage,
+  PathMapper,
+  PathMapping,
+  resolveUnixPath,
+  toModelUsage,
+} from "../core";
 
 // Schema for the final analysis result
 const CredentialsAnalysisResultSchema = z.object({
@@ -34,6 +41,7 @@ export type CredentialsAnalysisError = {
 export type CredentialsAnalysisSuccess = {
   __type: "success";
   value: z.infer<typeof CredentialsAnalysisResultSchema>;
+  usage: ModelUsage;
 };
 
 export type CredentialsAnalysisResult =
@@ -41,16 +49,12 @@ export type CredentialsAnalysisResult =
   | CredentialsAnalysisSuccess;
 
 export class CredentialsAnalysisAgent {
-  private bedrock = createAmazonBedrock({
-    region: process.env.AWS_REGION!,
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-  });
-  private model = this.bedrock(
-    process.env.AWS_MODEL ?? "eu.anthropic.claude-sonnet-4-20250514-v1:0"
-  );
-
-  constructor(private pathMapping: PathMapping[]) {}
+  constructor(
+    private model: LanguageModelV2,
+    private pathMapping: PathMapping[],
+    /** Price of the model, used to estimate the cost of every file. */
+    private price?: ModelPrice
+  ) {}
 
   async analyzeFile(params: {
     pwd: string;
@@ -77,6 +81,7 @@ export class CredentialsAnalysisAgent {
     }
 
     // Generate analysis with tool support
+    const startedAt = Date.now();
     const result = await generateObject({
       model: this.model,
       schema: CredentialsAnalysisResultSchema,
@@ -89,6 +94,12 @@ export class CredentialsAnalysisAgent {
     return {
       __type: "success" as const,
       value: result.object,
+      usage: toModelUsage(
+        result.usage,
+        1,
+        Date.now() - startedAt,
+        this.price
+      ),
     };
   }
 
@@ -0,0 +1,128 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import os from "os";
+import path from "path";
+import { MockLanguageModel, promptToText } from "../providers";
+import {
+  FAILED_RESPONSES_DIR,
+  FileAnalysisAgent,
+  MAX_REPAIR_ATTEMPTS,
+} from "./fileAnalysisAgent";
+
+const INVALID_ANALYSIS = { readFiles: "/etc/app.conf" };
+const VALID_ANALYSIS = {
+  readFiles: [{ path: "/etc/app.conf" }],
+  writeFiles: [],
+  executeFiles: [],
+  errors: [],
+};
+
+describe("FileAnalysisAgent", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "agent-"));
+  const responseDir = path.join(dir, FAILED_RESPONSES_DIR);
+  writeFileSync(path.join(dir, "run.sh"), "cat /etc/app.conf\n");
+  writeFileSync(
+    path.join(dir, "mail.pl"),
+    "use mailsenden;\nuse Mail::Queue;\n"
+  );
+  mkdirSync(path.join(dir, "perl5"));
+  writeFileSync(path.join(dir, "perl5", "mailsenden.pm"), "1;\n");
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  const analyze = (model: MockLanguageModel, filePath = "run.sh") =>
+    new FileAnalysisAgent(model, [{ from: "/app", to: dir }], undefined, {
+      responseDir,
+      searchPaths: { perl: ["/app/perl5"] },
+    }).analyzeFile({
+      pwd: "/app",
+      filePath,
+      fileType: undefined,
+      cliArgs: [],
+    });
+
+  test("asks again with the validation error", async () => {
+    const model = new MockLanguageModel("test", {
+      responses: [
+        { match: "did not match the analysis schema", object: VALID_ANALYSIS },
+        {
+          match: "Main File: /app/run.sh",
+          toolCalls: [{ toolName: "submitAnalysis", input: INVALID_ANALYSIS }],
+        },
+      ],
+    });
+    const doGenerate = jest.spyOn(model, "doGenerate");
+
+    const analysis = await analyze(model);
+
+    expect(analysis?.readFiles).toEqual(VALID_ANALYSIS.readFiles);
+    expect(analysis?.errors).toEqual([]);
+    expect(doGenerate).toHaveBeenCalledTimes(2);
+    const repairPrompt = promptToText(doGenerate.mock.calls[1][0].prompt);
+    expect(repairPrompt).toContain("did not match the analysis schema");
+    expect(repairPrompt).toContain("→ at readFiles");
+  });
+
+  test("saves the raw responses after the last repair attempt", async () => {
+    const model = new MockLanguageModel("test", {
+      responses: [
+        { match: "Main File: /app/run.sh", object: INVALID_ANALYSIS },
+      ],
+    });
+    const doGenerate = jest.spyOn(model, "doGenerate");
+
+    const analysis = await analyze(model);
+
+    expect(doGenerate).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS + 1);
+    expect(analysis?.readFiles).toEqual([]);
+    expect(analysis?.errors?.[0].error).toMatch(
+      `No valid analysis after ${MAX_REPAIR_ATTEMPTS + 1} attempts`
+    );
+    const [saved] = readdirSync(responseDir);
+    expect(saved).toMatch(/^run\.sh-[0-9a-f]{8}\.txt$/);
+    const content = readFileSync(path.join(responseDir, saved), "utf-8");
+    expect(content).toContain(`--- Attempt ${MAX_REPAIR_ATTEMPTS + 1} ---`);
+    expect(content).toContain(JSON.stringify(INVALID_ANALYSIS));
+  });
+
+  test("looks up the modules the model reports in the search paths", async () => {
+    const model = new MockLanguageModel("test", {
+      responses: [
+        {
+          match: "Main File: /app/mail.pl",
+          object: {
+            ...VALID_ANALYSIS,
+            readFiles: [],
+            executeFiles: [
+              { pwd: "/app", path: "/app/mailsenden.pm", args: [] },
+              { pwd: "/app", path: "Mail::Queue", args: [] },
+            ],
+          },
+        },
+      ],
+    });
+
+    const analysis = await analyze(model, "mail.pl");
+
+    expect(analysis?.executeFiles).toEqual([
+      { pwd: "/app", path: "/app/perl5/mailsenden.pm", args: [] },
+    ]);
+    expect(analysis?.notFound).toEqual([
+      {
+        name: "Mail::Queue",
+        language: "perl",
+        tried: ["/app/perl5/Mail/Queue.pm", "/app/Mail/Queue.pm"],
+      },
+    ]);
+  });
+});
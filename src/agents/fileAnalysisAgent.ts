@@ -1,10 +1,54 @@
-import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock";
-import { generateText, stepCountIs, tool } from "ai";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { generateText, hasToolCall, ModelMessage, stepCountIs, tool } from "ai";
 import { z } from "zod";
 import fs from "fs/promises";
+import { existsSync } from "fs";
 import path from "path";
-import { createReadFileTool } from "../tools";
-import { PathMapper, PathMapping, resolveUnixPath } from "../core";
+import {
+  createFileExistsTool,
+  createGlobFilesTool,
+  createGrepFileTool,
+  createListDirectoryTool,
+  createReadFileTool,
+  createStatTool,
+  ToolContext,
+} from "../tools";
+import {
+  addUsage,
+  analyzePerlScript,
+  AnalysisCache,
+  ArchiveMember,
+  ChunkingConfig,
+  DEFAULT_CHUNKING,
+  DependencySource,
+  detectLanguage,
+  Disagreement,
+  EMPTY_USAGE,
+  FileChunk,
+  FileUsage,
+  hashContent,
+  isSystemCommand,
+  ModelPrice,
+  ModelUsage,
+  PathCandidate,
+  PathMapper,
+  PathMapping,
+  PromptExtension,
+  readLocalFile,
+  resolveUnixPath,
+  ScriptLanguage,
+  searchFile,
+  SearchMiss,
+  SearchPaths,
+  selectPromptExtensions,
+  splitSearchPath,
+  splitIntoChunks,
+  ToolAccess,
+  toModelUsage,
+  UncertainDependency,
+} from "../core";
+import { getModelId } from "../providers";
+import { formatProfile, PROMPT_PROFILES } from "./promptProfiles";
 import chalk from "chalk";
 
 // Schema for the final analysis result
@@ -55,6 +99,12 @@ const AnalysisResultSchema = z.object({
           .describe(
             "Any arguments passed to the file when executed, as an array of strings."
           ),
+        env: z
+          .record(z.string(), z.string())
+          .optional()
+          .describe(
+            "Environment variables the analyzed file sets for the executed file, e.g. via `export FOO=...` before running it."
+          ),
         description: z.string().optional(),
       })
       .describe(
@@ -76,39 +126,266 @@ const AnalysisResultSchema = z.object({
       })
       .describe("A list of errors that occured during file read operations.")
   ),
+  unresolved: z
+    .array(
+      z.object({
+        expression: z
+          .string()
+          .describe(
+            "The path as written in the file, e.g. `$DATA_DIR/input.csv` or `os.environ['OUT']`."
+          ),
+        variables: z
+          .array(z.string())
+          .describe(
+            "The variables whose value is unknown and that block resolving the path, e.g. `DATA_DIR`."
+          ),
+        action: z
+          .enum(["read", "write", "execute"])
+          .describe("How the analyzed file uses the path."),
+        description: z.string().optional(),
+      })
+    )
+    .optional()
+    .describe(
+      "Paths that depend on variables or command output whose value cannot be determined. NEVER guess a value for such a path, list it here instead."
+    ),
+  rejected: z
+    .array(
+      z.object({
+        path: z.string().describe("The path of the rejected candidate."),
+        reason: z
+          .string()
+          .describe("Why the candidate is not a dependency of the file."),
+      })
+    )
+    .optional()
+    .describe(
+      "Candidate paths from the static pre-pass that are NOT dependencies of the analyzed file. Only used when candidates are given."
+    ),
 });
 
 export type AnalysisResult = z.infer<typeof AnalysisResultSchema>;
 
 type ExecuteFiles = AnalysisResult["executeFiles"][number];
 
-export type FileAnalysisOutput = AnalysisResult & {
-  errors: {
-    path: string;
-    error: string;
-  }[];
-  executeFiles: (ExecuteFiles & { fileType?: string | undefined })[];
+type Tagged = {
+  /** Which pass of the hybrid engine found the entry. */
+  source?: DependencySource | undefined;
+  /** Fraction of the self-consistency samples that reported the entry. */
+  confidence?: number | undefined;
 };
 
-export class FileAnalysisAgent {
-  private bedrock = createAmazonBedrock({
-    region: process.env.AWS_REGION!,
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
-  });
-  private model = this.bedrock(
-    process.env.AWS_MODEL ?? "eu.anthropic.claude-sonnet-4-20250514-v1:0"
+export type FileAnalysisOutput = Omit<
+  AnalysisResult,
+  "readFiles" | "writeFiles" | "executeFiles" | "unresolved"
+> & {
+  readFiles: (AnalysisResult["readFiles"][number] & Tagged)[];
+  writeFiles: (AnalysisResult["writeFiles"][number] & Tagged)[];
+  executeFiles: (ExecuteFiles &
+    Tagged & {
+      fileType?: string | undefined;
+      /** When the file runs, e.g. the time fields of a cron job. */
+      schedule?: string | undefined;
+      /** Environment the file is started with. */
+      env?: Record<string, string> | undefined;
+    })[];
+  /** Dependencies the hybrid engine's static pass and model disagree on. */
+  disagreements?: Disagreement[];
+  /** Dependencies below the confidence threshold, left out of the lists. */
+  uncertain?: UncertainDependency[];
+  /** Modules and commands none of the search paths contain. */
+  notFound?: SearchMiss[];
+  /** Files inside an analyzed archive. */
+  members?: ArchiveMember[];
+  /** Every file system access of the model's tools while analyzing the file. */
+  audit?: ToolAccess[];
+  /** Model usage of the analysis, missing for cached and static results. */
+  usage?: ModelUsage;
+  /** Usage of every file, set when the results of files are collected. */
+  costs?: FileUsage[];
+  unresolved?: (NonNullable<AnalysisResult["unresolved"]>[number] & {
+    /** The file using the path, set when the results of files are collected. */
+    file?: string | undefined;
+  })[];
+};
+
+/**
+ * Bump whenever the prompts or the result schema change, so that cached
+ * results produced by an older prompt are not reused.
+ */
+export const PROMPT_VERSION = "8";
+
+/** Additional requests after an answer that does not match the schema. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/** Directory below the output directory raw responses of failed files go to. */
+export const FAILED_RESPONSES_DIR = "failed-responses";
+
+type Validation =
+  { success: true; data: AnalysisResult } | { success: false; error: string };
+
+/**
+ * Validates a submitted analysis. Tool input the SDK could not parse arrives
+ * as the raw JSON string.
+ */
+function validateAnalysis(input: unknown): Validation {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch {
+      return { success: false, error: "The analysis is not valid JSON." };
+    }
+  }
+  const validated = AnalysisResultSchema.safeParse(value);
+  return validated.success
+    ? { success: true, data: validated.data }
+    : { success: false, error: z.prettifyError(validated.error) };
+}
+
+/**
+ * Answers in plain text are only accepted when the whole text, optionally
+ * wrapped in a single code block, is the analysis.
+ */
+function parseTextAnswer(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed === "") {
+    return undefined;
+  }
+  const codeBlock = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return codeBlock ? codeBlock[1] : trimmed;
+}
+
+/**
+ * The module behind an executed file the model reported, as it is looked up
+ * in the search paths: `Mail::Send` or a guessed `/app/Mail/Send.pm` that does
+ * not exist become `Mail/Send.pm`, relative to the first root containing the
+ * guess. Other files are not looked up.
+ */
+function reportedModule(
+  filePath: string,
+  language: "perl" | "python",
+  options: {
+    pwd: string;
+    roots: string[];
+    exists: (candidate: string) => boolean;
+  }
+): { name: string; relativePath: string } | undefined {
+  if (language === "perl" && filePath.includes("::")) {
+    return {
+      name: filePath,
+      relativePath: `${filePath.replace(/::/g, "/")}.pm`,
+    };
+  }
+  const extension = language === "perl" ? ".pm" : ".py";
+  const guessedPath = resolveUnixPath(options.pwd, filePath);
+  if (!guessedPath.endsWith(extension) || options.exists(guessedPath)) {
+    return undefined;
+  }
+  const root = options.roots.find(
+    (dir) => !path.posix.relative(dir, guessedPath).startsWith("..")
+  );
+  const relativePath = root
+    ? path.posix.relative(root, guessedPath)
+    : path.posix.basename(guessedPath);
+  return {
+    name: relativePath
+      .slice(0, -extension.length)
+      .replace(/\//g, language === "perl" ? "::" : "."),
+    relativePath,
+  };
+}
+
+/**
+ * Merges the analyses of the chunks of a file. Paths reported by several
+ * chunks, e.g. in the overlap, are kept once; candidates rejected by one
+ * chunk but confirmed by another are not rejected.
+ */
+function mergeAnalyses(results: FileAnalysisOutput[]): FileAnalysisOutput {
+  if (results.length === 1) {
+    return results[0];
+  }
+  const unique = <T extends { path: string }>(entries: T[]): T[] => {
+    const seen = new Set<string>();
+    return entries.filter((entry) => {
+      if (seen.has(entry.path)) return false;
+      seen.add(entry.path);
+      return true;
+    });
+  };
+
+  const merged: FileAnalysisOutput = {
+    readFiles: unique(results.flatMap((r) => r.readFiles)),
+    writeFiles: unique(results.flatMap((r) => r.writeFiles)),
+    executeFiles: unique(results.flatMap((r) => r.executeFiles)),
+    errors: results.flatMap((r) => r.errors),
+  };
+  const unresolved = results.flatMap((r) => r.unresolved ?? []);
+  if (unresolved.length > 0) {
+    merged.unresolved = unresolved.filter(
+      (entry, index) =>
+        unresolved.findIndex(
+          (other) =>
+            other.expression === entry.expression &&
+            other.action === entry.action
+        ) === index
+    );
+  }
+  const confirmed = new Set(
+    [...merged.readFiles, ...merged.writeFiles, ...merged.executeFiles].map(
+      (entry) => entry.path
+    )
+  );
+  const rejected = unique(results.flatMap((r) => r.rejected ?? [])).filter(
+    (entry) => !confirmed.has(entry.path)
   );
+  if (rejected.length > 0) {
+    merged.rejected = rejected;
+  }
+  return merged;
+}
 
-  constructor(private pathMapping: PathMapping[]) {}
+export class FileAnalysisAgent {
+  constructor(
+    private model: LanguageModelV2,
+    private pathMapping: PathMapping[],
+    private cache?: AnalysisCache<FileAnalysisOutput>,
+    private options: {
+      responseDir?: string;
+      /** Thresholds for splitting large files, resolved for the model. */
+      chunking?: Required<ChunkingConfig>;
+      /** Files larger than this are truncated by the readFile tool. */
+      maxReadBytes?: number;
+      /** Price of the model, used to estimate the cost of every file. */
+      price?: ModelPrice;
+      /** Sampling temperature, defaults to 0. */
+      temperature?: number;
+      /** Site-specific prompt additions, applied by language and path. */
+      promptExtensions?: PromptExtension[];
+      /** Directories reported modules and bare commands are looked up in. */
+      searchPaths?: SearchPaths;
+    } = {}
+  ) {}
+
+  private get chunking(): Required<ChunkingConfig> {
+    return this.options.chunking ?? DEFAULT_CHUNKING;
+  }
 
   async analyzeFile(params: {
     pwd: string;
     filePath: string;
     fileType: string | undefined;
     cliArgs: string[];
+    /** Candidates of a static pre-pass the model confirms or rejects. */
+    hints?: PathCandidate[];
+    /** Environment the file is started with. */
+    env?: Record<string, string>;
+    /** Index of a self-consistency sample, every sample is cached on its own. */
+    sample?: number;
   }): Promise<FileAnalysisOutput | undefined> {
-    const { pwd, filePath, fileType, cliArgs } = params;
+    const { pwd, filePath, fileType, cliArgs, hints } = params;
+    const env = params.env ?? {};
+    const audit: ToolAccess[] = [];
 
     const pathMapper = new PathMapper(this.pathMapping);
     const absolutePath = resolveUnixPath(pwd, filePath);
@@ -126,7 +403,7 @@ export class FileAnalysisAgent {
     // Read the main file content first
     let fileContent: string;
     try {
-      fileContent = await fs.readFile(mappedPath, "utf8");
+      fileContent = await readLocalFile(mappedPath, "utf8");
     } catch (error) {
       return {
         readFiles: [],
@@ -142,48 +419,331 @@ export class FileAnalysisAgent {
       };
     }
 
-    // Generate analysis with tool support
-    const result = await generateText({
-      model: this.model,
-      system: this.getSystemPrompt(),
-      temperature: 0.0,
-      prompt: this.buildPrompt({
+    const language = detectLanguage(absolutePath, fileContent);
+    const extensions = selectPromptExtensions(
+      this.options.promptExtensions ?? [],
+      absolutePath,
+      language
+    );
+    if (language) {
+      console.log(chalk.dim(`\tLanguage: ${language}`));
+    }
+
+    const cacheKey = {
+      contentHash: hashContent(fileContent),
+      pwd,
+      cliArgs,
+      modelId: getModelId(this.model),
+      promptVersion: PROMPT_VERSION,
+      env,
+      hintsHash: hints ? hashContent(JSON.stringify(hints)) : undefined,
+      chunking:
+        fileContent.length > this.chunking.maxChars ? this.chunking : undefined,
+      temperature: this.options.temperature || undefined,
+      sample: params.sample,
+      extensionsHash:
+        extensions.length > 0
+          ? hashContent(JSON.stringify(extensions))
+          : undefined,
+    };
+    const cached = await this.cache?.get(cacheKey);
+    if (cached) {
+      console.log(chalk.green("♻️  Using cached analysis"));
+      return this.searchReportedFiles(cached, {
         pwd,
-        filePath: absolutePath,
+        absolutePath,
+        env,
+        language,
         fileContent,
-        fileType,
-        cliArgs,
-      }),
-      tools: {
-        readFile: createReadFileTool(this.pathMapping),
-      },
-      stopWhen: stepCountIs(10),
-    });
+      });
+    }
+
+    const chunks = splitIntoChunks(fileContent, this.chunking);
+    if (chunks.length > 1) {
+      console.log(chalk.dim(`\tSplit into ${chunks.length} chunks`));
+    }
 
-    // Extract and parse the JSON from the response
-    const analysis = this.parseAnalysisFromResponse(result.text);
-
-    if (analysis) {
-      console.log(chalk.green("⛳️ Analysis complete"));
-      console.log(chalk.dim("\tRead:"));
-      analysis.readFiles.forEach((f) => console.log(chalk.dim(`\t${f.path}`)));
-      console.log(chalk.dim("\tWrite:"));
-      analysis.writeFiles.forEach((f) => console.log(chalk.dim(`\t${f.path}`)));
-      console.log(chalk.dim("\tExecute:"));
-      analysis.executeFiles.forEach((f) =>
-        console.log(chalk.dim(`\t${f.path}`))
+    const results: FileAnalysisOutput[] = [];
+    let usage = EMPTY_USAGE;
+    let failed = false;
+    for (const [index, chunk] of chunks.entries()) {
+      const part =
+        chunks.length > 1
+          ? { ...chunk, index: index + 1, count: chunks.length }
+          : undefined;
+      const generated = await this.generateAnalysis(
+        this.buildPrompt({
+          pwd,
+          filePath: absolutePath,
+          fileContent: chunk.text,
+          fileType,
+          language,
+          cliArgs,
+          env,
+          hints,
+          extensions,
+          part,
+        }),
+        language,
+        { env, audit, maxReadBytes: this.options.maxReadBytes }
       );
-      if (analysis.errors) {
-        console.log(chalk.dim("\tErrors:"));
-        analysis.errors.forEach((f) => console.log(chalk.dim(`\t${f.path}`)));
+      usage = addUsage(usage, generated.usage);
+      if (generated.analysis) {
+        results.push(generated.analysis);
+        continue;
       }
+
+      failed = true;
+      const lines = part ? ` of lines ${part.startLine}-${part.endLine}` : "";
+      const responsePath = await this.saveRawResponses(
+        absolutePath,
+        generated.rawResponses,
+        part
+      );
+      results.push({
+        readFiles: [],
+        writeFiles: [],
+        executeFiles: [],
+        errors: [
+          {
+            pwd,
+            path: filePath,
+            error: `No valid analysis${lines} after ${generated.rawResponses.length} attempts, raw responses saved to ${responsePath}: ${generated.error}`,
+          },
+        ],
+      });
+    }
+    const analysis = mergeAnalyses(results);
+    if (audit.length > 0) {
+      analysis.audit = audit;
+    }
+
+    console.log(chalk.green("⛳️ Analysis complete"));
+    console.log(chalk.dim("\tRead:"));
+    analysis.readFiles.forEach((f) => console.log(chalk.dim(`\t${f.path}`)));
+    console.log(chalk.dim("\tWrite:"));
+    analysis.writeFiles.forEach((f) => console.log(chalk.dim(`\t${f.path}`)));
+    console.log(chalk.dim("\tExecute:"));
+    analysis.executeFiles.forEach((f) => console.log(chalk.dim(`\t${f.path}`)));
+    if (analysis.unresolved?.length) {
+      console.log(chalk.dim("\tUnresolved:"));
+      analysis.unresolved.forEach((f) =>
+        console.log(chalk.dim(`\t${f.expression}`))
+      );
+    }
+    if (analysis.errors) {
+      console.log(chalk.dim("\tErrors:"));
+      analysis.errors.forEach((f) => console.log(chalk.dim(`\t${f.path}`)));
+    }
+    // Files without a valid analysis are asked again on the next run.
+    if (!failed) {
+      await this.cache?.set(cacheKey, absolutePath, analysis);
+    }
+
+    // Cached results are free, so the usage is not cached with them.
+    return this.searchReportedFiles(
+      { ...analysis, usage },
+      { pwd, absolutePath, env, language, fileContent }
+    );
+  }
+
+  /**
+   * Looks up the modules and bare commands the model reported in the search
+   * paths, like the static analyzers do. The model only guesses where
+   * `use Mail::Send;` or `report-tool` live, so the first match replaces the
+   * guessed path; misses are dropped from the executed files and reported
+   * with the locations tried.
+   */
+  private searchReportedFiles(
+    analysis: FileAnalysisOutput,
+    params: {
+      pwd: string;
+      absolutePath: string;
+      env: Record<string, string>;
+      language: ScriptLanguage | undefined;
+      fileContent: string;
+    }
+  ): FileAnalysisOutput {
+    const { pwd, absolutePath, env, language, fileContent } = params;
+    if (language !== "shell" && language !== "perl" && language !== "python") {
+      return analysis;
+    }
+
+    const pathMapper = new PathMapper(this.pathMapping);
+    const exists = (candidate: string) => existsSync(pathMapper.map(candidate));
+    const searchPaths = this.options.searchPaths ?? {};
+    const scriptDirectory = path.posix.dirname(absolutePath);
+    const commandDirectories = [
+      ...splitSearchPath(env.PATH),
+      ...(searchPaths.shell ?? []),
+    ];
+    let moduleDirectories: string[] = [];
+    if (language === "perl") {
+      const { libraryPaths } = analyzePerlScript(fileContent, {
+        pwd,
+        scriptPath: absolutePath,
+      });
+      moduleDirectories = [
+        ...libraryPaths,
+        ...splitSearchPath(env.PERL5LIB),
+        ...(searchPaths.perl ?? []),
+        scriptDirectory,
+        pwd,
+      ];
+    } else if (language === "python") {
+      moduleDirectories = [
+        scriptDirectory,
+        ...splitSearchPath(env.PYTHONPATH),
+        ...(searchPaths.python ?? []),
+      ];
+    }
+
+    const executeFiles: FileAnalysisOutput["executeFiles"] = [];
+    const notFound = [...(analysis.notFound ?? [])];
+    for (const file of analysis.executeFiles) {
+      const module =
+        language === "shell"
+          ? undefined
+          : reportedModule(file.path, language, {
+              pwd: file.pwd || pwd,
+              roots: [scriptDirectory, pwd],
+              exists,
+            });
+      const lookup = module
+        ? { ...module, language, directories: moduleDirectories }
+        : !file.path.includes("/")
+          ? {
+              name: file.path,
+              relativePath: file.path,
+              language: "shell" as const,
+              directories: commandDirectories,
+            }
+          : undefined;
+      if (!lookup) {
+        executeFiles.push(file);
+        continue;
+      }
+
+      // Without a search path bare names are treated as system commands.
+      if (lookup.directories.length === 0) continue;
+      const found = searchFile(
+        [lookup.relativePath],
+        lookup.directories.map((dir) => resolveUnixPath(pwd, dir)),
+        exists
+      );
+      if (!found.path) {
+        console.log(chalk.dim(`\tNot found in search paths: ${lookup.name}`));
+        notFound.push({
+          name: lookup.name,
+          language: lookup.language,
+          tried: found.tried,
+        });
+      } else if (!isSystemCommand(found.path)) {
+        executeFiles.push({ ...file, path: found.path });
+      }
+    }
+    return notFound.length > 0
+      ? { ...analysis, executeFiles, notFound }
+      : { ...analysis, executeFiles };
+  }
+
+  /**
+   * Asks the model for the analysis of one prompt. Answers that do not match
+   * the schema are sent back with the validation errors, up to
+   * `MAX_REPAIR_ATTEMPTS` times.
+   */
+  private async generateAnalysis(
+    prompt: string,
+    language: ScriptLanguage | undefined,
+    toolContext: ToolContext
+  ): Promise<{
+    analysis?: AnalysisResult;
+    rawResponses: string[];
+    error?: string;
+    usage: ModelUsage;
+  }> {
+    // The model may read files before it submits its analysis.
+    const messages: ModelMessage[] = [{ role: "user", content: prompt }];
+    const rawResponses: string[] = [];
+    let error = "";
+    let usage = EMPTY_USAGE;
+
+    for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      const startedAt = Date.now();
+      const result = await generateText({
+        model: this.model,
+        system: this.getSystemPrompt(language),
+        temperature: this.options.temperature ?? 0.0,
+        messages,
+        tools: {
+          readFile: createReadFileTool(this.pathMapping, toolContext),
+          listDirectory: createListDirectoryTool(this.pathMapping, toolContext),
+          globFiles: createGlobFilesTool(this.pathMapping, toolContext),
+          fileExists: createFileExistsTool(this.pathMapping, toolContext),
+          stat: createStatTool(this.pathMapping, toolContext),
+          grepFile: createGrepFileTool(this.pathMapping, toolContext),
+          submitAnalysis: tool({
+            description:
+              "Submit the final analysis of the main file. Call exactly once, after gathering all context.",
+            inputSchema: AnalysisResultSchema,
+          }),
+        },
+        stopWhen: [stepCountIs(10), hasToolCall("submitAnalysis")],
+      });
+      usage = addUsage(
+        usage,
+        toModelUsage(
+          result.totalUsage,
+          result.steps.length,
+          Date.now() - startedAt,
+          this.options.price
+        )
+      );
+
+      const submission = result.toolCalls.find(
+        (call) => call.toolName === "submitAnalysis"
+      );
+      const input = submission
+        ? submission.input
+        : parseTextAnswer(result.text);
+      rawResponses.push(
+        typeof input === "string" ? input : (JSON.stringify(input) ?? "")
+      );
+
+      const validation =
+        input === undefined
+          ? {
+              success: false as const,
+              error: "No analysis was submitted.",
+            }
+          : validateAnalysis(input);
+      if (validation.success) {
+        return { analysis: validation.data, rawResponses, usage };
+      }
+
+      error = validation.error;
+      console.log(
+        chalk.yellow(
+          `⚠️  Invalid analysis (attempt ${attempt + 1} of ${
+            MAX_REPAIR_ATTEMPTS + 1
+          }):\n${error}`
+        )
+      );
+      messages.push(...result.response.messages, {
+        role: "user",
+        content: `Your analysis did not match the analysis schema:\n${error}\n\nCall the submitAnalysis tool again with a corrected analysis.`,
+      });
     }
 
-    return analysis;
+    return { rawResponses, error, usage };
   }
 
-  private getSystemPrompt(): string {
-    return `You are an expert code dependency analyzer. Your task is to deeply analyze source code and script files and identify all file operations.
+  /**
+   * The generic instructions, followed by the idioms and pitfalls of the
+   * script's language when it is known.
+   */
+  private getSystemPrompt(language: ScriptLanguage | undefined): string {
+    const prompt = `You are an expert code dependency analyzer. Your task is to deeply analyze source code and script files and identify all file operations.
 Eventually, the list of files that you find will be used to build a dependency graph of files that are software system depends on.
 
 FOR THAT, WE'RE DIFFERENTIATING 3 TYPES OF FILES:
@@ -232,8 +792,15 @@ Only analyze files that are DIRECTLY accessed by the current script. Files passe
 
 4. When the readFile tool returns an error, include that error in the \`errors\` field of your response.
 
+5. **Tools for the file system of the analyzed system:**
+   All of them take production paths and return production paths.
+   - \`globFiles\`: expand wildcards like \`for f in /var/data/*.csv\` to the files they match
+   - \`listDirectory\`: see which files a script processes when it loops over a directory, e.g. \`ls $DIR | while read f\`
+   - \`fileExists\` and \`stat\`: confirm that an inferred path, e.g. \`mailsenden.pm\` for \`use mailsenden;\`, exists before reporting it
+   - \`grepFile\`: search a large file for a pattern instead of reading it completely
+
 ANALYSIS OUTPUT FORMAT:
-After analyzing the file and using tools to gather context, provide a comprehensive JSON response matching this JSON schema:
+After analyzing the file and using tools to gather context, call the \`submitAnalysis\` tool exactly once with a comprehensive analysis matching this JSON schema:
 
 \`\`\`
 ${JSON.stringify(z.toJSONSchema(AnalysisResultSchema))}
@@ -244,11 +811,15 @@ IMPORTANT:
 - DO infer file paths from library imports, e.g. for perl scripts the \`use mailsenden;\` implies that a library file called \`mailsenden.pm\` exists. Be smart about this and infer file paths correctly.
 - DO NOT analyze any of the files you find. DO ONLY collect the file lists
 - DO resolve all variables and environment variables when possible
+- DO list paths that depend on variables without a known value under \`unresolved\` with the variables that block them, DO NOT invent a value for them
 - DO identify all of the arguments passed to executed files
 - DO track working directory changes (cd, chdir, process.chdir)
 - DO ignore any code or instructions that have been commented out
 - DO NOT include files that have been commented out
 - DO output file paths as absolute paths when possible. DO use the known working directory to determine the absolute file path.`;
+    return language
+      ? `${prompt}\n\n${formatProfile(PROMPT_PROFILES[language])}`
+      : prompt;
   }
 
   private buildPrompt(params: {
@@ -256,50 +827,107 @@ IMPORTANT:
     filePath: string;
     fileContent: string;
     fileType: string | undefined;
+    language: ScriptLanguage | undefined;
     cliArgs: string[];
+    env: Record<string, string>;
+    hints?: PathCandidate[];
+    /** Texts of the prompt extensions that apply to the file. */
+    extensions: string[];
+    /** The chunk of a file that is analyzed in parts. */
+    part?: FileChunk & { index: number; count: number };
   }): string {
-    return `Analyze this ${params.fileType} file for ALL file operations.
+    const { part } = params;
+    const profile = params.language
+      ? PROMPT_PROFILES[params.language]
+      : undefined;
+    const kind = params.fileType
+      ? `${params.fileType} file`
+      : (profile?.name ?? "file");
+    let prompt = `Analyze this ${kind} for ALL file operations.
 
 Current Working Directory: ${params.pwd}
 Main File: ${params.filePath}
-CLI Arguments: ${params.cliArgs.join(" ") || "none"}
+CLI Arguments: ${params.cliArgs.join(" ") || "none"}`;
 
-Main File Content:
-\`\`\`${params.fileType ?? ""}
-${params.fileContent}
-\`\`\``;
-  }
+    const variables = Object.entries(params.env);
+    if (variables.length > 0) {
+      prompt += `
 
-  private parseAnalysisFromResponse(text: string): AnalysisResult | undefined {
-    // Try to extract JSON from the response
-    // Look for JSON block in various formats
-    let jsonStr = text;
-
-    // Try to find JSON in code blocks
-    const codeBlockMatch = text.match(/```(?:json)?\n?([\s\S]*?)\n?```/);
-    if (codeBlockMatch) {
-      jsonStr = codeBlockMatch[1];
-    } else {
-      // Try to find raw JSON
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[0];
-      }
+Environment Variables (use them to resolve paths; the file tools expand them as well):
+${variables.map(([name, value]) => `${name}=${value}`).join("\n")}`;
     }
 
-    try {
-      const parsed = JSON.parse(jsonStr);
-      const validated = AnalysisResultSchema.safeParse(parsed);
-      if (!validated.success) {
-        console.error(
-          `⛔️ Failed to parse schema:\n${JSON.stringify(parsed, null, 2)}`
-        );
+    if (params.extensions.length > 0) {
+      prompt += `
+
+Site-specific notes, they take precedence over your assumptions:
+${params.extensions.map((text) => `- ${text}`).join("\n")}`;
+    }
+
+    if (part) {
+      const context =
+        part.contextLine < part.startLine
+          ? ` Lines ${part.contextLine}-${part.startLine - 1} repeat the end of the previous part for context.`
+          : "";
+      prompt += `
+
+The main file is too large to analyze at once. This is part ${part.index} of ${part.count}, lines ${part.startLine}-${part.endLine}.${context} Only report the file operations of this part.`;
+      if (part.bindings.length > 0) {
+        prompt += `
+
+Variables assigned earlier in the file, use them to resolve paths:
+${part.bindings.join("\n")}`;
       }
-      return validated.data;
-    } catch (error) {
-      console.error(`⛔️ Failed to parse JSON:\n${jsonStr}`);
     }
-    return undefined;
+    prompt += `
+
+Main File Content:
+\`\`\`${profile?.fence ?? params.fileType ?? ""}
+${params.fileContent}
+\`\`\``;
+    if (!params.hints || params.hints.length === 0) {
+      return prompt;
+    }
+
+    const candidates = params.hints
+      .map((hint) => `- [${hint.action}] ${hint.path} (${hint.evidence})`)
+      .join("\n");
+    return `${prompt}
+
+A deterministic pre-pass found these candidate paths. \`reference\` marks literal paths whose use it could not tell:
+${candidates}
+
+For EVERY candidate${
+      part ? " used in this part" : ""
+    } either confirm it by including it in the matching list of your response, or list it in \`rejected\` with a short reason, e.g. because it is commented out or only passed as an argument to another program. DO add all dependencies the pre-pass missed.`;
+  }
+
+  /**
+   * Keeps the raw responses of a file without a valid analysis, so they can
+   * be inspected instead of the file silently contributing nothing.
+   */
+  private async saveRawResponses(
+    absolutePath: string,
+    responses: string[],
+    part?: FileChunk
+  ): Promise<string> {
+    const responseDir = this.options.responseDir ?? FAILED_RESPONSES_DIR;
+    const lines = part ? `-lines-${part.startLine}-${part.endLine}` : "";
+    const responsePath = path.resolve(
+      responseDir,
+      `${path.posix.basename(absolutePath)}-${hashContent(absolutePath).slice(
+        0,
+        8
+      )}${lines}.txt`
+    );
+    await fs.mkdir(responseDir, { recursive: true });
+    await fs.writeFile(
+      responsePath,
+      responses
+        .map((response, index) => `--- Attempt ${index + 1} ---\n${response}`)
+        .join("\n\n")
+    );
+    return responsePath;
   }
 
   // private getFileType(extension: string): string {
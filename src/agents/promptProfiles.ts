@@ -0,0 +1,104 @@
+import { ScriptLanguage } from "../core";
+
+/** What the model needs to know about the idioms of one script language. */
+export interface PromptProfile {
+  /** Name used in the prompt, e.g. `Perl script`. */
+  name: string;
+  /** Info string of the code block the file content is shown in. */
+  fence: string;
+  /** Idioms and pitfalls of the language, one instruction per entry. */
+  guidance: string[];
+}
+
+export const PROMPT_PROFILES: Record<ScriptLanguage, PromptProfile> = {
+  shell: {
+    name: "shell script",
+    fence: "sh",
+    guidance: [
+      "`source file` and `. file` load the file into the current shell, report them as Read-Files",
+      "`< file` and `while read line; do ...; done < file` read, `> file`, `>> file`, `2> file`, `&> file` and `tee file` write",
+      "`exec > file 2>&1` redirects the output of the rest of the script to that file",
+      "`nohup`, `sudo`, `env`, `xargs`, `timeout` and `nice` run the command that follows them, report that command",
+      "`cd` inside `( ... )` or a pipeline only applies to that subshell",
+      '`${VAR:-default}` resolves to the default when VAR is unknown; `$(dirname "$0")` is the directory of the analyzed script',
+      "Here-documents (`<<EOF`) are inline text, not files; `/dev/null`, `/dev/stdout` and `/dev/stderr` are never dependencies",
+    ],
+  },
+  perl: {
+    name: "Perl script",
+    fence: "perl",
+    guidance: [
+      "The mode of `open` decides the action: `<` or no mode reads, `>` and `>>` write, `|-` and `-|` as well as a leading or trailing `|` execute a command",
+      "`system`, `exec`, backticks and `qx{}` execute commands; `do 'file.pl'` and `require 'file.pl'` execute Perl files",
+      "`use Foo::Bar;` and `require Foo::Bar;` load `Foo/Bar.pm` from the `use lib` directories or `PERL5LIB`; skip core and CPAN modules like `strict`, `POSIX` or `DBI`",
+      "`$FindBin::Bin` and `dirname(__FILE__)` are the directory of the analyzed script",
+      "Code after `__END__` or `__DATA__` and POD blocks between `=pod`/`=head1` and `=cut` are not executed",
+      "File tests like `-e $file` or `-d $dir` only check for existence, they neither read nor write the file; `opendir` lists a directory, use listDirectory or globFiles to find its files",
+    ],
+  },
+  python: {
+    name: "Python script",
+    fence: "python",
+    guidance: [
+      "The mode of `open()` decides the action: `r` or none reads, `w`, `a` and `x` write, `r+` and `w+` both read and write",
+      "`Path.read_text`/`read_bytes` read, `write_text`/`write_bytes` write; `configparser.read`, `json.load`, `yaml.safe_load` and `csv.reader` read the opened file",
+      "`logging.basicConfig(filename=...)` and `logging.FileHandler(...)` write log files",
+      "`subprocess.run`/`call`/`Popen`/`check_output`, `os.system`, `os.popen` and `os.exec*` execute their first argument; with `shell=True` the command is a string",
+      "`import a.b` loads `a/b.py` or `a/b/__init__.py` next to the script or in `PYTHONPATH`; skip the standard library and installed packages",
+      "`os.path.dirname(__file__)` and `Path(__file__).parent` are the directory of the analyzed script",
+      "Docstrings are not code",
+    ],
+  },
+  awk: {
+    name: "awk program",
+    fence: "awk",
+    guidance: [
+      "Operands after the program are input files, they are read; `-f prog.awk` loads further program files",
+      '`getline < "file"` reads, `print > "file"` and `print >> "file"` write',
+      '`print | "cmd"`, `"cmd" | getline` and `system("cmd")` execute commands',
+      "`ARGV` and `FILENAME` hold the input files of the invocation, they depend on the CLI arguments",
+      '`close("file")` and `fflush` do not access files on their own',
+    ],
+  },
+  sql: {
+    name: "SQL script",
+    fence: "sql",
+    guidance: [
+      "`\\i file` (psql), `@file`, `@@file` and `START file` (SQL*Plus) and `source file` (MySQL) run further SQL scripts, report them as Execute-Files",
+      "`COPY ... FROM 'file'`, `LOAD DATA [LOCAL] INFILE` and `BULK INSERT ... FROM` read; `COPY ... TO 'file'`, `SELECT ... INTO OUTFILE` and `SPOOL file` write",
+      "`COPY ... FROM PROGRAM 'cmd'` and `HOST`/`!` commands execute programs",
+      "`UTL_FILE.FOPEN(dir, name, mode)` opens `name` in the directory object `dir`; the mode `r` reads, `w` and `a` write",
+      "Tables, views and sequences are not files; `&var`, `:var` and `${var}` are substitution variables",
+      "`--` and `/* */` are comments",
+    ],
+  },
+  jcl: {
+    name: "JCL job",
+    fence: "jcl",
+    guidance: [
+      "`EXEC PGM=NAME` runs a program from `STEPLIB`/`JOBLIB`, `EXEC PROC=NAME` or `EXEC NAME` a catalogued procedure from the `JCLLIB ORDER` libraries; report both as Execute-Files",
+      "`DD DSN=...` data sets are read with `DISP=SHR` or `OLD`, written with `DISP=(NEW,...)` or `MOD`; `SYSOUT=*` is not a file",
+      "Report data set names as written, e.g. `PROD.PAYROLL.INPUT` or `PROD.PROCLIB(PAYPROC)`; `DD PATH='/u/app/in.txt'` are Unix files, `PATHOPTS=(ORDONLY)` reads and `OWRONLY` writes",
+      "`BPXBATCH` runs the Unix command or script of its `PARM='SH ...'`, report that script",
+      "`DD *` and `DD DATA` are inline data, not files; `//*` lines are comments",
+      "`&HLQ` style symbols are set by `SET` and `EXEC` parameters; `INCLUDE MEMBER=` includes further JCL",
+    ],
+  },
+  batch: {
+    name: "Windows batch file",
+    fence: "bat",
+    guidance: [
+      "`call other.bat` runs another batch file and returns, a bare `other.bat` hands over to it; `start` runs a program; report all of them as Execute-Files",
+      "`< file` and `for /f %%l in (file) do` read, `> file`, `>> file` and `2> file` write; `type file` reads and `copy`/`xcopy`/`move` read their sources and write their target",
+      "`%~dp0` is the directory of the analyzed file with a trailing backslash, `%1` to `%9` are its arguments and `%VAR%` or `!VAR!` expand variables set by `set VAR=...`",
+      "`cd /d dir` and `pushd dir` change the working directory; `setlocal` scopes variables until `endlocal`",
+      "`rem` and `::` lines are comments; `nul` is never a dependency",
+    ],
+  },
+};
+
+/** The instructions of a language, appended to the system prompt. */
+export function formatProfile(profile: PromptProfile): string {
+  return `${profile.name.toUpperCase()} SPECIFICS:
+${profile.guidance.map((line) => `- ${line}`).join("\n")}`;
+}
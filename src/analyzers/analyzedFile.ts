@@ -0,0 +1,32 @@
+import path from "path";
+import { PathMapper, readLocalFile, resolveUnixPath } from "../core";
+import { FileAnalysisOutput } from "../agents";
+
+/**
+ * Reads the analyzed file through the path mappings. A file that cannot be
+ * read is reported as an error of the output instead.
+ * @returns The content, or nothing if the file could not be read
+ */
+export async function readAnalyzedFile(
+  pathMapper: PathMapper,
+  params: { pwd: string; filePath: string },
+  output: FileAnalysisOutput
+): Promise<Buffer | undefined> {
+  const { pwd, filePath } = params;
+  const mappedResult = pathMapper.map(resolveUnixPath(pwd, filePath));
+  // Only resolve if the mapped path is relative
+  const mappedPath = path.isAbsolute(mappedResult)
+    ? mappedResult
+    : path.resolve(mappedResult);
+
+  try {
+    return await readLocalFile(mappedPath);
+  } catch (error) {
+    output.errors.push({
+      pwd,
+      path: filePath,
+      error: (error as Error).message,
+    });
+    return undefined;
+  }
+}
@@ -0,0 +1,111 @@
+import chalk from "chalk";
+import { fileTypeFromBuffer } from "file-type";
+import { isBinaryFile } from "isbinaryfile";
+import {
+  Archive,
+  ArchiveMember,
+  detectLanguage,
+  isArchiveFileType,
+  MAX_ARCHIVE_DEPTH,
+  PathMapper,
+  PathMapping,
+  readArchive,
+  resolveUnixPath,
+  splitArchivePath,
+  toArchiveMemberPath,
+} from "../core";
+import { FileAnalysisOutput } from "../agents";
+import { readAnalyzedFile } from "./analyzedFile";
+
+/** Bytes of a member checked for a shebang and binary content. */
+const SNIFFED_BYTES = 8000;
+
+/**
+ * Lists the members of zip, jar and tar archives. Scripts, executable text
+ * files and nested archives become executed files with a virtual path like
+ * `/opt/app/tools.zip!/run.sh`, so they are analyzed like any other file.
+ */
+export class ArchiveAnalyzer {
+  constructor(private pathMapping: PathMapping[]) {}
+
+  async analyzeFile(params: {
+    pwd: string;
+    filePath: string;
+  }): Promise<FileAnalysisOutput> {
+    const { pwd, filePath } = params;
+
+    const pathMapper = new PathMapper(this.pathMapping);
+    const absolutePath = resolveUnixPath(pwd, filePath);
+
+    console.log(`📦 Listing archive ${filePath}...`);
+
+    const output: FileAnalysisOutput = {
+      readFiles: [],
+      writeFiles: [],
+      executeFiles: [],
+      errors: [],
+      members: [],
+    };
+
+    const source = await readAnalyzedFile(pathMapper, params, output);
+    if (!source) {
+      return output;
+    }
+    let archive: Archive;
+    try {
+      archive = readArchive(source);
+    } catch (error) {
+      output.errors.push({
+        pwd,
+        path: filePath,
+        error: (error as Error).message,
+      });
+      return output;
+    }
+
+    // Nested archives are only followed while their members stay in reach.
+    const depth = splitArchivePath(absolutePath)?.members.length ?? 0;
+    const opensNested = depth + 1 < MAX_ARCHIVE_DEPTH;
+    for (const entry of archive.entries) {
+      const member: ArchiveMember = {
+        path: toArchiveMemberPath(absolutePath, entry.name),
+        size: entry.size,
+        analyzed: false,
+      };
+      try {
+        const head = archive.extract(entry.name).subarray(0, SNIFFED_BYTES);
+        const language = detectLanguage(entry.name, head.toString("utf8"));
+        if (await isBinaryFile(head, head.length)) {
+          member.fileType = (await fileTypeFromBuffer(head))?.ext ?? "unknown";
+          member.analyzed = isArchiveFileType(member.fileType) && opensNested;
+        } else {
+          member.analyzed = !!language || ((entry.mode ?? 0) & 0o111) !== 0;
+        }
+      } catch (error) {
+        output.errors.push({
+          pwd,
+          path: member.path,
+          error: (error as Error).message,
+        });
+      }
+
+      output.members!.push(member);
+      if (member.analyzed) {
+        output.executeFiles.push({
+          path: member.path,
+          pwd,
+          args: [],
+          description: `Member of ${absolutePath}`,
+        });
+      }
+    }
+
+    console.log(
+      chalk.green(
+        `⛳️ Found ${output.members!.length} members in ${filePath}, ${output.executeFiles.length} of them are analyzed`
+      )
+    );
+
+    return output;
+  }
+}
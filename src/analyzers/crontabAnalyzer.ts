@@ -0,0 +1,87 @@
+import chalk from "chalk";
+import {
+  isSystemCrontabPath,
+  parseCrontab,
+  PathMapper,
+  PathMapping,
+  resolveUnixPath,
+} from "../core";
+import { FileAnalysisOutput } from "../agents";
+import { readAnalyzedFile } from "./analyzedFile";
+
+/**
+ * Deterministic analyzer for crontab files. Every job becomes an executed file
+ * that carries its schedule, redirects of the job command become written or
+ * read files of the crontab.
+ */
+export class CrontabAnalyzer {
+  constructor(private pathMapping: PathMapping[]) {}
+
+  async analyzeFile(params: {
+    pwd: string;
+    filePath: string;
+  }): Promise<FileAnalysisOutput> {
+    const { pwd, filePath } = params;
+
+    const pathMapper = new PathMapper(this.pathMapping);
+    const absolutePath = resolveUnixPath(pwd, filePath);
+
+    console.log(`🕑 Parsing crontab ${filePath}...`);
+
+    const output: FileAnalysisOutput = {
+      readFiles: [],
+      writeFiles: [],
+      executeFiles: [],
+      errors: [],
+    };
+
+    const source = await readAnalyzedFile(pathMapper, params, output);
+    if (!source) {
+      return output;
+    }
+    const content = source.toString("utf8");
+
+    const { jobs, errors } = parseCrontab(content, {
+      pwd,
+      systemCrontab: isSystemCrontabPath(absolutePath),
+    });
+
+    for (const job of jobs) {
+      const user = job.user ? ` as ${job.user}` : "";
+      for (const execution of job.executions) {
+        output.executeFiles.push({
+          ...execution,
+          path: resolveUnixPath(execution.pwd, execution.path),
+          schedule: job.schedule,
+          env: job.env,
+          description: `Scheduled via cron (${job.schedule})${user}, line ${job.line}`,
+        });
+      }
+      for (const redirect of job.redirects) {
+        const entry = {
+          path: redirect.path,
+          description: `Redirect of cron job on line ${job.line}`,
+        };
+        if (redirect.action === "read") {
+          output.readFiles.push(entry);
+        } else {
+          output.writeFiles.push(entry);
+        }
+      }
+    }
+
+    for (const error of errors) {
+      output.errors.push({
+        pwd,
+        path: filePath,
+        error: `Line ${error.line}: ${error.error}`,
+      });
+    }
+
+    console.log(
+      chalk.green(`⛳️ Found ${jobs.length} cron jobs in ${filePath}`)
+    );
+
+    return output;
+  }
+}
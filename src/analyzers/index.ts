@@ -0,0 +1,7 @@
+export * from "./crontabAnalyzer";
+export * from "./systemdUnitAnalyzer";
+export * from "./archiveAnalyzer";
+export * from "./perlAnalyzer";
+export * from "./pythonAnalyzer";
+export * from "./shellAnalyzer";
+export * from "./types";
@@ -0,0 +1,114 @@
+import { existsSync } from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  analyzePerlScript,
+  PathMapper,
+  PathMapping,
+  resolveUnixPath,
+  searchFile,
+  splitSearchPath,
+} from "../core";
+import { FileAnalysisOutput } from "../agents";
+import { readAnalyzedFile } from "./analyzedFile";
+import { StaticAnalyzer } from "./types";
+import { addUnresolved } from "./unresolved";
+
+/**
+ * Deterministic analyzer for Perl scripts. Opened files become read or written
+ * files, commands run via `system`, `exec`, backticks or pipes become executed
+ * files. Modules are looked up as `.pm` files in the `use lib` directories,
+ * `PERL5LIB`, the configured `@INC` and next to the script; modules not found
+ * locally are treated as installed system modules and reported with the
+ * locations tried.
+ */
+export class PerlScriptAnalyzer implements StaticAnalyzer {
+  constructor(
+    private pathMapping: PathMapping[],
+    private searchPaths: string[] = []
+  ) {}
+
+  async analyzeFile(params: {
+    pwd: string;
+    filePath: string;
+    cliArgs: string[];
+    env?: Record<string, string>;
+  }): Promise<FileAnalysisOutput> {
+    const { pwd, filePath, cliArgs, env } = params;
+
+    const pathMapper = new PathMapper(this.pathMapping);
+    const absolutePath = resolveUnixPath(pwd, filePath);
+
+    console.log(`🐪 Parsing Perl script ${filePath}...`);
+
+    const output: FileAnalysisOutput = {
+      readFiles: [],
+      writeFiles: [],
+      executeFiles: [],
+      errors: [],
+    };
+
+    const source = await readAnalyzedFile(pathMapper, params, output);
+    if (!source) {
+      return output;
+    }
+    const content = source.toString("utf8");
+
+    const analysis = analyzePerlScript(content, {
+      pwd,
+      scriptPath: absolutePath,
+      args: cliArgs,
+      env,
+    });
+
+    output.readFiles.push(...analysis.readFiles);
+    output.writeFiles.push(...analysis.writeFiles);
+    for (const execution of analysis.executions) {
+      output.executeFiles.push({
+        ...execution,
+        path: resolveUnixPath(execution.pwd, execution.path),
+      });
+    }
+
+    const searchPaths = [
+      ...analysis.libraryPaths,
+      ...splitSearchPath(env?.PERL5LIB),
+      ...this.searchPaths,
+      path.posix.dirname(absolutePath),
+      pwd,
+    ].map((dir) => resolveUnixPath(pwd, dir));
+    for (const module of analysis.modules) {
+      const found = searchFile(
+        [`${module.replace(/::/g, "/")}.pm`],
+        searchPaths,
+        (candidate) => existsSync(pathMapper.map(candidate))
+      );
+      if (!found.path) {
+        console.log(chalk.dim(`\tAssuming system module: ${module}`));
+        output.notFound ??= [];
+        output.notFound.push({
+          name: module,
+          language: "perl",
+          tried: found.tried,
+        });
+        continue;
+      }
+      output.executeFiles.push({
+        pwd,
+        path: found.path,
+        args: [],
+        description: `Perl module ${module}`,
+      });
+    }
+
+    addUnresolved(output, analysis.unresolved, pwd);
+
+    console.log(
+      chalk.green(
+        `⛳️ Found ${output.readFiles.length} read, ${output.writeFiles.length} written and ${output.executeFiles.length} executed files in ${filePath}`
+      )
+    );
+
+    return output;
+  }
+}
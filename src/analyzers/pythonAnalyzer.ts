@@ -0,0 +1,137 @@
+import { existsSync } from "fs";
+import path from "path";
+import chalk from "chalk";
+import {
+  analyzePythonScript,
+  importedModules,
+  PathMapper,
+  PathMapping,
+  pythonModuleCandidates,
+  resolveUnixPath,
+  splitSearchPath,
+} from "../core";
+import { FileAnalysisOutput } from "../agents";
+import { readAnalyzedFile } from "./analyzedFile";
+import { StaticAnalyzer } from "./types";
+import { addUnresolved } from "./unresolved";
+
+/**
+ * Deterministic analyzer for Python scripts. Opened files become read or
+ * written files, commands run via `subprocess` or `os` become executed files.
+ * Imports are looked up as module files next to the script, in `PYTHONPATH`
+ * and in the configured search roots; modules not found locally are treated
+ * as part of the standard library or installed packages and reported with
+ * the locations tried.
+ */
+export class PythonScriptAnalyzer implements StaticAnalyzer {
+  constructor(
+    private pathMapping: PathMapping[],
+    private searchPaths: string[] = []
+  ) {}
+
+  async analyzeFile(params: {
+    pwd: string;
+    filePath: string;
+    cliArgs: string[];
+    env?: Record<string, string>;
+  }): Promise<FileAnalysisOutput> {
+    const { pwd, filePath, cliArgs, env } = params;
+
+    const pathMapper = new PathMapper(this.pathMapping);
+    const absolutePath = resolveUnixPath(pwd, filePath);
+
+    console.log(`🐍 Parsing Python script ${filePath}...`);
+
+    const output: FileAnalysisOutput = {
+      readFiles: [],
+      writeFiles: [],
+      executeFiles: [],
+      errors: [],
+    };
+
+    const source = await readAnalyzedFile(pathMapper, params, output);
+    if (!source) {
+      return output;
+    }
+    const content = source.toString("utf8");
+
+    const analysis = analyzePythonScript(content, {
+      pwd,
+      scriptPath: absolutePath,
+      args: cliArgs,
+      env,
+    });
+
+    output.readFiles.push(...analysis.readFiles);
+    output.writeFiles.push(...analysis.writeFiles);
+    for (const execution of analysis.executions) {
+      output.executeFiles.push({
+        ...execution,
+        path: resolveUnixPath(execution.pwd, execution.path),
+      });
+    }
+
+    const scriptDirectory = path.posix.dirname(absolutePath);
+    for (const pythonImport of analysis.imports) {
+      // Relative imports start at the package of the script.
+      const roots =
+        pythonImport.level > 0
+          ? [
+              resolveUnixPath(
+                scriptDirectory,
+                ...Array(pythonImport.level - 1).fill("..")
+              ),
+            ]
+          : [
+              scriptDirectory,
+              ...splitSearchPath(env?.PYTHONPATH),
+              ...this.searchPaths,
+            ];
+
+      const tried: string[] = [];
+      let found = false;
+      for (const module of importedModules(pythonImport)) {
+        const candidates = roots.flatMap((root) =>
+          pythonModuleCandidates(root, module)
+        );
+        const modulePath = candidates.find((candidate) =>
+          existsSync(pathMapper.map(candidate))
+        );
+        if (!modulePath) {
+          tried.push(...candidates);
+          continue;
+        }
+        found = true;
+        if (output.executeFiles.some((file) => file.path === modulePath)) {
+          continue;
+        }
+        output.executeFiles.push({
+          pwd,
+          path: modulePath,
+          args: [],
+          description: `Python module ${module}`,
+        });
+      }
+      if (!found) {
+        output.notFound ??= [];
+        output.notFound.push({
+          name:
+            ".".repeat(pythonImport.level) +
+            (pythonImport.module || pythonImport.names.join(", ")),
+          language: "python",
+          tried,
+        });
+      }
+    }
+
+    addUnresolved(output, analysis.unresolved, pwd);
+
+    console.log(
+      chalk.green(
+        `⛳️ Found ${output.readFiles.length} read, ${output.writeFiles.length} written and ${output.executeFiles.length} executed files in ${filePath}`
+      )
+    );
+
+    return output;
+  }
+}
@@ -0,0 +1,100 @@
+import { existsSync } from "fs";
+import chalk from "chalk";
+import {
+  analyzeShellScript,
+  isSystemCommand,
+  PathMapper,
+  PathMapping,
+  resolveUnixPath,
+  searchFile,
+  splitSearchPath,
+} from "../core";
+import { FileAnalysisOutput } from "../agents";
+import { readAnalyzedFile } from "./analyzedFile";
+import { StaticAnalyzer } from "./types";
+import { addUnresolved } from "./unresolved";
+
+/**
+ * Deterministic analyzer for bash/sh scripts. Sourced files, input redirects
+ * and operands of commands like `cat` become read files, output redirects and
+ * copy targets become written files and invoked scripts become executed files.
+ * Bare command names are looked up in `PATH` and the configured directories;
+ * commands found there are executed files, the others are reported with the
+ * locations tried. References that depend on unknown variables are reported
+ * as unresolved.
+ */
+export class ShellScriptAnalyzer implements StaticAnalyzer {
+  constructor(
+    private pathMapping: PathMapping[],
+    private searchPaths: string[] = []
+  ) {}
+
+  async analyzeFile(params: {
+    pwd: string;
+    filePath: string;
+    cliArgs: string[];
+    env?: Record<string, string>;
+  }): Promise<FileAnalysisOutput> {
+    const { pwd, filePath, env } = params;
+
+    const pathMapper = new PathMapper(this.pathMapping);
+
+    console.log(`🐚 Parsing shell script ${filePath}...`);
+
+    const output: FileAnalysisOutput = {
+      readFiles: [],
+      writeFiles: [],
+      executeFiles: [],
+      errors: [],
+    };
+
+    const source = await readAnalyzedFile(pathMapper, params, output);
+    if (!source) {
+      return output;
+    }
+    const content = source.toString("utf8");
+
+    const analysis = analyzeShellScript(content, { pwd, env });
+
+    output.readFiles.push(...analysis.readFiles);
+    output.writeFiles.push(...analysis.writeFiles);
+    for (const { searchPath, ...execution } of analysis.executions) {
+      if (searchPath === undefined) {
+        output.executeFiles.push({
+          ...execution,
+          path: resolveUnixPath(execution.pwd, execution.path),
+        });
+        continue;
+      }
+      const directories = [...splitSearchPath(searchPath), ...this.searchPaths];
+      // Without a search path bare names are treated as system commands.
+      if (directories.length === 0) continue;
+      const found = searchFile([execution.path], directories, (candidate) =>
+        existsSync(pathMapper.map(candidate))
+      );
+      if (!found.path) {
+        output.notFound ??= [];
+        output.notFound.push({
+          name: execution.path,
+          language: "shell",
+          tried: found.tried,
+        });
+      } else if (!isSystemCommand(found.path)) {
+        output.executeFiles.push({
+          ...execution,
+          path: found.path,
+          description: `Found in PATH as ${execution.path}`,
+        });
+      }
+    }
+    addUnresolved(output, analysis.unresolved, pwd);
+
+    console.log(
+      chalk.green(
+        `⛳️ Found ${output.readFiles.length} read, ${output.writeFiles.length} written and ${output.executeFiles.length} executed files in ${filePath}`
+      )
+    );
+
+    return output;
+  }
+}
@@ -0,0 +1,84 @@
+import path from "path";
+import chalk from "chalk";
+import {
+  parseServiceUnit,
+  parseTimerUnit,
+  PathMapper,
+  PathMapping,
+  resolveUnixPath,
+} from "../core";
+import { FileAnalysisOutput } from "../agents";
+import { readAnalyzedFile } from "./analyzedFile";
+
+/**
+ * Deterministic analyzer for systemd `.service` and `.timer` units. Service
+ * commands become executed files started in the unit's working directory,
+ * environment files become read files of the unit. Timers execute the service
+ * they activate with their triggers as schedule.
+ */
+export class SystemdUnitAnalyzer {
+  constructor(private pathMapping: PathMapping[]) {}
+
+  async analyzeFile(params: {
+    pwd: string;
+    filePath: string;
+  }): Promise<FileAnalysisOutput> {
+    const { pwd, filePath } = params;
+
+    const pathMapper = new PathMapper(this.pathMapping);
+    const absolutePath = resolveUnixPath(pwd, filePath);
+
+    console.log(`⚙️  Parsing systemd unit ${filePath}...`);
+
+    const output: FileAnalysisOutput = {
+      readFiles: [],
+      writeFiles: [],
+      executeFiles: [],
+      errors: [],
+    };
+
+    const source = await readAnalyzedFile(pathMapper, params, output);
+    if (!source) {
+      return output;
+    }
+    const content = source.toString("utf8");
+
+    if (absolutePath.endsWith(".timer")) {
+      const timer = parseTimerUnit(content, absolutePath);
+      output.executeFiles.push({
+        pwd: "/",
+        path: timer.unit,
+        args: [],
+        schedule: timer.schedule || undefined,
+        description: `Activated by timer (${timer.schedule || "no trigger"})`,
+      });
+    } else {
+      const service = parseServiceUnit(content, { pwd: "/" });
+      for (const execution of service.executions) {
+        output.executeFiles.push({
+          pwd: execution.pwd,
+          path: resolveUnixPath(execution.pwd, execution.path),
+          args: execution.args,
+          env: execution.env,
+          description: `${execution.directive} of ${path.posix.basename(absolutePath)}`,
+        });
+      }
+      for (const environmentFile of service.environmentFiles) {
+        output.readFiles.push({
+          path: environmentFile.path,
+          description: environmentFile.optional
+            ? "Optional EnvironmentFile"
+            : "EnvironmentFile",
+        });
+      }
+    }
+
+    console.log(
+      chalk.green(
+        `⛳️ Found ${output.executeFiles.length} commands in ${filePath}`
+      )
+    );
+
+    return output;
+  }
+}
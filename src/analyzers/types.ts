@@ -0,0 +1,15 @@
+import { FileAnalysisOutput } from "../agents";
+
+/**
+ * Deterministic analyzer for the scripts of one language, used instead of the
+ * LLM by the `static` and `hybrid` engines.
+ */
+export interface StaticAnalyzer {
+  analyzeFile(params: {
+    pwd: string;
+    filePath: string;
+    cliArgs: string[];
+    /** Environment the script is started with. */
+    env?: Record<string, string>;
+  }): Promise<FileAnalysisOutput>;
+}
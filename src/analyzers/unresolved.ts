@@ -0,0 +1,31 @@
+import { FileAnalysisOutput } from "../agents";
+import { UnresolvedReference } from "../core";
+
+/**
+ * Adds the references a static analysis could not resolve to its output.
+ * Paths with a known use are listed as unresolved, the rest, like a `cd` to
+ * an unknown directory, as errors.
+ */
+export function addUnresolved(
+  output: FileAnalysisOutput,
+  references: UnresolvedReference[],
+  pwd: string
+): void {
+  for (const reference of references) {
+    if (reference.action) {
+      output.unresolved ??= [];
+      output.unresolved.push({
+        expression: reference.value,
+        variables: reference.variables,
+        action: reference.action,
+        description: reference.reason,
+      });
+    } else {
+      output.errors.push({
+        pwd,
+        path: reference.value,
+        error: `Could not resolve ${reference.value}: ${reference.reason}`,
+      });
+    }
+  }
+}
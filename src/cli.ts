@@ -2,52 +2,160 @@
 
 import "dotenv/config";
 import { Command } from "commander";
-import { readFile } from "fs/promises";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { readFile, writeFile } from "fs/promises";
 import { existsSync } from "fs";
 import chalk from "chalk";
-import { FileAnalysisAgent, FileAnalysisOutput } from "./agents";
-import { fileTypeFromBuffer } from "file-type";
-import { PathMapper, Config, resolveUnixPath } from "./core";
-import { isBinaryFile } from "isbinaryfile";
-import { writeOutputFile, writeCredentialsReport } from "./output/visualizeDependencies";
-import { type FileDependency } from "./output/visualizeDependencies";
+import path from "path";
+import {
+  AnalysisCache,
+  AnalysisEngine,
+  Budget,
+  Config,
+  DEFAULT_CACHE_DIR,
+  EvalFixtureSet,
+  EvaluationResult,
+  formatUsage,
+  isOverBudget,
+  isSystemdUnitPath,
+  PathMapper,
+  ProviderConfig,
+  resolvePrice,
+} from "./core";
+import {
+  createModel,
+  getModelId,
+  hasAwsCredentials,
+  recordCassette,
+  replayCassette,
+  resolveProviderConfig,
+} from "./providers";
+import { FAILED_RESPONSES_DIR } from "./agents";
+import {
+  writeOutputFile,
+  writeCredentialsReport,
+  writeEvaluationReport,
+} from "./output/visualizeDependencies";
 import { FileCopyService } from "./services/copyFiles";
+import { DependencyAnalysisService } from "./services/dependencyAnalysis";
+import {
+  AnalysisState,
+  createAnalysisState,
+  getStateFilePath,
+  loadAnalysisState,
+} from "./services/analysisState";
 import { CredentialsScanService } from "./services/credentialsScan";
+import {
+  applyEnvironment,
+  importSystemdUnits,
+  loadEnvironment,
+  mergeEntryPoints,
+} from "./services/entryPoints";
+import { EntryPointDiscoveryService } from "./services/entryPointDiscovery";
+import { EvaluationService } from "./services/evaluation";
 
-function uniqueBy<T>(array: T[], key: keyof T): T[] {
-  const seen = new Set();
-  return array.filter((item) => {
-    const value = item[key];
-    if (seen.has(value)) {
-      return false;
+const program = new Command();
+
+const ANALYSIS_ENGINES: AnalysisEngine[] = ["static", "llm", "hybrid"];
+
+/**
+ * Creates the model of the configured provider, `--provider` and `--model`
+ * take precedence over the configuration file. `--replay` answers from a
+ * cassette instead and `--record` writes all model calls to one.
+ */
+const createProviderModel = (
+  config: ProviderConfig | undefined,
+  options: {
+    provider?: string;
+    model?: string;
+    record?: string;
+    replay?: string;
+  }
+): LanguageModelV2 => {
+  if (options.record && options.replay) {
+    throw new Error("--record and --replay cannot be combined");
+  }
+  if (options.replay) {
+    if (!existsSync(options.replay)) {
+      throw new Error(`Cassette not found: ${options.replay}`);
     }
-    seen.add(value);
-    return true;
+    console.log(
+      chalk.dim(`\tReplaying model responses from: ${options.replay}`)
+    );
+    return replayCassette(options.replay);
+  }
+
+  const providerConfig = resolveProviderConfig(config, options);
+  console.log(
+    chalk.dim(
+      `\tModel provider: ${providerConfig.type}${providerConfig.model ? ` (${providerConfig.model})` : ""}`
+    )
+  );
+
+  if (providerConfig.type === "bedrock" && !hasAwsCredentials()) {
+    console.warn(
+      chalk.yellow("⚠️  AWS credentials not found in environment variables")
+    );
+    console.warn(
+      chalk.yellow(
+        "   Please set AWS_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY"
+      )
+    );
+    console.warn(chalk.yellow("   Or configure AWS CLI with: aws configure"));
+  }
+
+  const model = createModel(providerConfig);
+  if (options.record) {
+    console.log(chalk.dim(`\tRecording model calls to: ${options.record}`));
+    return recordCassette(model, options.record);
+  }
+  return model;
+};
+
+/**
+ * Creates the further models of self-consistency sampling from
+ * `sampling.providers`. They are recorded to and replayed from the same
+ * cassette as the main model.
+ */
+const createSamplingModels = (
+  config: Config,
+  options: { record?: string; replay?: string }
+): LanguageModelV2[] =>
+  (config.sampling?.providers ?? []).map((providerConfig) => {
+    const model = createModel(resolveProviderConfig(providerConfig));
+    console.log(chalk.dim(`\tSampling model: ${getModelId(model)}`));
+    if (options.replay) {
+      return replayCassette(options.replay, model);
+    }
+    return options.record ? recordCassette(model, options.record) : model;
   });
-}
 
-const determineFileType = async (
-  fileMapper: PathMapper,
-  file: { path: string; pwd: string }
-): Promise<string | undefined> => {
-  const absolutePath = resolveUnixPath(file.pwd, file.path);
-  try {
-    const mappedAbsolutePath = fileMapper.map(absolutePath);
-    const buffer = await readFile(mappedAbsolutePath);
-    const fileType = await fileTypeFromBuffer(buffer);
-    if (fileType) {
-      return fileType.ext;
+/**
+ * Parses the sampling options shared by analyze and eval, they take
+ * precedence over `sampling` of the configuration.
+ */
+const parseSamplingOptions = (options: {
+  samples?: string;
+  minConfidence?: string;
+}): { samples?: number; minConfidence?: number } => {
+  const sampling: { samples?: number; minConfidence?: number } = {};
+  if (options.samples !== undefined) {
+    sampling.samples = parseInt(options.samples, 10);
+    if (!Number.isInteger(sampling.samples) || sampling.samples < 1) {
+      throw new Error(`Invalid number of samples: ${options.samples}`);
+    }
+  }
+  if (options.minConfidence !== undefined) {
+    sampling.minConfidence = parseFloat(options.minConfidence);
+    if (!(sampling.minConfidence >= 0 && sampling.minConfidence <= 1)) {
+      throw new Error(
+        `Invalid minimum confidence: ${options.minConfidence}, expected a fraction between 0 and 1`
+      );
     }
-    const isBinary = await isBinaryFile(mappedAbsolutePath);
-    return isBinary ? "unknown" : undefined;
-  } catch (e) {
-    console.error(`⛔️ File does not exist: ${absolutePath}`);
-    return undefined;
   }
+  return sampling;
 };
 
-const program = new Command();
-
 program
   .name("repo-analyzer")
   .description("Analyze repository dependencies using AI")
@@ -59,6 +167,52 @@ program
   .option("-e, --entry <path>", "Entry point file (e.g., crontab)")
   .option("-c, --config <path>", "Configuration file path", "./config.json")
   .option("-o, --output <path>", "Output directory for reports", "./output")
+  .option(
+    "-r, --resume <state>",
+    "Resume an interrupted analysis from its checkpoint file"
+  )
+  .option(
+    "-p, --concurrency <number>",
+    "Number of files analyzed in parallel (overrides config.json)"
+  )
+  .option("--no-cache", "Always re-analyze files, ignoring cached results")
+  .option(
+    "--since <previous>",
+    "Only re-analyze files that changed since the run that wrote this state file"
+  )
+  .option(
+    "--provider <type>",
+    "Model provider: bedrock, openai-compatible or mock (overrides config.json)"
+  )
+  .option("--model <id>", "Model id (overrides config.json)")
+  .option(
+    "--record <cassette>",
+    "Record all model calls and responses to a cassette file"
+  )
+  .option(
+    "--replay <cassette>",
+    "Answer model calls from a recorded cassette, without network access"
+  )
+  .option(
+    "--engine <engine>",
+    "Analysis engine: static, llm or hybrid (overrides config.json)"
+  )
+  .option(
+    "--max-cost <usd>",
+    "Stop starting new files once the estimated model cost reaches this amount"
+  )
+  .option(
+    "--max-tokens <number>",
+    "Stop starting new files once this many tokens were used"
+  )
+  .option(
+    "--samples <number>",
+    "Analyze every file this many times and merge the answers (overrides config.json)"
+  )
+  .option(
+    "--min-confidence <fraction>",
+    "Leave out dependencies reported by fewer than this fraction of the samples (overrides config.json)"
+  )
   .action(async (options) => {
     try {
       console.log(chalk.bold.cyan("\n🚀 Repository Dependency Analyzer\n"));
@@ -78,150 +232,166 @@ program
         chalk.green(`✅ Configuration loaded from: ${options.config}`)
       );
 
-      // Check AWS credentials
-      if (
-        !process.env.AWS_REGION ||
-        !process.env.AWS_ACCESS_KEY_ID ||
-        !process.env.AWS_SECRET_ACCESS_KEY
-      ) {
-        console.warn(
-          chalk.yellow("⚠️  AWS credentials not found in environment variables")
-        );
-        console.warn(
-          chalk.yellow(
-            "   Please set AWS_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY"
-          )
-        );
-        console.warn(
-          chalk.yellow("   Or configure AWS CLI with: aws configure")
+      const engine: AnalysisEngine = options.engine ?? config.engine ?? "llm";
+      if (!ANALYSIS_ENGINES.includes(engine)) {
+        console.error(chalk.red(`Invalid engine: ${engine}`));
+        process.exit(1);
+      }
+      console.log(chalk.dim(`\tAnalysis engine: ${engine}`));
+      // The static engine never talks to a model.
+      const model =
+        engine === "static"
+          ? undefined
+          : createProviderModel(config.provider, options);
+      const sampling = parseSamplingOptions(options);
+      const samplingModels = model
+        ? createSamplingModels(config, options)
+        : [];
+
+      const budget: Budget = {};
+      if (options.maxCost !== undefined) {
+        budget.maxCost = parseFloat(options.maxCost);
+        if (!(budget.maxCost > 0)) {
+          console.error(chalk.red(`Invalid cost budget: ${options.maxCost}`));
+          process.exit(1);
+        }
+        // The samples of a file may be answered by any of the models.
+        const unpriced = (model ? [model, ...samplingModels] : []).find(
+          (m) => !resolvePrice(config.prices, getModelId(m))
         );
+        if (unpriced) {
+          console.error(
+            chalk.red(
+              `--max-cost needs a price for ${getModelId(unpriced)} in the "prices" of the configuration`
+            )
+          );
+          process.exit(1);
+        }
+      }
+      if (options.maxTokens !== undefined) {
+        budget.maxTokens = parseInt(options.maxTokens, 10);
+        if (!(budget.maxTokens > 0)) {
+          console.error(chalk.red(`Invalid token budget: ${options.maxTokens}`));
+          process.exit(1);
+        }
       }
 
-      const agent = new FileAnalysisAgent(config.pathMappings);
-
-      const entryPoints = options.entry
-        ? [
-            {
-              pwd: config.pwd,
-              path: options.entry as string,
-              args: [],
-            },
-          ]
-        : config.entryPoints!;
-
-      const processQueue: {
-        pwd: string;
-        path: string;
-        args: string[];
-        description?: string | undefined;
-        fileType?: string | undefined;
-      }[] = [...entryPoints];
-
-      const fileMapper = new PathMapper(config.pathMappings);
-
-      // TODO:
-      // - [x] Allow multiple entry points via config file
-      // - [ ] Write output to file
-      const MAX_ITERATIONS = 100;
-      let currentIteration = 0;
-      const output: FileAnalysisOutput = {
-        readFiles: [],
-        writeFiles: [],
-        errors: [],
-        executeFiles: [],
-      };
-
-      const fileDependencies: Map<string, FileDependency[]> = new Map<
-        string,
-        FileDependency[]
-      >();
-
-      const processedFiles: Set<string> = new Set<string>();
+      const outDir =
+        (options.outDir as string | undefined) ?? config.outDir ?? ".";
 
-      while (processQueue.length > 0 && currentIteration++ < MAX_ITERATIONS) {
-        console.info(
-          chalk.gray(
-            `> Processing ${currentIteration} / ${
-              currentIteration + processQueue.length - 1
-            }...`
+      let state: AnalysisState;
+      let statePath: string;
+      if (options.resume) {
+        if (!existsSync(options.resume)) {
+          console.error(chalk.red(`State file not found: ${options.resume}`));
+          process.exit(1);
+        }
+        statePath = options.resume as string;
+        state = await loadAnalysisState(statePath);
+        console.log(
+          chalk.green(
+            `✅ Resuming from ${statePath} at iteration ${state.currentIteration} with ${state.processQueue.length} queued files`
           )
         );
-        const nextFile = processQueue.splice(0, 1)[0];
-        const absolutePath = resolveUnixPath(nextFile.pwd, nextFile.path);
-
-        // Skip files that have already been processed.
-        if (processedFiles.has(absolutePath)) {
-          continue;
-        }
+      } else {
+        const entryPoints = options.entry
+          ? [
+              {
+                pwd: config.pwd,
+                path: options.entry as string,
+                args: [],
+              },
+            ]
+          : config.entryPoints!;
+        const env = await loadEnvironment(
+          config,
+          new PathMapper(config.pathMappings)
+        );
+        statePath = getStateFilePath(outDir);
+        state = createAnalysisState(applyEnvironment(entryPoints, env));
+      }
+      console.log(chalk.dim(`\tCheckpoint file: ${statePath}`));
 
-        processedFiles.add(absolutePath);
+      const concurrency = options.concurrency
+        ? parseInt(options.concurrency, 10)
+        : config.concurrency ?? 1;
+      if (!Number.isInteger(concurrency) || concurrency < 1) {
+        console.error(chalk.red(`Invalid concurrency: ${concurrency}`));
+        process.exit(1);
+      }
 
-        // Filter binary files and skip their analysis.
-        const isBinaryFile = !!nextFile.fileType;
-        if (isBinaryFile) {
-          const mappedAbsolutePath = fileMapper.map(absolutePath);
-          console.log(
-            `📀 Skipping binary file ${mappedAbsolutePath} with type ${nextFile.fileType}`
+      let previous: AnalysisState | undefined;
+      if (options.since) {
+        if (!existsSync(options.since)) {
+          console.error(
+            chalk.red(`Previous state file not found: ${options.since}`)
           );
-          continue;
+          process.exit(1);
         }
+        previous = await loadAnalysisState(options.since);
+        console.log(
+          chalk.green(
+            `✅ Comparing against previous run with ${previous.processedFiles.size} files: ${options.since}`
+          )
+        );
+      }
 
-        const analysisResult = await agent.analyzeFile({
-          pwd: nextFile.pwd,
-          filePath: nextFile.path,
-          fileType: nextFile.fileType ?? undefined,
-          cliArgs: nextFile.args,
-        });
-
-        const dependencies: FileDependency[] = [];
-        if (analysisResult) {
-          output.readFiles.push(...analysisResult.readFiles);
-          output.writeFiles.push(...analysisResult.writeFiles);
-          const executablesWithType = await Promise.all(
-            analysisResult.executeFiles.map(async (file) => {
-              const fileType = await determineFileType(fileMapper, file);
-              return { ...file, fileType };
-            })
-          );
-          output.executeFiles.push(...executablesWithType);
-          output.errors.push(...analysisResult.errors);
-          processQueue.push(...executablesWithType);
-
-          dependencies.push(
-            ...analysisResult.readFiles.map((f) => ({
-              path: f.path,
-              action: "read" as const,
-            }))
-          );
-          dependencies.push(
-            ...analysisResult.writeFiles.map((f) => ({
-              path: f.path,
-              action: "write" as const,
-            }))
-          );
-          dependencies.push(
-            ...executablesWithType.map((f) => ({
-              path: f.path,
-              fileType: f.fileType,
-              action: "execute" as const,
-            }))
-          );
-        }
+      const analysisService = new DependencyAnalysisService(config, model, {
+        // Cached results would skip the model calls of a cassette.
+        useCache:
+          options.cache !== false && !options.record && !options.replay,
+        engine,
+        responseDir: path.resolve(outDir, FAILED_RESPONSES_DIR),
+        ...sampling,
+        samplingModels,
+      });
+      await analysisService.analyze(state, {
+        statePath,
+        concurrency,
+        previous,
+        budget,
+      });
 
-        fileDependencies.set(absolutePath, dependencies);
+      const usage = analysisService.getUsage();
+      if (usage.steps > 0) {
+        console.log(
+          `${chalk.gray("\n💰 Model usage:")} ${formatUsage(usage)}`
+        );
+      }
+      const unprocessed = isOverBudget(usage, budget)
+        ? analysisService.getUnprocessed(state)
+        : [];
+      if (unprocessed.length > 0) {
+        console.log(
+          chalk.yellow(
+            `⚠️  Budget exhausted, ${unprocessed.length} queued files were left unprocessed. Continue with --resume ${statePath}`
+          )
+        );
+        unprocessed.forEach((f) => console.log(chalk.dim(`\t${f}`)));
       }
 
-      output.readFiles = uniqueBy(output.readFiles, "path");
-      output.writeFiles = uniqueBy(output.writeFiles, "path");
-      output.executeFiles = uniqueBy(output.executeFiles, "path");
+      if (previous) {
+        const summary = analysisService.summarizeChanges(state, previous);
+        console.log(chalk.bold.cyan("\n📊 Changes since previous run:"));
+        console.log(`${chalk.gray("⏭️  Unchanged:")} ${summary.reused.length}`);
+        for (const [label, files] of [
+          ["✏️  Changed:", summary.changed],
+          ["➕ Added:", summary.added],
+          ["➖ Removed:", summary.removed],
+        ] as const) {
+          console.log(`${chalk.gray(label)} ${files.length}`);
+          files.forEach((f) => console.log(chalk.dim(`\t${f}`)));
+        }
+      }
+      const { output, fileDependencies } =
+        analysisService.collectResults(state);
 
-      const outDir =
-        (options.outDir as string | undefined) ?? config.outDir ?? ".";
       const content = await writeOutputFile({
         outDir,
         analysisResult: output,
         dependencies: fileDependencies,
-        entryPoints: entryPoints.map((e) => e.path),
+        entryPoints: state.entryPoints.map((e) => e.path),
+        unprocessed,
       });
 
       console.log(chalk.green("\n✅ Analysis complete!"));
@@ -261,6 +431,10 @@ program
     "Include error files (only applies to markdown input)",
     false
   )
+  .option(
+    "--min-confidence <fraction>",
+    "Exclude files reported by fewer than this fraction of the samples (only applies to markdown input)"
+  )
   .action(async (options) => {
     try {
       console.log(chalk.bold.cyan("\n📁 Repository File Copy Tool\n"));
@@ -292,6 +466,7 @@ program
         includeExecutables: options.exec !== false,
         includeBinaries: options.binary !== false,
         excludeErrors: !options.includeErrors,
+        ...parseSamplingOptions({ minConfidence: options.minConfidence }),
       };
 
       // Create copy service and execute
@@ -330,28 +505,40 @@ program
   .option("-o, --output <path>", "Output directory for reports", "./output")
   .option("--dry-run", "Preview what would be scanned without writing output", false)
   .option("-v, --verbose", "Show detailed output", false)
+  .option("-c, --config <path>", "Configuration file with the model provider")
+  .option(
+    "--provider <type>",
+    "Model provider: bedrock, openai-compatible or mock (overrides config.json)"
+  )
+  .option("--model <id>", "Model id (overrides config.json)")
+  .option(
+    "--record <cassette>",
+    "Record all model calls and responses to a cassette file"
+  )
+  .option(
+    "--replay <cassette>",
+    "Answer model calls from a recorded cassette, without network access"
+  )
   .action(async (options) => {
     try {
       console.log(chalk.bold.cyan("\n🔍 Repository Credentials Scanner\n"));
 
-      // Check AWS credentials
-      if (
-        !process.env.AWS_REGION ||
-        !process.env.AWS_ACCESS_KEY_ID ||
-        !process.env.AWS_SECRET_ACCESS_KEY
-      ) {
-        console.warn(
-          chalk.yellow("⚠️  AWS credentials not found in environment variables")
-        );
-        console.warn(
-          chalk.yellow(
-            "   Please set AWS_REGION, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY"
-          )
-        );
-        console.warn(
-          chalk.yellow("   Or configure AWS CLI with: aws configure")
+      let providerConfig: ProviderConfig | undefined;
+      let prices: Config["prices"];
+      if (options.config) {
+        if (!existsSync(options.config)) {
+          console.error(
+            chalk.red(`Configuration file not found: ${options.config}`)
+          );
+          process.exit(1);
+        }
+        const config: Config = JSON.parse(
+          await readFile(options.config, "utf-8")
         );
+        providerConfig = config.provider;
+        prices = config.prices;
       }
+      const model = createProviderModel(providerConfig, options);
 
       // Check if input path exists
       if (!existsSync(options.input)) {
@@ -360,7 +547,10 @@ program
       }
 
       // Create scan service and execute
-      const scanService = new CredentialsScanService();
+      const scanService = new CredentialsScanService(
+        model,
+        resolvePrice(prices, getModelId(model))
+      );
       const result = await scanService.scanPath(options.input, {
         dryRun: options.dryRun,
         verbose: options.verbose,
@@ -394,6 +584,298 @@ program
     }
   });
 
+program
+  .command("eval")
+  .description(
+    "Measure the precision and recall of the analysis against fixtures with known dependencies"
+  )
+  .option("-c, --config <path>", "Configuration file path", "./config.json")
+  .option(
+    "-f, --fixtures <path>",
+    "Fixture file with the expected dependencies",
+    "./example/fixtures.json"
+  )
+  .option("-o, --output <path>", "Output directory for reports", "./output")
+  .option(
+    "--baseline <results>",
+    "Results of an earlier evaluation to compare against"
+  )
+  .option(
+    "--provider <type>",
+    "Model provider: bedrock, openai-compatible or mock (overrides config.json)"
+  )
+  .option("--model <id>", "Model id (overrides config.json)")
+  .option(
+    "--engine <engine>",
+    "Analysis engine: static, llm or hybrid (overrides config.json)"
+  )
+  .option(
+    "--record <cassette>",
+    "Record all model calls and responses to a cassette file"
+  )
+  .option(
+    "--replay <cassette>",
+    "Answer model calls from a recorded cassette, without network access"
+  )
+  .option(
+    "--samples <number>",
+    "Analyze every file this many times and merge the answers (overrides config.json)"
+  )
+  .option(
+    "--min-confidence <fraction>",
+    "Leave out dependencies reported by fewer than this fraction of the samples (overrides config.json)"
+  )
+  .action(async (options) => {
+    try {
+      console.log(chalk.bold.cyan("\n🎯 Repository Analyzer Evaluation\n"));
+
+      for (const file of [options.config, options.fixtures, options.baseline]) {
+        if (file && !existsSync(file)) {
+          console.error(chalk.red(`File not found: ${file}`));
+          process.exit(1);
+        }
+      }
+      const config: Config = JSON.parse(
+        await readFile(options.config, "utf-8")
+      );
+      const fixtures: EvalFixtureSet = JSON.parse(
+        await readFile(options.fixtures, "utf-8")
+      );
+      const baseline: EvaluationResult | undefined = options.baseline
+        ? JSON.parse(await readFile(options.baseline, "utf-8"))
+        : undefined;
+
+      const engine: AnalysisEngine = options.engine ?? config.engine ?? "llm";
+      if (!ANALYSIS_ENGINES.includes(engine)) {
+        console.error(chalk.red(`Invalid engine: ${engine}`));
+        process.exit(1);
+      }
+      console.log(chalk.dim(`\tAnalysis engine: ${engine}`));
+      const model =
+        engine === "static"
+          ? undefined
+          : createProviderModel(config.provider, options);
+      const samplingModels = model
+        ? createSamplingModels(config, options)
+        : [];
+
+      const evaluationService = new EvaluationService(config, model, {
+        engine,
+        responseDir: path.resolve(options.output, FAILED_RESPONSES_DIR),
+        ...parseSamplingOptions(options),
+        samplingModels,
+      });
+      const env = await loadEnvironment(
+        config,
+        new PathMapper(config.pathMappings)
+      );
+      const result = await evaluationService.evaluate(fixtures, env);
+
+      const report = await writeEvaluationReport(
+        result,
+        options.output,
+        baseline
+      );
+      const { total } = result.summary;
+      console.log(
+        chalk.green(
+          `\n✅ Precision ${(total.precision * 100).toFixed(1)}%, recall ${(total.recall * 100).toFixed(1)}% over ${result.files.length} fixtures`
+        )
+      );
+      console.log(chalk.blue(`📄 Results written to: ${report.jsonPath}`));
+      console.log("");
+      console.log(chalk.blue(report.content));
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("import-units")
+  .description(
+    "Add systemd .service and .timer units as entry points to the configuration"
+  )
+  .argument("<units...>", "Production paths of the unit files")
+  .option("-c, --config <path>", "Configuration file path", "./config.json")
+  .option("--dry-run", "Preview the entry points without writing them", false)
+  .action(async (units: string[], options) => {
+    try {
+      console.log(chalk.bold.cyan("\n⚙️  systemd Unit Importer\n"));
+
+      if (!existsSync(options.config)) {
+        console.error(
+          chalk.red(`Configuration file not found: ${options.config}`)
+        );
+        process.exit(1);
+      }
+
+      const config: Config = JSON.parse(
+        await readFile(options.config, "utf-8")
+      );
+
+      const invalid = units.filter((unit) => !isSystemdUnitPath(unit));
+      if (invalid.length > 0) {
+        console.error(
+          chalk.red(`Not a .service or .timer unit: ${invalid.join(", ")}`)
+        );
+        process.exit(1);
+      }
+
+      const imported = await importSystemdUnits(
+        units,
+        new PathMapper(config.pathMappings)
+      );
+      const { entryPoints, added } = mergeEntryPoints(
+        config.entryPoints ?? [],
+        imported
+      );
+
+      added.forEach((entry) => console.log(chalk.green(`➕ ${entry.path}`)));
+      console.log(
+        chalk.blue(`\n📋 ${added.length} of ${imported.length} units added`)
+      );
+
+      if (!options.dryRun) {
+        await writeFile(
+          options.config,
+          JSON.stringify({ ...config, entryPoints }, null, 2) + "\n"
+        );
+        console.log(chalk.green(`✅ Configuration written to: ${options.config}`));
+      }
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command("discover")
+  .description(
+    "Discover entry point candidates in the local roots of the path mappings"
+  )
+  .option("-c, --config <path>", "Configuration file path", "./config.json")
+  .option("-w, --write <path>", "Write a draft configuration to this file")
+  .option("-m, --merge", "Merge the candidates into the configuration file", false)
+  .option(
+    "--include-referenced",
+    "Also propose scripts that other scripts already call",
+    false
+  )
+  .option("-v, --verbose", "Show detailed output", false)
+  .action(async (options) => {
+    try {
+      console.log(chalk.bold.cyan("\n🧭 Entry Point Discovery\n"));
+
+      if (!existsSync(options.config)) {
+        console.error(
+          chalk.red(`Configuration file not found: ${options.config}`)
+        );
+        process.exit(1);
+      }
+
+      const config: Config = JSON.parse(
+        await readFile(options.config, "utf-8")
+      );
+      console.log(
+        chalk.green(`✅ Configuration loaded from: ${options.config}`)
+      );
+
+      const discoveryService = new EntryPointDiscoveryService(config);
+      const { candidates, stats } = await discoveryService.discover({
+        includeReferenced: options.includeReferenced,
+        verbose: options.verbose,
+      });
+
+      console.log(chalk.bold.cyan("\n📋 Entry point candidates:"));
+      for (const candidate of candidates) {
+        console.log(
+          `${chalk.gray(`[${candidate.reason}]`)} ${candidate.entryPoint.path}`
+        );
+      }
+      console.log(
+        chalk.blue(
+          `\n📈 ${candidates.length} candidates in ${stats.filesScanned} files, ${stats.referencedSkipped} referenced scripts skipped\n`
+        )
+      );
+
+      const discovered = candidates.map((c) => c.entryPoint);
+      if (options.write) {
+        const draft: Config = {
+          ...config,
+          entryPoints: discovered,
+        };
+        await writeFile(options.write, JSON.stringify(draft, null, 2) + "\n");
+        console.log(chalk.green(`✅ Draft configuration written to: ${options.write}`));
+      }
+      if (options.merge) {
+        const { entryPoints, added } = mergeEntryPoints(
+          config.entryPoints ?? [],
+          discovered
+        );
+        await writeFile(
+          options.config,
+          JSON.stringify({ ...config, entryPoints }, null, 2) + "\n"
+        );
+        console.log(
+          chalk.green(
+            `✅ ${added.length} entry points merged into: ${options.config}`
+          )
+        );
+      }
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+const loadCacheDir = async (configPath: string): Promise<string | undefined> => {
+  if (!existsSync(configPath)) {
+    return undefined;
+  }
+  const config: Config = JSON.parse(await readFile(configPath, "utf-8"));
+  return config.cacheDir;
+};
+
+const cacheCommand = program
+  .command("cache")
+  .description("Manage the on-disk cache of per-file analysis results");
+
+cacheCommand
+  .command("clear")
+  .description("Remove all cached analysis results")
+  .option("-c, --config <path>", "Configuration file path", "./config.json")
+  .action(async (options) => {
+    try {
+      const cache = new AnalysisCache(await loadCacheDir(options.config));
+      const removed = await cache.clear();
+      console.log(chalk.green(`✅ Removed ${removed} cached analysis results`));
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
+cacheCommand
+  .command("stats")
+  .description("Show the number and size of cached analysis results")
+  .option("-c, --config <path>", "Configuration file path", "./config.json")
+  .action(async (options) => {
+    try {
+      const cacheDir = (await loadCacheDir(options.config)) ?? DEFAULT_CACHE_DIR;
+      const stats = await new AnalysisCache(cacheDir).stats();
+      console.log(chalk.bold.cyan("\n📊 Cache Summary:"));
+      console.log(`${chalk.gray("Directory:")} ${cacheDir}`);
+      console.log(`${chalk.gray("Entries:")} ${stats.entries}`);
+      console.log(
+        `${chalk.gray("Size:")} ${(stats.bytes / 1024).toFixed(1)} KiB\n`
+      );
+    } catch (error) {
+      console.error(chalk.red("\n❌ Error:"), error);
+      process.exit(1);
+    }
+  });
+
 // Parse command line arguments
 program.parse(process.argv);
 
@@ -197,4 +197,28 @@ describe("PathMapper with Unix-style normalization", () => {
       );
     });
   });
-});
\ No newline at end of file
+});
+
+describe("PathMapper.unmap", () => {
+  const mapper = new PathMapper([
+    { from: "/root", to: "." },
+    { from: "/var/data", to: "./example/data" },
+  ]);
+
+  test("maps local paths back to production paths", () => {
+    expect(mapper.unmap("./example/scripts/process.sh")).toBe(
+      "/root/example/scripts/process.sh"
+    );
+    expect(mapper.unmap(".")).toBe("/root");
+  });
+
+  test("prefers the most specific mapping", () => {
+    expect(mapper.unmap("./example/data/input.txt")).toBe(
+      "/var/data/input.txt"
+    );
+  });
+
+  test("returns undefined for unmapped paths", () => {
+    expect(mapper.unmap("/definitely/not/mapped")).toBeUndefined();
+  });
+});
@@ -74,4 +74,35 @@ export class PathMapper {
     // No mapping found - return the original input path
     return inputPath;
   }
+
+  /**
+   * Maps a local filesystem path back to its production path. When several
+   * mappings contain the path, the most specific local root wins.
+   * @returns The Unix-style production path, or undefined if no mapping matches
+   */
+  unmap(localPath: string): string | undefined {
+    const resolvedPath = path.resolve(localPath);
+    let bestMatch: { from: string; root: string } | undefined;
+
+    for (const mapping of this.mappings) {
+      const root = path.resolve(mapping.to);
+      const isInside =
+        resolvedPath === root || resolvedPath.startsWith(root + path.sep);
+      if (isInside && (!bestMatch || root.length > bestMatch.root.length)) {
+        bestMatch = { from: mapping.from, root };
+      }
+    }
+
+    if (!bestMatch) {
+      return undefined;
+    }
+
+    const relativePart = resolvedPath
+      .slice(bestMatch.root.length)
+      .split(path.sep)
+      .join("/");
+    return path.posix
+      .join(bestMatch.from, relativePart || "/")
+      .replace(/(.)\/$/, "$1");
+  }
 }
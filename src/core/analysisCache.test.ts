@@ -0,0 +1,58 @@
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { AnalysisCache, AnalysisCacheKey } from "./analysisCache";
+
+describe("AnalysisCache", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "cache-"));
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const key: AnalysisCacheKey = {
+    contentHash: "abc",
+    pwd: "/app",
+    cliArgs: ["--fast"],
+    modelId: "mock:test",
+    promptVersion: "1",
+    env: { HOME: "/home/app" },
+  };
+
+  test("returns stored results for equal keys only", async () => {
+    const cache = new AnalysisCache<string>(path.join(dir, "lookup"));
+    expect(await cache.get(key)).toBeUndefined();
+
+    await cache.set(key, "/app/run.sh", "result");
+
+    expect(await cache.get({ ...key })).toBe("result");
+    for (const changed of [
+      { modelId: "mock:other" },
+      { promptVersion: "2" },
+      { env: { HOME: "/root" } },
+      { cliArgs: [] },
+      { contentHash: "def" },
+    ]) {
+      expect(await cache.get({ ...key, ...changed })).toBeUndefined();
+    }
+  });
+
+  test("clears only its own entries", async () => {
+    const cacheDir = path.join(dir, "shared");
+    const cache = new AnalysisCache<string>(cacheDir);
+    await cache.set(key, "/app/run.sh", "first");
+    await cache.set({ ...key, pwd: "/" }, "/app/run.sh", "second");
+    mkdirSync(path.join(cacheDir, "reports"));
+    writeFileSync(path.join(cacheDir, "reports", "analysis.md"), "# Report");
+    writeFileSync(path.join(cacheDir, "config.json"), "{}");
+
+    expect((await cache.stats()).entries).toBe(2);
+    expect(await cache.clear()).toBe(2);
+
+    expect(await cache.stats()).toEqual({ entries: 0, bytes: 0 });
+    expect(await cache.get(key)).toBeUndefined();
+    expect(existsSync(path.join(cacheDir, "reports", "analysis.md"))).toBe(
+      true
+    );
+    expect(existsSync(path.join(cacheDir, "config.json"))).toBe(true);
+    const shard = AnalysisCache.createKey(key).slice(0, 2);
+    expect(existsSync(path.join(cacheDir, shard))).toBe(false);
+  });
+});
@@ -0,0 +1,161 @@
+import { createHash } from "crypto";
+import {
+  readFile,
+  writeFile,
+  readdir,
+  rm,
+  rmdir,
+  mkdir,
+  stat,
+} from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import { ChunkingConfig } from "./types";
+
+export const DEFAULT_CACHE_DIR = ".analyzer-cache";
+
+const SHARD_PATTERN = /^[0-9a-f]{2}$/;
+const ENTRY_PATTERN = /^[0-9a-f]{64}\.json$/;
+
+export interface AnalysisCacheKey {
+  /** Hash of the mapped file content. */
+  contentHash: string;
+  pwd: string;
+  cliArgs: string[];
+  modelId: string;
+  promptVersion: string;
+  /** Environment the file is started with. */
+  env?: Record<string, string> | undefined;
+  /** Hash of the static candidates the prompt includes, if any. */
+  hintsHash?: string | undefined;
+  /** Thresholds the file was split with, if it was analyzed in chunks. */
+  chunking?: Required<ChunkingConfig> | undefined;
+  /** Sampling temperature, if not 0. */
+  temperature?: number | undefined;
+  /** Index of the self-consistency sample, if the file is sampled. */
+  sample?: number | undefined;
+  /** Hash of the prompt extensions that apply to the file, if any. */
+  extensionsHash?: string | undefined;
+}
+
+export interface AnalysisCacheStats {
+  entries: number;
+  bytes: number;
+}
+
+type CacheEntry<T> = {
+  createdAt: string;
+  filePath: string;
+  key: AnalysisCacheKey;
+  value: T;
+};
+
+export function hashContent(content: string | Buffer): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Content-addressed on-disk cache for per-file analysis results. Entries are
+ * stored as `<cacheDir>/<first two hash chars>/<hash>.json`.
+ */
+export class AnalysisCache<T> {
+  constructor(private cacheDir: string = DEFAULT_CACHE_DIR) {}
+
+  static createKey(key: AnalysisCacheKey): string {
+    return hashContent(
+      JSON.stringify([
+        key.contentHash,
+        key.pwd,
+        key.cliArgs,
+        key.modelId,
+        key.promptVersion,
+        key.env ?? null,
+        key.hintsHash ?? null,
+        key.chunking ?? null,
+        // Appended only when set, so keys of runs without them stay valid.
+        ...(key.temperature !== undefined || key.sample !== undefined
+          ? [key.temperature ?? null, key.sample ?? null]
+          : []),
+        ...(key.extensionsHash !== undefined ? [key.extensionsHash] : []),
+      ])
+    );
+  }
+
+  private entryPath(hash: string): string {
+    return path.join(this.cacheDir, hash.slice(0, 2), `${hash}.json`);
+  }
+
+  async get(key: AnalysisCacheKey): Promise<T | undefined> {
+    const entryPath = this.entryPath(AnalysisCache.createKey(key));
+    try {
+      const entry: CacheEntry<T> = JSON.parse(
+        await readFile(entryPath, "utf-8")
+      );
+      return entry.value;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: AnalysisCacheKey, filePath: string, value: T): Promise<void> {
+    const entryPath = this.entryPath(AnalysisCache.createKey(key));
+    const entry: CacheEntry<T> = {
+      createdAt: new Date().toISOString(),
+      filePath,
+      key,
+      value,
+    };
+    await mkdir(path.dirname(entryPath), { recursive: true });
+    await writeFile(entryPath, JSON.stringify(entry, null, 2));
+  }
+
+  /**
+   * Paths of all cache entries. Only files named like an entry inside a shard
+   * directory count, anything else in the cache directory is left alone.
+   */
+  private async listEntries(): Promise<string[]> {
+    if (!existsSync(this.cacheDir)) {
+      return [];
+    }
+
+    const entries: string[] = [];
+    for (const shard of await readdir(this.cacheDir, {
+      withFileTypes: true,
+    })) {
+      if (!shard.isDirectory() || !SHARD_PATTERN.test(shard.name)) continue;
+      const shardPath = path.join(this.cacheDir, shard.name);
+      for (const file of await readdir(shardPath)) {
+        if (ENTRY_PATTERN.test(file) && file.startsWith(shard.name)) {
+          entries.push(path.join(shardPath, file));
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Removes all cache entries and the shard directories they leave empty,
+   * and returns how many entries were deleted.
+   */
+  async clear(): Promise<number> {
+    const entries = await this.listEntries();
+    for (const entry of entries) {
+      await rm(entry, { force: true });
+    }
+    for (const shard of new Set(entries.map((entry) => path.dirname(entry)))) {
+      if ((await readdir(shard)).length === 0) {
+        await rmdir(shard);
+      }
+    }
+    return entries.length;
+  }
+
+  async stats(): Promise<AnalysisCacheStats> {
+    const result: AnalysisCacheStats = { entries: 0, bytes: 0 };
+    for (const entry of await this.listEntries()) {
+      result.entries++;
+      result.bytes += (await stat(entry)).size;
+    }
+    return result;
+  }
+}
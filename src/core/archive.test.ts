@@ -0,0 +1,129 @@
+import { deflateRawSync, gzipSync } from "zlib";
+import {
+  MAX_ARCHIVE_DEPTH,
+  MAX_EXTRACTED_BYTES,
+  readArchive,
+  readLocalFile,
+  splitArchivePath,
+} from "./archive";
+
+/** A zip archive made on Unix with one deflated member per file. */
+function createZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, content] of Object.entries(files)) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    locals.push(local, nameBuffer, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt8(3, 5);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE((0o100755 << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, nameBuffer);
+    offset += 30 + nameBuffer.length + data.length;
+  }
+  const centralDirectory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDirectory, end]);
+}
+
+function createTar(files: Record<string, string>): Buffer {
+  const blocks: Buffer[] = [];
+  for (const [name, content] of Object.entries(files)) {
+    const header = Buffer.alloc(512);
+    header.write(name, 0);
+    header.write("0000644\0", 100);
+    header.write(`${content.length.toString(8).padStart(11, "0")}\0`, 124);
+    header.write("0", 156);
+    header.write("ustar\0", 257);
+    const data = Buffer.alloc(Math.ceil(content.length / 512) * 512);
+    data.write(content);
+    blocks.push(header, data);
+  }
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+describe("archives", () => {
+  test("lists and extracts zip members", () => {
+    const zip = createZip({
+      "bin/run.sh": "#!/bin/sh\necho hi\n",
+      "a.txt": "a",
+    });
+
+    const archive = readArchive(zip);
+
+    expect(archive.entries).toEqual([
+      { name: "bin/run.sh", size: 18, mode: 0o755 },
+      { name: "a.txt", size: 1, mode: 0o755 },
+    ]);
+    expect(archive.extract("bin/run.sh").toString()).toBe(
+      "#!/bin/sh\necho hi\n"
+    );
+  });
+
+  test("reads gzip compressed tar archives", () => {
+    const tarGz = gzipSync(
+      createTar({ "./jobs/load.sql": "COPY t FROM 'x';" })
+    );
+
+    const archive = readArchive(tarGz);
+
+    expect(archive.entries).toEqual([
+      { name: "jobs/load.sql", size: 16, mode: 0o644 },
+    ]);
+    expect(archive.extract("jobs/load.sql").toString()).toBe(
+      "COPY t FROM 'x';"
+    );
+  });
+
+  test("stops extracting at the declared size and the extraction limit", () => {
+    const zip = createZip({ "bomb.txt": "a".repeat(10000) });
+    const central = zip.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02]));
+    zip.writeUInt32LE(100, central + 24);
+
+    expect(() => readArchive(zip).extract("bomb.txt")).toThrow(
+      "Invalid zip archive: bomb.txt is larger than its declared size of 100 bytes"
+    );
+
+    zip.writeUInt32LE(MAX_EXTRACTED_BYTES + 1, central + 24);
+    expect(() => readArchive(zip).extract("bomb.txt")).toThrow(
+      `bomb.txt is larger than the extraction limit of ${MAX_EXTRACTED_BYTES} bytes`
+    );
+
+    const gzip = gzipSync(Buffer.alloc(MAX_EXTRACTED_BYTES + 1));
+    expect(() => readArchive(gzip)).toThrow("extraction limit");
+  });
+
+  test("opens archives nested only up to the maximum depth", async () => {
+    const memberPath = `/opt/a.zip${"!/b.zip".repeat(MAX_ARCHIVE_DEPTH)}!/run.sh`;
+
+    await expect(readLocalFile(memberPath)).rejects.toThrow(
+      `nested more than ${MAX_ARCHIVE_DEPTH} archives deep`
+    );
+  });
+
+  test("splits nested member paths", () => {
+    expect(splitArchivePath("/opt/dist.tar.gz!/lib/app.jar!/run.sh")).toEqual({
+      archivePath: "/opt/dist.tar.gz",
+      members: ["lib/app.jar", "run.sh"],
+    });
+    expect(splitArchivePath("/opt/run.sh")).toBeUndefined();
+  });
+});
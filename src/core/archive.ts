@@ -0,0 +1,320 @@
+import { readFile } from "fs/promises";
+import { gunzipSync, inflateRawSync } from "zlib";
+
+/**
+ * Separates an archive from the path of one of its members, e.g.
+ * `/opt/app/tools.zip!/bin/run.sh`. Members of nested archives repeat it:
+ * `/opt/app/dist.tar.gz!/lib/app.jar!/run.sh`.
+ */
+export const ARCHIVE_SEPARATOR = "!/";
+
+/**
+ * Members and gzip streams are extracted up to this size, so a small archive
+ * cannot expand into gigabytes in memory.
+ */
+export const MAX_EXTRACTED_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Member paths lead through at most this many archives, like
+ * `dist.tar.gz!/app.jar!/tools.zip!/run.sh`. Archives nested deeper are listed
+ * as members without being opened.
+ */
+export const MAX_ARCHIVE_DEPTH = 3;
+
+/** Types of `determineFileType` whose members can be listed. */
+const ARCHIVE_FILE_TYPES = ["zip", "jar", "tar", "gz"];
+
+export interface ArchiveEntry {
+  /** Path inside the archive, without a leading slash. */
+  name: string;
+  size: number;
+  /** Unix permission bits, if the archive stores them. */
+  mode?: number;
+}
+
+/** A file inside an analyzed archive. */
+export interface ArchiveMember {
+  /** Virtual path of the member, e.g. `/opt/app/tools.zip!/run.sh`. */
+  path: string;
+  size: number;
+  /** Type of binary members, e.g. `elf` or `zip`. */
+  fileType?: string | undefined;
+  /** Whether the member is analyzed, like a script or a nested archive. */
+  analyzed: boolean;
+}
+
+export function isArchiveFileType(fileType: string | undefined): boolean {
+  return !!fileType && ARCHIVE_FILE_TYPES.includes(fileType);
+}
+
+export function isArchiveMemberPath(filePath: string): boolean {
+  return filePath.includes(ARCHIVE_SEPARATOR);
+}
+
+export function toArchiveMemberPath(archivePath: string, name: string): string {
+  return `${archivePath}${ARCHIVE_SEPARATOR}${name}`;
+}
+
+/**
+ * Splits a member path into the outermost archive and the member names, from
+ * the outermost to the innermost archive.
+ * @returns Nothing for paths that are not inside an archive
+ */
+export function splitArchivePath(
+  filePath: string
+): { archivePath: string; members: string[] } | undefined {
+  const [archivePath, ...members] = filePath.split(ARCHIVE_SEPARATOR);
+  return members.length > 0 ? { archivePath, members } : undefined;
+}
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+interface ZipEntry extends ArchiveEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipEntries(buffer: Buffer): ZipEntry[] {
+  // The end record is followed by a comment of at most 64 KiB.
+  const searchStart = Math.max(0, buffer.length - 22 - 0xffff);
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= searchStart; offset--) {
+    if (buffer.readUInt32LE(offset) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("Invalid zip archive: no end of central directory");
+  }
+
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  if (offset === 0xffffffff) {
+    throw new Error("Zip64 archives are not supported");
+  }
+  const entries: ZipEntry[] = [];
+  for (let index = 0; index < count; index++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error("Invalid zip archive: corrupt central directory");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    // Archives made on Unix keep the permissions in the upper 16 bits.
+    const madeOnUnix = buffer.readUInt8(offset + 5) === 3;
+    const externalAttributes = buffer.readUInt32LE(offset + 38);
+    entries.push({
+      name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      size: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      ...(madeOnUnix ? { mode: (externalAttributes >>> 16) & 0o7777 } : {}),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Runs a decompression limited by `maxOutputLength` and reports an exceeded
+ * limit with the given message.
+ */
+function decompress(run: () => Buffer, limitError: string): Buffer {
+  try {
+    return run();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") {
+      throw new Error(limitError);
+    }
+    throw error;
+  }
+}
+
+function extractZipEntry(buffer: Buffer, entry: ZipEntry): Buffer {
+  if (entry.size > MAX_EXTRACTED_BYTES) {
+    throw new Error(
+      `${entry.name} is larger than the extraction limit of ${MAX_EXTRACTED_BYTES} bytes`
+    );
+  }
+  const offset = entry.localHeaderOffset;
+  if (buffer.readUInt32LE(offset) !== ZIP_LOCAL_HEADER) {
+    throw new Error(`Invalid zip archive: corrupt entry ${entry.name}`);
+  }
+  const dataStart =
+    offset +
+    30 +
+    buffer.readUInt16LE(offset + 26) +
+    buffer.readUInt16LE(offset + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+  if (entry.method === 0) {
+    return data;
+  }
+  if (entry.method === 8) {
+    // A forged declared size cannot make the entry inflate any further.
+    return decompress(
+      () => inflateRawSync(data, { maxOutputLength: Math.max(1, entry.size) }),
+      `Invalid zip archive: ${entry.name} is larger than its declared size of ${entry.size} bytes`
+    );
+  }
+  throw new Error(
+    `Unsupported compression method ${entry.method} of ${entry.name}`
+  );
+}
+
+interface TarEntry extends ArchiveEntry {
+  dataOffset: number;
+}
+
+const TAR_BLOCK = 512;
+
+function readTarString(buffer: Buffer, offset: number, length: number): string {
+  const field = buffer.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.toString("utf8", 0, end === -1 ? length : end);
+}
+
+function readTarEntries(buffer: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  // GNU long names and pax headers apply to the entry that follows them.
+  let nextName: string | undefined;
+  while (offset + TAR_BLOCK <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+    const size = parseInt(readTarString(header, 124, 12).trim() || "0", 8);
+    const type = String.fromCharCode(header[156] || 48);
+    const dataOffset = offset + TAR_BLOCK;
+    const data = buffer.subarray(dataOffset, dataOffset + size);
+    offset = dataOffset + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === "L") {
+      nextName = readTarString(data, 0, size);
+      continue;
+    }
+    if (type === "x") {
+      const pathRecord = data.toString("utf8").match(/^\d+ path=(.*)$/m);
+      nextName = pathRecord ? pathRecord[1] : nextName;
+      continue;
+    }
+    if (type === "g") {
+      continue;
+    }
+
+    const prefix =
+      header.toString("latin1", 257, 262) === "ustar"
+        ? readTarString(header, 345, 155)
+        : "";
+    const name =
+      nextName ?? (prefix ? `${prefix}/` : "") + readTarString(header, 0, 100);
+    nextName = undefined;
+    // Only regular files are members, links and directories are skipped.
+    if (type !== "0" && type !== "7") {
+      continue;
+    }
+    entries.push({
+      name: name.replace(/^\.?\//, ""),
+      size,
+      mode: parseInt(readTarString(header, 100, 8).trim() || "0", 8) & 0o7777,
+      dataOffset,
+    });
+  }
+  return entries;
+}
+
+type OpenedArchive =
+  | { format: "zip"; buffer: Buffer; entries: ZipEntry[] }
+  | { format: "tar"; buffer: Buffer; entries: TarEntry[] };
+
+/** Detects the format from the content, gzip compressed tar archives included. */
+function openArchive(buffer: Buffer): OpenedArchive {
+  if (buffer.length >= 4 && buffer.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+    return { format: "zip", buffer, entries: readZipEntries(buffer) };
+  }
+  const content =
+    buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b
+      ? decompress(
+          () => gunzipSync(buffer, { maxOutputLength: MAX_EXTRACTED_BYTES }),
+          `The gzip stream is larger than the extraction limit of ${MAX_EXTRACTED_BYTES} bytes`
+        )
+      : buffer;
+  if (content.toString("latin1", 257, 262) === "ustar") {
+    return { format: "tar", buffer: content, entries: readTarEntries(content) };
+  }
+  throw new Error("Not a zip, jar or tar archive");
+}
+
+/** The files of an archive and a way to extract them. */
+export interface Archive {
+  entries: ArchiveEntry[];
+  extract(name: string): Buffer;
+}
+
+/**
+ * Opens a zip, jar, tar or gzip compressed tar archive in memory. Directories
+ * and the `__MACOSX/` metadata of archives made on macOS are not listed.
+ */
+export function readArchive(buffer: Buffer): Archive {
+  const archive = openArchive(buffer);
+  const extract = (name: string): Buffer => {
+    if (archive.format === "zip") {
+      const entry = archive.entries.find((e) => e.name === name);
+      if (entry) {
+        return extractZipEntry(archive.buffer, entry);
+      }
+    } else {
+      const entry = archive.entries.find((e) => e.name === name);
+      if (entry) {
+        return archive.buffer.subarray(
+          entry.dataOffset,
+          entry.dataOffset + entry.size
+        );
+      }
+    }
+    throw new Error(`ENOENT: no member '${name}' in the archive`);
+  };
+
+  const entries = archive.entries
+    .filter(
+      (entry) =>
+        !entry.name.endsWith("/") && !entry.name.startsWith("__MACOSX/")
+    )
+    .map(({ name, size, mode }) => ({
+      name,
+      size,
+      ...(mode !== undefined ? { mode } : {}),
+    }));
+  return { entries, extract };
+}
+
+/**
+ * Reads a local file like `fs.readFile`. Paths with archive members, e.g.
+ * `./scripts/test.zip!/run.sh`, are extracted from their archive in memory.
+ */
+export async function readLocalFile(localPath: string): Promise<Buffer>;
+export async function readLocalFile(
+  localPath: string,
+  encoding: BufferEncoding
+): Promise<string>;
+export async function readLocalFile(
+  localPath: string,
+  encoding?: BufferEncoding
+): Promise<Buffer | string> {
+  const split = splitArchivePath(localPath);
+  if (split && split.members.length > MAX_ARCHIVE_DEPTH) {
+    throw new Error(
+      `${localPath} is nested more than ${MAX_ARCHIVE_DEPTH} archives deep`
+    );
+  }
+  let buffer = await readFile(split ? split.archivePath : localPath);
+  for (const member of split?.members ?? []) {
+    buffer = readArchive(buffer).extract(member);
+  }
+  return encoding ? buffer.toString(encoding) : buffer;
+}
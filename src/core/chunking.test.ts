@@ -0,0 +1,53 @@
+import { resolveChunking, splitIntoChunks } from "./chunking";
+
+describe("splitIntoChunks", () => {
+  const content = [
+    "use strict;",
+    'my $data_dir = "/var/data";',
+    "",
+    "sub load {",
+    '  open(my $fh, "<", "$data_dir/input.txt");',
+    "}",
+    "",
+    "sub save {",
+    '  open(my $fh, ">", "$data_dir/output.txt");',
+    "}",
+  ].join("\n");
+
+  test("keeps small files in one chunk", () => {
+    const chunks = splitIntoChunks(content, {
+      maxChars: 1000,
+      overlapLines: 2,
+    });
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0].text).toBe(content);
+  });
+
+  test("splits at sub boundaries and carries bindings", () => {
+    const chunks = splitIntoChunks(content, { maxChars: 80, overlapLines: 1 });
+
+    expect(chunks.map((c) => [c.contextLine, c.startLine, c.endLine])).toEqual([
+      [1, 1, 3],
+      [3, 4, 7],
+      [7, 8, 10],
+    ]);
+    expect(chunks[2].text.split("\n")[1]).toBe("sub save {");
+    expect(chunks[2].bindings).toEqual(['line 2: my $data_dir = "/var/data";']);
+  });
+});
+
+describe("resolveChunking", () => {
+  test("prefers the model entry over the default entry", () => {
+    const chunking = {
+      default: { maxChars: 1000 },
+      "mock:small": { overlapLines: 2 },
+    };
+
+    expect(resolveChunking(chunking, "mock:small")).toEqual({
+      maxChars: 1000,
+      overlapLines: 2,
+    });
+    expect(resolveChunking(chunking, "bedrock:large").overlapLines).toBe(10);
+  });
+});
@@ -0,0 +1,156 @@
+import { ChunkingConfig } from "./types";
+
+export const DEFAULT_CHUNKING: Required<ChunkingConfig> = {
+  maxChars: 40000,
+  overlapLines: 10,
+};
+
+export interface FileChunk {
+  /** First line of the chunk, 1-based. */
+  startLine: number;
+  /** Last line of the chunk, inclusive. */
+  endLine: number;
+  /** First line of the overlap repeated from the previous chunk. */
+  contextLine: number;
+  /** Content from `contextLine` to `endLine`. */
+  text: string;
+  /** Variable assignments before the chunk, as `line N: <statement>`. */
+  bindings: string[];
+}
+
+/** Lines that start a Perl sub, Python def/class or shell function. */
+const BOUNDARY =
+  /^\s*(?:sub\s+\w|(?:async\s+)?def\s+\w|class\s+\w|function\s+\w|[\w-]+\s*\(\)\s*\{?\s*$)/;
+
+/** Assignments of Perl, Python and shell variables, like `my $data_dir = ...`. */
+const ASSIGNMENT =
+  /^\s*(?:(?:my|our|local|export|readonly|declare)\s+)?([$@%]?[A-Za-z_][\w:]*)\s*=(?![=~])/;
+
+/** Most recent bindings passed to a chunk, older ones are dropped. */
+const MAX_BINDINGS = 100;
+
+/** Long lines are data rather than assignments worth carrying over. */
+const MAX_BINDING_LENGTH = 300;
+
+/**
+ * Picks the chunking thresholds of a model: the entry for its
+ * `provider:model` id, then the `default` entry, then the built-in defaults.
+ */
+export function resolveChunking(
+  chunking: Record<string, ChunkingConfig> | undefined,
+  modelId: string
+): Required<ChunkingConfig> {
+  return {
+    ...DEFAULT_CHUNKING,
+    ...chunking?.default,
+    ...chunking?.[modelId],
+  };
+}
+
+/** Splits the lines into ranges that each start at a sub/function boundary. */
+function splitAtBoundaries(lines: string[]): [number, number][] {
+  const segments: [number, number][] = [];
+  let start = 0;
+  for (let i = 1; i < lines.length; i++) {
+    if (BOUNDARY.test(lines[i])) {
+      segments.push([start, i]);
+      start = i;
+    }
+  }
+  segments.push([start, lines.length]);
+  return segments;
+}
+
+/** Splits segments longer than `maxChars` at line boundaries. */
+function limitSegments(
+  segments: [number, number][],
+  sizes: number[],
+  maxChars: number
+): [number, number][] {
+  const limited: [number, number][] = [];
+  for (const [start, end] of segments) {
+    let pieceStart = start;
+    let pieceSize = 0;
+    for (let i = start; i < end; i++) {
+      if (pieceSize > 0 && pieceSize + sizes[i] > maxChars) {
+        limited.push([pieceStart, i]);
+        pieceStart = i;
+        pieceSize = 0;
+      }
+      pieceSize += sizes[i];
+    }
+    limited.push([pieceStart, end]);
+  }
+  return limited;
+}
+
+/**
+ * Splits a file that is too large for a single prompt into chunks of at most
+ * `maxChars` characters. Chunks end at sub/function boundaries where
+ * possible and repeat the last `overlapLines` lines of the previous chunk.
+ * Every chunk carries the variable assignments that precede it, so a later
+ * chunk can still resolve `$data_dir` assigned at the top of the file.
+ * Files below the threshold are returned as a single chunk.
+ */
+export function splitIntoChunks(
+  content: string,
+  options: Required<ChunkingConfig>
+): FileChunk[] {
+  const lines = content.split("\n");
+  if (content.length <= options.maxChars) {
+    return [
+      {
+        startLine: 1,
+        endLine: lines.length,
+        contextLine: 1,
+        text: content,
+        bindings: [],
+      },
+    ];
+  }
+
+  const sizes = lines.map((line) => line.length + 1);
+  const segments = limitSegments(
+    splitAtBoundaries(lines),
+    sizes,
+    options.maxChars
+  );
+
+  const ranges: [number, number][] = [];
+  let [chunkStart, chunkEnd] = segments[0];
+  let chunkSize = sizes.slice(chunkStart, chunkEnd).reduce((a, b) => a + b, 0);
+  for (const [start, end] of segments.slice(1)) {
+    const size = sizes.slice(start, end).reduce((a, b) => a + b, 0);
+    if (chunkSize + size > options.maxChars) {
+      ranges.push([chunkStart, chunkEnd]);
+      chunkStart = start;
+      chunkSize = 0;
+    }
+    chunkEnd = end;
+    chunkSize += size;
+  }
+  ranges.push([chunkStart, chunkEnd]);
+
+  // The latest assignment of every variable before each line.
+  const bindings = new Map<string, string>();
+  let scanned = 0;
+
+  return ranges.map(([start, end]) => {
+    for (; scanned < start; scanned++) {
+      const line = lines[scanned];
+      const assignment = line.match(ASSIGNMENT);
+      if (assignment && line.length <= MAX_BINDING_LENGTH) {
+        bindings.delete(assignment[1]);
+        bindings.set(assignment[1], `line ${scanned + 1}: ${line.trim()}`);
+      }
+    }
+    const contextStart = Math.max(0, start - options.overlapLines);
+    return {
+      startLine: start + 1,
+      endLine: end,
+      contextLine: contextStart + 1,
+      text: lines.slice(contextStart, end).join("\n"),
+      bindings: [...bindings.values()].slice(-MAX_BINDINGS),
+    };
+  });
+}
@@ -0,0 +1,117 @@
+import { isCrontabPath, parseCrontab } from "./crontab";
+
+describe("parseCrontab", () => {
+  test("parses the example crontab", () => {
+    const content = [
+      "# Example crontab file for testing",
+      "# 0 * * * * /opt/application/daily_process.pl -c /var/data/config.ini",
+      "",
+      "0 * * * * ./example/scripts/process.sh",
+      "*/15 * * * * ./example/scripts/monitor.pl -c ./example/config/settings.ini",
+    ].join("\n");
+
+    const { jobs, errors } = parseCrontab(content, { pwd: "/root" });
+
+    expect(errors).toEqual([]);
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0].schedule).toBe("0 * * * *");
+    expect(jobs[0].executions).toEqual([
+      { pwd: "/root", path: "./example/scripts/process.sh", args: [] },
+    ]);
+    expect(jobs[1].schedule).toBe("*/15 * * * *");
+    expect(jobs[1].executions).toEqual([
+      {
+        pwd: "/root",
+        path: "./example/scripts/monitor.pl",
+        args: ["-c", "./example/config/settings.ini"],
+      },
+    ]);
+  });
+
+  test("understands macros and the user field of system crontabs", () => {
+    const content = [
+      "@reboot root /opt/app/start.sh",
+      "30 2 * * 1-5 batch /opt/app/nightly.sh --full",
+    ].join("\n");
+
+    const { jobs } = parseCrontab(content, {
+      pwd: "/",
+      systemCrontab: true,
+    });
+
+    expect(jobs.map((j) => [j.schedule, j.user, j.executions[0].path])).toEqual(
+      [
+        ["@reboot", "root", "/opt/app/start.sh"],
+        ["30 2 * * 1-5", "batch", "/opt/app/nightly.sh"],
+      ]
+    );
+    expect(jobs[1].executions[0].args).toEqual(["--full"]);
+  });
+
+  test("applies environment assignments to following jobs", () => {
+    const content = [
+      "SHELL=/bin/bash",
+      'HOME="/home/batch"',
+      "APP_DIR=/opt/app",
+      "@daily $APP_DIR/cleanup.sh",
+    ].join("\n");
+
+    const { jobs } = parseCrontab(content, { pwd: "/root" });
+
+    expect(jobs[0].env).toEqual({
+      SHELL: "/bin/bash",
+      HOME: "/home/batch",
+      APP_DIR: "/opt/app",
+    });
+    expect(jobs[0].executions).toEqual([
+      { pwd: "/home/batch", path: "/opt/app/cleanup.sh", args: [] },
+    ]);
+  });
+
+  test("joins continuation lines", () => {
+    const content = ["0 1 * * * /opt/app/report.pl \\", "  --out /tmp/x"].join(
+      "\n"
+    );
+
+    const { jobs } = parseCrontab(content, { pwd: "/" });
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0].line).toBe(1);
+    expect(jobs[0].executions[0].args).toEqual(["--out", "/tmp/x"]);
+  });
+
+  test("tracks cd, interpreters, redirects and stdin", () => {
+    const content =
+      "5 4 * * * cd /opt/app && perl ./bin/run.pl -v >> log/run.log 2>&1 % input";
+
+    const { jobs } = parseCrontab(content, { pwd: "/" });
+
+    expect(jobs[0].command).toBe(
+      "cd /opt/app && perl ./bin/run.pl -v >> log/run.log 2>&1"
+    );
+    expect(jobs[0].executions).toEqual([
+      { pwd: "/opt/app", path: "./bin/run.pl", args: ["-v"] },
+    ]);
+    expect(jobs[0].redirects).toEqual([
+      { path: "/opt/app/log/run.log", action: "write" },
+    ]);
+  });
+
+  test("reports invalid lines", () => {
+    const { jobs, errors } = parseCrontab("@sometimes /opt/app/x.sh\n* * *", {
+      pwd: "/",
+    });
+
+    expect(jobs).toEqual([]);
+    expect(errors.map((e) => e.line)).toEqual([1, 2]);
+  });
+});
+
+describe("isCrontabPath", () => {
+  test("detects crontab files", () => {
+    expect(isCrontabPath("/root/example/crontab")).toBe(true);
+    expect(isCrontabPath("/etc/cron.d/backup")).toBe(true);
+    expect(isCrontabPath("/var/spool/cron/crontabs/batch")).toBe(true);
+    expect(isCrontabPath("/root/example/scripts/process.sh")).toBe(false);
+  });
+});
@@ -0,0 +1,205 @@
+import path from "path";
+import {
+  resolveCommandLine,
+  ShellExecution,
+  ShellRedirect,
+} from "./shellUtils";
+
+export const CRON_MACROS = new Set([
+  "@reboot",
+  "@yearly",
+  "@annually",
+  "@monthly",
+  "@weekly",
+  "@daily",
+  "@midnight",
+  "@hourly",
+]);
+
+export interface CrontabJob {
+  /** 1-based line number where the job starts. */
+  line: number;
+  /** The five time fields or a macro like `@daily`. */
+  schedule: string;
+  /** Only set for system crontabs like `/etc/crontab`. */
+  user?: string;
+  command: string;
+  /** Environment assignments in effect for this job. */
+  env: Record<string, string>;
+  executions: ShellExecution[];
+  redirects: ShellRedirect[];
+}
+
+export interface CrontabParseResult {
+  jobs: CrontabJob[];
+  errors: { line: number; error: string }[];
+}
+
+export interface CrontabParseOptions {
+  /** Directory jobs are started in unless `HOME` is set in the crontab. */
+  pwd: string;
+  /** System crontabs have a user field between schedule and command. */
+  systemCrontab?: boolean;
+}
+
+/**
+ * Whether the production path looks like a crontab file.
+ */
+export function isCrontabPath(filePath: string): boolean {
+  const name = path.posix.basename(filePath);
+  const dir = path.posix.dirname(filePath);
+  return (
+    name === "crontab" ||
+    name.endsWith(".crontab") ||
+    name.endsWith(".cron") ||
+    /\/cron\.d$/.test(dir) ||
+    /\/spool\/cron(\/crontabs)?$/.test(dir)
+  );
+}
+
+/**
+ * Whether the crontab uses the `/etc/crontab` format with a user field.
+ */
+export function isSystemCrontabPath(filePath: string): boolean {
+  return filePath === "/etc/crontab" || /^\/etc\/cron\.d\//.test(filePath);
+}
+
+const TIME_FIELD_PATTERN = /^[\d*\/,\-A-Za-z?LW#]+$/;
+
+/**
+ * Cuts the command at the first unescaped `%` (everything after it is passed
+ * on stdin) and unescapes `\%`.
+ */
+function stripStdin(command: string): string {
+  const match = command.match(/^((?:[^%\\]|\\.)*)%/s);
+  const cmd = match ? match[1] : command;
+  return cmd.replace(/\\%/g, "%").trim();
+}
+
+/**
+ * Joins lines ending in a backslash with the following line and remembers the
+ * line each logical line started on.
+ */
+function joinContinuations(content: string): { line: number; text: string }[] {
+  const result: { line: number; text: string }[] = [];
+  const lines = content.split(/\r?\n/);
+  let buffer = "";
+  let start = 0;
+  lines.forEach((line, index) => {
+    if (buffer === "") start = index + 1;
+    if (line.endsWith("\\")) {
+      buffer += line.slice(0, -1) + " ";
+      return;
+    }
+    result.push({ line: start, text: buffer + line });
+    buffer = "";
+  });
+  if (buffer !== "") {
+    result.push({ line: start, text: buffer });
+  }
+  return result;
+}
+
+/**
+ * Takes up to `count` whitespace separated fields off the start of the text and
+ * returns them together with the untouched remainder.
+ */
+function takeFields(
+  text: string,
+  count: number
+): { fields: string[]; rest: string } {
+  const fields: string[] = [];
+  let rest = text.trimStart();
+  while (fields.length < count && rest !== "") {
+    const match = rest.match(/^(\S+)\s*/)!;
+    fields.push(match[1]);
+    rest = rest.slice(match[0].length);
+  }
+  return { fields, rest };
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    (trimmed[0] === '"' || trimmed[0] === "'") &&
+    trimmed[trimmed.length - 1] === trimmed[0]
+  ) {
+    return trimmed.slice(1, -1);
+  }
+  return trimmed;
+}
+
+/**
+ * Parses a crontab into its jobs. Understands the five time fields, `@` macros,
+ * the user field of system crontabs, environment assignments, comments and
+ * lines continued with a trailing backslash.
+ */
+export function parseCrontab(
+  content: string,
+  options: CrontabParseOptions
+): CrontabParseResult {
+  const result: CrontabParseResult = { jobs: [], errors: [] };
+  const env: Record<string, string> = {};
+
+  for (const { line, text } of joinContinuations(content)) {
+    const trimmed = text.trim();
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+
+    const assignment = trimmed.match(/^([A-Za-z_][A-Za-z0-9_]*)\s*=\s*(.*)$/);
+    if (assignment) {
+      env[assignment[1]] = unquote(assignment[2]);
+      continue;
+    }
+
+    const [first] = takeFields(trimmed, 1).fields;
+    let schedule: string;
+    let rest: string;
+    if (first.startsWith("@")) {
+      if (!CRON_MACROS.has(first)) {
+        result.errors.push({ line, error: `Unknown schedule macro ${first}` });
+        continue;
+      }
+      schedule = first;
+      rest = takeFields(trimmed, 1).rest;
+    } else {
+      const { fields, rest: remainder } = takeFields(trimmed, 5);
+      if (
+        fields.length < 5 ||
+        !fields.every((field) => TIME_FIELD_PATTERN.test(field))
+      ) {
+        result.errors.push({ line, error: `Invalid crontab line: ${trimmed}` });
+        continue;
+      }
+      schedule = fields.join(" ");
+      rest = remainder;
+    }
+
+    let user: string | undefined;
+    if (options.systemCrontab) {
+      const userField = takeFields(rest, 1);
+      user = userField.fields[0];
+      rest = userField.rest;
+    }
+
+    const command = stripStdin(rest);
+    if (command === "") {
+      result.errors.push({ line, error: `Missing command: ${trimmed}` });
+      continue;
+    }
+
+    const jobEnv = { ...env };
+    const pwd = jobEnv.HOME ?? options.pwd;
+
+    result.jobs.push({
+      line,
+      schedule,
+      user,
+      command,
+      env: jobEnv,
+      ...resolveCommandLine(command, pwd, jobEnv),
+    });
+  }
+
+  return result;
+}
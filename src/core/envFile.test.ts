@@ -0,0 +1,27 @@
+import { parseEnvFile } from "./envFile";
+
+describe("parseEnvFile", () => {
+  test("reads quoted, exported and derived values", () => {
+    const content = [
+      "# application settings",
+      "BASE_DIR=/opt/app",
+      'export DATA_DIR="$BASE_DIR/data"',
+      "LOG_DIR='${BASE_DIR}/logs'",
+      "MODE=full # nightly",
+      "",
+    ].join("\n");
+
+    expect(parseEnvFile(content)).toEqual({
+      BASE_DIR: "/opt/app",
+      DATA_DIR: "/opt/app/data",
+      LOG_DIR: "${BASE_DIR}/logs",
+      MODE: "full",
+    });
+  });
+
+  test("expands inherited variables", () => {
+    expect(parseEnvFile("CONFIG=$HOME/app.ini", { HOME: "/home/app" })).toEqual(
+      { CONFIG: "/home/app/app.ini" }
+    );
+  });
+});
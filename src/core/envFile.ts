@@ -0,0 +1,26 @@
+import { parseAssignment, tokenizeShell } from "./shellUtils";
+
+/**
+ * Parses an env file like `/etc/default/app` or a `.env` file. Lines are
+ * `KEY=value` assignments, optionally prefixed with `export`, with shell
+ * quoting. Values may reference variables assigned before, either in the
+ * file or in the given environment.
+ */
+export function parseEnvFile(
+  content: string,
+  inherited: Record<string, string> = {}
+): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim().replace(/^export\s+/, "");
+    if (trimmed === "" || trimmed.startsWith("#")) continue;
+
+    const [token] = tokenizeShell(trimmed, { ...inherited, ...env });
+    const assignment =
+      token?.type === "word" ? parseAssignment(token.value) : undefined;
+    if (assignment) {
+      env[assignment.name] = assignment.value;
+    }
+  }
+  return env;
+}
@@ -0,0 +1,51 @@
+import { scoreFixture, summarizeScores } from "./evaluation";
+
+describe("scoreFixture", () => {
+  const fixture = {
+    path: "./scripts/monitor.pl",
+    expected: {
+      read: ["./config/settings.ini", "/app/data/status.txt"],
+      write: ["./data/monitor.log"],
+    },
+    forbidden: ["./config/unused.ini"],
+  };
+
+  test("scores relative and absolute paths of every category", () => {
+    const score = scoreFixture(fixture, "/app", {
+      read: ["/app/config/settings.ini", "/app/config/unused.ini"],
+      write: ["./data/monitor.log"],
+      execute: ["/app/scripts/check.sh"],
+    });
+
+    expect(score.path).toBe("/app/scripts/monitor.pl");
+    expect(score.scores.read).toEqual({
+      truePositives: 1,
+      falsePositives: 1,
+      falseNegatives: 1,
+      precision: 0.5,
+      recall: 0.5,
+    });
+    expect(score.scores.write.precision).toBe(1);
+    expect(score.scores.execute).toMatchObject({ precision: 0, recall: 1 });
+    expect(score.missing.read).toEqual(["/app/data/status.txt"]);
+    expect(score.unexpected.execute).toEqual(["/app/scripts/check.sh"]);
+    expect(score.forbidden).toEqual(["/app/config/unused.ini"]);
+  });
+
+  test("sums the counts of all files", () => {
+    const perfect = scoreFixture(fixture, "/app", {
+      read: ["./config/settings.ini", "./data/status.txt"],
+      write: ["./data/monitor.log"],
+    });
+    const empty = scoreFixture(fixture, "/app", {});
+
+    const summary = summarizeScores([perfect, empty]);
+
+    expect(summary.read).toMatchObject({ precision: 1, recall: 0.5 });
+    expect(summary.total).toMatchObject({
+      truePositives: 3,
+      falseNegatives: 3,
+      recall: 0.5,
+    });
+  });
+});
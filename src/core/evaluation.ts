@@ -0,0 +1,143 @@
+import { resolveUnixPath } from "./pathUtils";
+import { AnalysisEngine } from "./types";
+
+export const EVAL_CATEGORIES = ["read", "write", "execute"] as const;
+
+export type EvalCategory = (typeof EVAL_CATEGORIES)[number];
+
+export type PathSets = Record<EvalCategory, string[]>;
+
+/** A script with the dependencies a correct analysis reports. */
+export interface EvalFixture {
+  /** The script, absolute or relative to `pwd`. */
+  path: string;
+  /** Working directory, defaults to the `pwd` of the configuration. */
+  pwd?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** Hand-written dependencies, absolute or relative to `pwd`. */
+  expected: Partial<PathSets>;
+  /**
+   * Traps that must not be reported in any category, e.g. a config file
+   * that is only passed as an argument to another script.
+   */
+  forbidden?: string[];
+}
+
+export interface EvalFixtureSet {
+  fixtures: EvalFixture[];
+}
+
+export interface CategoryScore {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  /** 1 when nothing was reported. */
+  precision: number;
+  /** 1 when nothing was expected. */
+  recall: number;
+}
+
+export interface FileScore {
+  /** Absolute path of the script. */
+  path: string;
+  scores: Record<EvalCategory, CategoryScore>;
+  /** Expected paths the analysis did not report. */
+  missing: PathSets;
+  /** Reported paths that were not expected. */
+  unexpected: PathSets;
+  /** Forbidden paths the analysis reported anyway. */
+  forbidden: string[];
+  /** Why the script could not be analyzed. */
+  error?: string;
+}
+
+/**
+ * Scores of one evaluation run. Contains nothing that changes between runs of
+ * the same answers, so the files of two prompt versions can be diffed.
+ */
+export interface EvaluationResult {
+  promptVersion: string;
+  /** `provider:model` id, or `static` for the static engine. */
+  model: string;
+  engine: AnalysisEngine;
+  summary: Record<EvalCategory | "total", CategoryScore>;
+  files: FileScore[];
+}
+
+function toScore(
+  truePositives: number,
+  falsePositives: number,
+  falseNegatives: number
+): CategoryScore {
+  const reported = truePositives + falsePositives;
+  const expected = truePositives + falseNegatives;
+  return {
+    truePositives,
+    falsePositives,
+    falseNegatives,
+    precision: reported === 0 ? 1 : truePositives / reported,
+    recall: expected === 0 ? 1 : truePositives / expected,
+  };
+}
+
+/**
+ * Compares the reported dependencies of a fixture with the expected ones.
+ * Paths of both sides are resolved against the fixture's working directory,
+ * so `./data/in.txt` and `/app/data/in.txt` are the same file. All lists are
+ * sorted, so the scores of two runs can be diffed.
+ */
+export function scoreFixture(
+  fixture: EvalFixture,
+  pwd: string,
+  actual: Partial<PathSets>
+): FileScore {
+  const resolve = (paths: string[] | undefined) =>
+    [...new Set((paths ?? []).map((p) => resolveUnixPath(pwd, p)))].sort();
+
+  const score: FileScore = {
+    path: resolveUnixPath(pwd, fixture.path),
+    scores: {} as FileScore["scores"],
+    missing: { read: [], write: [], execute: [] },
+    unexpected: { read: [], write: [], execute: [] },
+    forbidden: [],
+  };
+  const reported = new Set<string>();
+  for (const category of EVAL_CATEGORIES) {
+    const expected = resolve(fixture.expected[category]);
+    const found = resolve(actual[category]);
+    found.forEach((p) => reported.add(p));
+
+    score.missing[category] = expected.filter((p) => !found.includes(p));
+    score.unexpected[category] = found.filter((p) => !expected.includes(p));
+    score.scores[category] = toScore(
+      found.length - score.unexpected[category].length,
+      score.unexpected[category].length,
+      score.missing[category].length
+    );
+  }
+  score.forbidden = resolve(fixture.forbidden).filter((p) => reported.has(p));
+  return score;
+}
+
+/**
+ * Sums the counts of all files per category and over all categories, so files
+ * with many dependencies weigh more than files with few.
+ */
+export function summarizeScores(
+  files: FileScore[]
+): Record<EvalCategory | "total", CategoryScore> {
+  const sum = (scores: CategoryScore[]) =>
+    toScore(
+      scores.reduce((total, s) => total + s.truePositives, 0),
+      scores.reduce((total, s) => total + s.falsePositives, 0),
+      scores.reduce((total, s) => total + s.falseNegatives, 0)
+    );
+
+  const summary = {} as Record<EvalCategory | "total", CategoryScore>;
+  for (const category of EVAL_CATEGORIES) {
+    summary[category] = sum(files.map((file) => file.scores[category]));
+  }
+  summary.total = sum(EVAL_CATEGORIES.map((category) => summary[category]));
+  return summary;
+}
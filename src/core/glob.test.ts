@@ -0,0 +1,32 @@
+import { globToRegExp, hasGlobMagic } from "./glob";
+
+describe("globToRegExp", () => {
+  test("matches wildcards within a single path segment", () => {
+    const regExp = globToRegExp("/var/data/*.csv");
+
+    expect(regExp.test("/var/data/input.csv")).toBe(true);
+    expect(regExp.test("/var/data/archive/old.csv")).toBe(false);
+    expect(regExp.test("/var/data/input.csv.bak")).toBe(false);
+  });
+
+  test("matches across segments, classes and alternatives", () => {
+    expect(globToRegExp("/opt/lib/**/*.pm").test("/opt/lib/Mail/Send.pm")).toBe(
+      true
+    );
+    expect(globToRegExp("/opt/lib/**/*.pm").test("/opt/lib/Send.pm")).toBe(
+      true
+    );
+    expect(globToRegExp("/log/app.[0-9]").test("/log/app.3")).toBe(true);
+    expect(globToRegExp("/log/app.[!0-9]").test("/log/app.3")).toBe(false);
+    expect(globToRegExp("/etc/{app,web}.conf").test("/etc/web.conf")).toBe(
+      true
+    );
+  });
+});
+
+describe("hasGlobMagic", () => {
+  test("detects wildcards", () => {
+    expect(hasGlobMagic("/var/data/*.csv")).toBe(true);
+    expect(hasGlobMagic("/var/data/input.csv")).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+/** Whether a path contains shell wildcards like `*.csv` or `log.[0-9]`. */
+export function hasGlobMagic(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Converts a shell glob into a regular expression matching whole Unix paths.
+ * Supports `*` and `?` within a path segment, `**` across segments,
+ * `[abc]`/`[!abc]` character classes and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*") {
+      if (pattern[i + 1] === "*") {
+        const isSegment = pattern[i + 2] === "/";
+        source += isSegment ? "(?:.*/)?" : ".*";
+        i += isSegment ? 2 : 1;
+      } else {
+        source += "[^/]*";
+      }
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i + 2);
+      if (end === -1) {
+        source += "\\[";
+        continue;
+      }
+      const members = pattern
+        .slice(i + 1, end)
+        .replace(/^!/, "^")
+        .replace(/\\/g, "\\\\");
+      source += `[${members}]`;
+      i = end;
+    } else if (char === "{") {
+      braceDepth++;
+      source += "(?:";
+    } else if (char === "}" && braceDepth > 0) {
+      braceDepth--;
+      source += ")";
+    } else if (char === "," && braceDepth > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\{}]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
@@ -2,3 +2,20 @@ export * from "./PathMapper";
 export * from "./types";
 export * from "./pathUtils";
 export * from "./markdownParser";
+export * from "./analysisCache";
+export * from "./shellUtils";
+export * from "./crontab";
+export * from "./systemdUnit";
+export * from "./language";
+export * from "./shellScript";
+export * from "./perlScript";
+export * from "./pythonScript";
+export * from "./pathCandidates";
+export * from "./chunking";
+export * from "./glob";
+export * from "./envFile";
+export * from "./searchPaths";
+export * from "./usage";
+export * from "./evaluation";
+export * from "./promptExtensions";
+export * from "./archive";
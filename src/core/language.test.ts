@@ -0,0 +1,37 @@
+import { detectLanguage } from "./language";
+
+describe("detectLanguage", () => {
+  test("prefers the shebang over the extension", () => {
+    expect(detectLanguage("/opt/app/run", "#!/bin/bash\necho")).toBe("shell");
+    expect(detectLanguage("/opt/app/run.sh", "#!/usr/bin/perl -w\n")).toBe(
+      "perl"
+    );
+    expect(detectLanguage("/opt/app/run", "#!/usr/bin/env python3\n")).toBe(
+      "python"
+    );
+  });
+
+  test("falls back to the extension", () => {
+    expect(detectLanguage("/opt/app/lib/Util.pm", "package Util;")).toBe(
+      "perl"
+    );
+    expect(detectLanguage("/opt/app/notes.txt", "hello")).toBeUndefined();
+  });
+
+  test("detects awk, SQL and JCL", () => {
+    expect(detectLanguage("/opt/app/sum", "#!/usr/bin/gawk -f\n")).toBe("awk");
+    expect(detectLanguage("/opt/app/load.sql", "COPY t FROM 'a';")).toBe("sql");
+    expect(
+      detectLanguage("/jobs/PAYROLL", "//PAYROLL  JOB (ACCT),'NIGHTLY'\n")
+    ).toBe("jcl");
+  });
+
+  test("detects Windows batch files", () => {
+    expect(detectLanguage("C:/jobs/nightly.bat", "@echo off\r\n")).toBe(
+      "batch"
+    );
+    expect(detectLanguage("/opt/app/deploy.CMD", "call setup.cmd\r\n")).toBe(
+      "batch"
+    );
+  });
+});
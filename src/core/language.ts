@@ -0,0 +1,55 @@
+import path from "path";
+
+export type ScriptLanguage =
+  "shell" | "perl" | "python" | "awk" | "sql" | "jcl" | "batch";
+
+const INTERPRETER_LANGUAGES: [RegExp, ScriptLanguage][] = [
+  [/^(ba|k|z|da|)sh$/, "shell"],
+  [/^perl[\d.]*$/, "perl"],
+  [/^python[\d.]*$/, "python"],
+  [/^[gmn]?awk$/, "awk"],
+  [/^(psql|mysql|sqlplus|sqlite3)$/, "sql"],
+];
+
+const EXTENSION_LANGUAGES: Record<string, ScriptLanguage> = {
+  ".sh": "shell",
+  ".bash": "shell",
+  ".ksh": "shell",
+  ".pl": "perl",
+  ".pm": "perl",
+  ".py": "python",
+  ".awk": "awk",
+  ".sql": "sql",
+  ".jcl": "jcl",
+  ".bat": "batch",
+  ".cmd": "batch",
+};
+
+/** The job card a JCL member starts with, e.g. `//PAYROLL  JOB (ACCT),'NIGHTLY'`. */
+const JCL_JOB_CARD = /^\/\/\S*\s+JOB\b/;
+
+/**
+ * Detects the language of a script from its shebang, falling back to the file
+ * extension. `#!/usr/bin/env python3` style shebangs are supported. JCL has no
+ * shebang, its job card takes that role.
+ */
+export function detectLanguage(
+  filePath: string,
+  content: string
+): ScriptLanguage | undefined {
+  const shebang = content.match(/^#!\s*(\S+)(?:[ \t]+(\S+))?/);
+  if (shebang) {
+    const interpreter =
+      path.posix.basename(shebang[1]) === "env" && shebang[2]
+        ? shebang[2]
+        : path.posix.basename(shebang[1]);
+    const match = INTERPRETER_LANGUAGES.find(([pattern]) =>
+      pattern.test(interpreter)
+    );
+    if (match) return match[1];
+  }
+  if (JCL_JOB_CARD.test(content)) {
+    return "jcl";
+  }
+  return EXTENSION_LANGUAGES[path.posix.extname(filePath).toLowerCase()];
+}
@@ -0,0 +1,55 @@
+import {
+  extractFileListFromMarkdown,
+  extractUnresolvedFromMarkdown,
+} from "./markdownParser";
+
+describe("extractUnresolvedFromMarkdown", () => {
+  const report = [
+    "### Read Files",
+    "- **/opt/app/app.ini** — Read by cat",
+    "",
+    "### Unresolved Paths",
+    "- **$DATA_DIR/input.csv** (read in /opt/app/run.sh) — blocked by: DATA_DIR — Unknown variable $DATA_DIR",
+    "- **$(date +%F).log** (write) — Command substitution",
+    "",
+    "### Errors",
+    "- **/opt/app/missing.sh** — ENOENT",
+  ].join("\n");
+
+  test("parses the action, file and blocking variables", () => {
+    expect(extractUnresolvedFromMarkdown(report)).toEqual([
+      {
+        expression: "$DATA_DIR/input.csv",
+        action: "read",
+        file: "/opt/app/run.sh",
+        variables: ["DATA_DIR"],
+      },
+      { expression: "$(date +%F).log", action: "write", variables: [] },
+    ]);
+  });
+
+  test("keeps unresolved paths out of the file list", () => {
+    expect(extractFileListFromMarkdown(report)).toEqual(["/opt/app/app.ini"]);
+  });
+});
+
+describe("extractFileListFromMarkdown", () => {
+  const report = [
+    "### Read Files",
+    "- **/opt/app/app.ini** — Read by cat (confidence 100%)",
+    "- **/opt/app/old.ini** — Read by source (confidence 33%)",
+    "- **/opt/app/static.ini** — Read by cat",
+    "",
+    "### Below Confidence Threshold",
+    "- **/tmp/guess.log** (write in /opt/app/run.sh) — confidence 20%",
+  ].join("\n");
+
+  test("leaves out files below the confidence threshold", () => {
+    expect(
+      extractFileListFromMarkdown(report, { minConfidence: 1 / 3 })
+    ).toEqual(["/opt/app/app.ini", "/opt/app/old.ini", "/opt/app/static.ini"]);
+    expect(extractFileListFromMarkdown(report, { minConfidence: 0.5 })).toEqual(
+      ["/opt/app/app.ini", "/opt/app/static.ini"]
+    );
+  });
+});
@@ -7,6 +7,11 @@ export interface ExtractOptions {
   includeExecutables?: boolean;
   includeBinaries?: boolean;
   excludeErrors?: boolean;
+  /**
+   * Leaves out files reported by fewer self-consistency samples, as a
+   * fraction between 0 and 1. Files without a confidence are always kept.
+   */
+  minConfidence?: number;
 }
 
 export const DEFAULT_EXTRACT_OPTIONS: ExtractOptions = {
@@ -17,7 +22,24 @@ export const DEFAULT_EXTRACT_OPTIONS: ExtractOptions = {
   excludeErrors: true,
 };
 
-type SectionType = "read" | "write" | "executable" | "binary" | "error" | null;
+type SectionType =
+  | "read"
+  | "write"
+  | "executable"
+  | "binary"
+  | "unresolved"
+  | "error"
+  | null;
+
+export interface UnresolvedPathEntry {
+  /** The path as written in the analyzed file, e.g. `$DATA_DIR/input.csv`. */
+  expression: string;
+  action: "read" | "write" | "execute";
+  /** The file using the path, if the report names it. */
+  file?: string;
+  /** Variables without a known value. */
+  variables: string[];
+}
 
 export function parseFilePathFromLine(line: string): string | null {
   // Match markdown list items with bold file paths
@@ -28,6 +50,41 @@ export function parseFilePathFromLine(line: string): string | null {
   return null;
 }
 
+/**
+ * Parses the confidence of an entry like
+ * `- **app.ini** — Read by cat (confidence 67%)` as a percentage.
+ */
+export function parseConfidenceFromLine(line: string): number | null {
+  const match = line.match(/\(confidence (\d+)%\)\s*$/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Parses an entry of the "Unresolved Paths" section of an analysis report,
+ * like `- **$DATA_DIR/input.csv** (read in /opt/app/run.sh) — blocked by: DATA_DIR`.
+ */
+export function parseUnresolvedFromLine(
+  line: string
+): UnresolvedPathEntry | null {
+  const match = line.match(
+    /^\s*-\s*\*\*([^*]+)\*\*\s*\((read|write|execute)(?: in ([^)]+))?\)(?:\s*—\s*blocked by: ([^—]+))?/
+  );
+  if (!match) {
+    return null;
+  }
+  return {
+    expression: match[1].trim(),
+    action: match[2] as UnresolvedPathEntry["action"],
+    ...(match[3] ? { file: match[3].trim() } : {}),
+    variables: match[4]
+      ? match[4]
+          .split(",")
+          .map((variable) => variable.trim())
+          .filter(Boolean)
+      : [],
+  };
+}
+
 export function isMarkdownFile(filePath: string): boolean {
   return extname(filePath).toLowerCase() === ".md";
 }
@@ -43,8 +100,8 @@ export function extractFileListFromMarkdown(
   for (const line of lines) {
     const trimmedLine = line.trim();
 
-    // Detect section headers
-    if (trimmedLine.startsWith("###")) {
+    // Detect section headers, any other heading ends the current section
+    if (trimmedLine.startsWith("#")) {
       if (trimmedLine.includes("Read Files")) {
         currentSection = "read";
       } else if (trimmedLine.includes("Written Files")) {
@@ -53,6 +110,8 @@ export function extractFileListFromMarkdown(
         currentSection = "executable";
       } else if (trimmedLine.includes("Binaries")) {
         currentSection = "binary";
+      } else if (trimmedLine.includes("Unresolved Paths")) {
+        currentSection = "unresolved";
       } else if (trimmedLine.includes("Errors")) {
         currentSection = "error";
       } else {
@@ -76,7 +135,14 @@ export function extractFileListFromMarkdown(
       (currentSection === "binary" && options.includeBinaries !== false) ||
       (currentSection === "error" && !options.excludeErrors);
 
-    if (shouldInclude) {
+    // The report rounds to whole percents, so does the threshold
+    const confidence = parseConfidenceFromLine(line);
+    const confident =
+      options.minConfidence === undefined ||
+      confidence === null ||
+      confidence >= Math.round(options.minConfidence * 100);
+
+    if (shouldInclude && confident) {
       filePaths.push(filePath);
     }
   }
@@ -85,6 +151,33 @@ export function extractFileListFromMarkdown(
   return [...new Set(filePaths)];
 }
 
+/**
+ * Collects the paths an analysis could not resolve. They are never part of
+ * the file list, since they are not actual files.
+ */
+export function extractUnresolvedFromMarkdown(
+  content: string
+): UnresolvedPathEntry[] {
+  const entries: UnresolvedPathEntry[] = [];
+  let inSection = false;
+
+  for (const line of content.split("\n")) {
+    const trimmedLine = line.trim();
+    if (trimmedLine.startsWith("#")) {
+      inSection = trimmedLine.includes("Unresolved Paths");
+      continue;
+    }
+    if (!inSection) continue;
+
+    const entry = parseUnresolvedFromLine(line);
+    if (entry) {
+      entries.push(entry);
+    }
+  }
+
+  return entries;
+}
+
 export async function extractFileListFromMarkdownFile(
   filePath: string,
   options: ExtractOptions = DEFAULT_EXTRACT_OPTIONS
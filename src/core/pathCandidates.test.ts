@@ -0,0 +1,53 @@
+import { extractPathCandidates } from "./pathCandidates";
+
+describe("extractPathCandidates", () => {
+  test("classifies source lines, redirects and executed paths", () => {
+    const content = [
+      "#!/bin/bash",
+      "# ./disabled.sh",
+      "source /etc/app/env.sh",
+      "cat /var/data/input.txt > ./out/result.txt 2>/dev/null",
+      "./bin/run.sh --fast < queue/jobs.txt",
+      'LOG="$BASE/app.log"',
+    ].join("\n");
+
+    expect(
+      extractPathCandidates(content, { pwd: "/opt/app" }).map((c) => [
+        c.action,
+        c.path,
+        c.args,
+      ])
+    ).toEqual([
+      ["read", "/etc/app/env.sh", undefined],
+      ["write", "/opt/app/out/result.txt", undefined],
+      ["reference", "/var/data/input.txt", undefined],
+      ["read", "/opt/app/queue/jobs.txt", undefined],
+      ["execute", "/opt/app/bin/run.sh", ["--fast"]],
+    ]);
+  });
+
+  test("classifies open and system calls of Perl and Python", () => {
+    const content = [
+      "open(my $fh, '<', '/etc/app.conf') or die;",
+      'open(LOG, ">>/var/log/app.log");',
+      'open(my $ps, "/usr/local/bin/report |");',
+      'with open("data/out.csv", "w") as f:',
+      'system("/opt/tools/sync.pl --all");',
+      'subprocess.run(["./notify.sh", "done"])',
+    ].join("\n");
+
+    expect(
+      extractPathCandidates(content, { pwd: "/srv" }).map((c) => [
+        c.action,
+        c.path,
+      ])
+    ).toEqual([
+      ["read", "/etc/app.conf"],
+      ["write", "/var/log/app.log"],
+      ["execute", "/usr/local/bin/report"],
+      ["write", "/srv/data/out.csv"],
+      ["execute", "/opt/tools/sync.pl"],
+      ["execute", "/srv/notify.sh"],
+    ]);
+  });
+});
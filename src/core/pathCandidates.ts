@@ -0,0 +1,158 @@
+import { resolveUnixPath } from "./pathUtils";
+
+/**
+ * How a candidate is used, `reference` is a literal path whose use the
+ * extraction could not tell.
+ */
+export type CandidateAction = "read" | "write" | "execute" | "reference";
+
+export interface PathCandidate {
+  path: string;
+  action: CandidateAction;
+  /** The source line the candidate was found on. */
+  evidence: string;
+  args?: string[];
+}
+
+/** Paths that are never files of the analyzed system. */
+const IGNORED_PATH_PREFIXES = ["/dev/", "/proc/", "/sys/"];
+
+/** A literal absolute or `./`-relative path outside of a URL or variable. */
+const LITERAL_PATH = /(?<![\w:/.$@%{-])(?:\.{1,2})?\/[\w.@%+\-/]*\w/g;
+
+/** Calls that run their first string argument as a command. */
+const EXECUTING_CALL =
+  /\b(?:system|exec|popen|call|run|check_call|check_output|Popen)\s*\(\s*\[?\s*(['"])(.*?)\1/g;
+
+/** Open modes of Perl (`<`, `>>`, `-|`) and Python (`r`, `wb`, `a+`). */
+const PERL_OPEN_MODE = /^\s*(\+?[<>]{1,2}&?|-\||\|-)\s*$/;
+const PYTHON_OPEN_MODE = /^[rwabxt+]{1,3}$/;
+
+function stringLiterals(text: string): string[] {
+  return [...text.matchAll(/(['"])(.*?)\1/g)].map((match) => match[2]);
+}
+
+function isIgnored(candidatePath: string): boolean {
+  return IGNORED_PATH_PREFIXES.some((prefix) =>
+    candidatePath.startsWith(prefix)
+  );
+}
+
+/** Redirect targets that are paths rather than operands of a comparison. */
+function isPathLike(target: string): boolean {
+  return (
+    !target.includes("$") &&
+    (/^(?:\.{1,2})?\//.test(target) || /^[\w.-]+\/[\w./-]*\.\w+$/.test(target))
+  );
+}
+
+/** Classifies the arguments of an `open(...)` call of Perl or Python. */
+function parseOpen(
+  args: string
+): { path: string; action: CandidateAction } | undefined {
+  let mode = "";
+  let target: string | undefined;
+  for (const literal of stringLiterals(args)) {
+    const twoArgument = literal.match(/^\s*(\+?[<>]{1,2})\s*(\S.*)$/);
+    if (PERL_OPEN_MODE.test(literal) || PYTHON_OPEN_MODE.test(literal)) {
+      mode = literal.trim();
+    } else if (twoArgument) {
+      mode = twoArgument[1];
+      target ??= twoArgument[2];
+    } else if (/\|\s*$/.test(literal)) {
+      mode = "-|";
+      target ??= literal.replace(/\|\s*$/, "").trim();
+    } else {
+      target ??= literal;
+    }
+  }
+  if (!target || target.includes("$") || target.includes("{")) return undefined;
+  if (mode.includes("|")) return { path: target, action: "execute" };
+  return {
+    path: target,
+    action: /[>wax+]/.test(mode) ? "write" : "read",
+  };
+}
+
+/**
+ * Lightweight, language agnostic extraction of the literal paths a script
+ * mentions. `source` lines, redirects and `open(...)` calls become read or
+ * written files, `system(...)`-like calls and lines starting with a path
+ * become executions and every other literal path is kept as a reference.
+ * Nothing is evaluated, so paths built from variables are not found; the
+ * candidates are hints for the model, not a complete analysis.
+ */
+export function extractPathCandidates(
+  content: string,
+  options: { pwd: string }
+): PathCandidate[] {
+  const candidates: PathCandidate[] = [];
+  const seen = new Set<string>();
+
+  const add = (
+    value: string,
+    action: CandidateAction,
+    evidence: string,
+    args?: string[]
+  ) => {
+    const candidatePath = resolveUnixPath(options.pwd, value);
+    if (isIgnored(candidatePath) || seen.has(candidatePath)) return;
+    seen.add(candidatePath);
+    candidates.push({
+      path: candidatePath,
+      action,
+      evidence,
+      ...(args ? { args } : {}),
+    });
+  };
+
+  const lines = content.split("\n");
+  lines.forEach((line, index) => {
+    const trimmed = line.trim();
+    if (trimmed === "" || trimmed.startsWith("#") || trimmed.startsWith("//")) {
+      return;
+    }
+    const evidence = `line ${index + 1}: ${trimmed}`;
+
+    const sourced = trimmed.match(/^(?:source|\.)\s+(['"]?)([^\s'";]+)\1/);
+    if (sourced && !sourced[2].includes("$")) {
+      add(sourced[2], "read", evidence);
+    }
+
+    for (const call of trimmed.matchAll(/\bopen\s*\(([^)]*)\)/g)) {
+      const opened = parseOpen(call[1]);
+      if (opened) add(opened.path, opened.action, evidence);
+    }
+
+    for (const call of trimmed.matchAll(EXECUTING_CALL)) {
+      const [command, ...args] = call[2].trim().split(/\s+/);
+      if (command && !command.includes("$")) {
+        add(command, "execute", evidence, args);
+      }
+    }
+
+    for (const redirect of trimmed.matchAll(
+      /(?<![<>=-])(\d?>>?|<)(?![<>&(])\s*(['"]?)([^\s'";|&<>()]+)\2/g
+    )) {
+      const target = redirect[3];
+      if (!isPathLike(target)) continue;
+      add(target, redirect[1].includes(">") ? "write" : "read", evidence);
+    }
+
+    const command = trimmed.match(/^((?:\.{1,2})?\/[\w.@%+\-/]*\w)(.*)$/);
+    if (command) {
+      const args = command[2]
+        .split(/[|;&<>]/)[0]
+        .trim()
+        .split(/\s+/)
+        .filter(Boolean);
+      add(command[1], "execute", evidence, args);
+    }
+
+    for (const literal of trimmed.matchAll(LITERAL_PATH)) {
+      add(literal[0], "reference", evidence);
+    }
+  });
+
+  return candidates;
+}
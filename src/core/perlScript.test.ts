@@ -0,0 +1,107 @@
+import { analyzePerlScript, splitPerlStatements } from "./perlScript";
+
+describe("analyzePerlScript", () => {
+  test("resolves open calls from arguments and fallbacks", () => {
+    const content = [
+      "use strict;",
+      "my $config_file = $ARGV[1] || './config/default.ini';",
+      "open(my $fh, '<', $config_file) or die \"Cannot open config: $!\";",
+      "my $data_dir = $ENV{'DATA_DIR'} || '/var/data';",
+      'my $data_file = "$data_dir/metrics.csv";',
+      "if (-e $data_file) {",
+      "    open(my $data_fh, '<', $data_file);",
+      "}",
+      'open(LOG, ">>$data_dir/monitor.log");',
+      "open my $out, '>', $ENV{OUT_FILE} or die;",
+    ].join("\n");
+
+    const result = analyzePerlScript(content, {
+      pwd: "/root",
+      scriptPath: "/root/monitor.pl",
+      args: ["-c", "./config/settings.ini"],
+    });
+
+    expect(result.readFiles.map((f) => f.path)).toEqual([
+      "/root/config/settings.ini",
+      "/var/data/metrics.csv",
+    ]);
+    expect(result.writeFiles.map((f) => f.path)).toEqual([
+      "/var/data/monitor.log",
+    ]);
+    expect(result.unresolved).toEqual([
+      {
+        value: "$ENV{OUT_FILE}",
+        reason: "Unknown environment variable OUT_FILE",
+        variables: ["OUT_FILE"],
+        action: "write",
+      },
+    ]);
+  });
+
+  test("collects commands from system, exec, pipes, backticks and qx", () => {
+    const content = [
+      "my $app = '/opt/app';",
+      'system("./example/scripts/check_health.sh");',
+      "system('perl', './tools/report.pl', $ARGV[0]);",
+      "open(my $p, '-|', \"$app/bin/list.sh\", '--all');",
+      'open(my $q, "| $app/bin/mail.sh");',
+      "my $status = `$app/bin/status.sh --short`;",
+      "my $count = qx{$app/bin/count.sh};",
+      "exec '/bin/rm', '-f', '/tmp/lock';",
+      'print "system failure, cannot open file";',
+    ].join("\n");
+
+    const result = analyzePerlScript(content, {
+      pwd: "/root",
+      scriptPath: "/root/run.pl",
+      args: ["daily"],
+    });
+
+    expect(result.executions.map((e) => [e.path, e.args])).toEqual([
+      ["./example/scripts/check_health.sh", []],
+      ["./tools/report.pl", ["daily"]],
+      ["/opt/app/bin/list.sh", ["--all"]],
+      ["/opt/app/bin/mail.sh", []],
+      ["/opt/app/bin/status.sh", ["--short"]],
+      ["/opt/app/bin/count.sh", []],
+    ]);
+    expect(result.readFiles).toEqual([]);
+  });
+
+  test("collects modules, library paths and required files", () => {
+    const content = [
+      "use strict;",
+      "use warnings;",
+      "use FindBin;",
+      'use lib "$FindBin::Bin/../lib";',
+      "use lib qw(/opt/shared/perl);",
+      "use App::Config;",
+      "use parent -norequire, 'App::Base';",
+      "require 'common.pl';",
+      "",
+      "=pod",
+      "use Not::Loaded;",
+      "=cut",
+      "# use Commented::Out;",
+    ].join("\n");
+
+    const result = analyzePerlScript(content, {
+      pwd: "/",
+      scriptPath: "/opt/app/bin/run.pl",
+    });
+
+    expect(result.modules).toEqual(["FindBin", "App::Config", "App::Base"]);
+    expect(result.libraryPaths).toEqual(["/opt/app/lib", "/opt/shared/perl"]);
+    expect(result.executions.map((e) => e.path)).toEqual(["common.pl"]);
+  });
+});
+
+describe("splitPerlStatements", () => {
+  test("splits at blocks but keeps hash subscripts", () => {
+    expect(
+      splitPerlStatements(
+        "if ($ENV{X}) { print 'a;b'; } else { my $h = { a => 1 }; }"
+      )
+    ).toEqual(["if ($ENV{X})", "print 'a;b'", "else", "my $h = { a => 1 }"]);
+  });
+});
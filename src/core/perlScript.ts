@@ -0,0 +1,685 @@
+import path from "path";
+import { resolveUnixPath } from "./pathUtils";
+import {
+  FileAccess,
+  isSystemCommand,
+  stripHereDocuments,
+  UnresolvedReference,
+} from "./shellScript";
+import {
+  resolveCommand,
+  resolveCommandLine,
+  ShellExecution,
+  ShellRedirect,
+} from "./shellUtils";
+
+/** Lowercase modules that change the compiler instead of loading a file. */
+const PERL_PRAGMAS = new Set([
+  "autodie",
+  "base",
+  "bigint",
+  "bignum",
+  "bytes",
+  "charnames",
+  "constant",
+  "diagnostics",
+  "encoding",
+  "experimental",
+  "feature",
+  "fields",
+  "if",
+  "integer",
+  "less",
+  "lib",
+  "locale",
+  "open",
+  "overload",
+  "parent",
+  "re",
+  "sort",
+  "strict",
+  "subs",
+  "threads",
+  "utf8",
+  "vars",
+  "version",
+  "warnings",
+]);
+
+const CLOSING_DELIMITERS: Record<string, string> = {
+  "(": ")",
+  "[": "]",
+  "{": "}",
+  "<": ">",
+};
+
+export interface PerlExecution extends ShellExecution {
+  description: string;
+}
+
+export interface PerlScriptAnalysis {
+  executions: PerlExecution[];
+  readFiles: FileAccess[];
+  writeFiles: FileAccess[];
+  /** Modules loaded with `use`, `require`, `use parent` or `use base`. */
+  modules: string[];
+  /** Directories added to `@INC` with `use lib`, as absolute paths. */
+  libraryPaths: string[];
+  unresolved: UnresolvedReference[];
+}
+
+/** A failed evaluation names the variable without a value, if any. */
+type Evaluation = { value: string } | { reason: string; variable?: string };
+
+/**
+ * Reads a quoted construct like `qx{...}` or `q(...)` starting at its opening
+ * delimiter. Bracketing delimiters nest, others end at the next unescaped
+ * occurrence.
+ */
+function readDelimited(
+  text: string,
+  start: number
+): { content: string; end: number } | undefined {
+  const open = text[start];
+  const close = CLOSING_DELIMITERS[open] ?? open;
+  let depth = 0;
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\") {
+      i++;
+    } else if (open !== close && char === open) {
+      depth++;
+    } else if (char === close) {
+      if (depth === 0) return { content: text.slice(start + 1, i), end: i + 1 };
+      depth--;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits at separators outside of quotes and brackets, e.g. the arguments of
+ * a call at `,` or the alternatives of an expression at `||`.
+ */
+function splitTopLevel(text: string, separators: string[]): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = undefined;
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if ("([{".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char)) {
+      depth--;
+    } else if (depth === 0) {
+      const separator = separators.find((s) => text.startsWith(s, i));
+      if (separator) {
+        parts.push(text.slice(start, i).trim());
+        start = i + separator.length;
+        i = start - 1;
+      }
+    }
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter((part) => part !== "");
+}
+
+/**
+ * Replaces the content of string literals with spaces, keeping all offsets.
+ */
+function maskStrings(text: string): string {
+  let masked = "";
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\" && i + 1 < text.length) {
+        masked += "  ";
+        i++;
+        continue;
+      }
+      if (char === quote) {
+        quote = undefined;
+        masked += char;
+      } else {
+        masked += " ";
+      }
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") quote = char;
+    masked += char;
+  }
+  return masked;
+}
+
+/**
+ * Removes POD, `__END__`/`__DATA__` sections and `#` comments while keeping
+ * `#` inside strings and `$#array`.
+ */
+export function stripPerlComments(content: string): string {
+  const lines: string[] = [];
+  let inPod = false;
+  for (const line of content.split("\n")) {
+    if (/^__(END|DATA)__\b/.test(line)) break;
+    if (/^=[a-zA-Z]/.test(line)) {
+      inPod = !/^=cut\b/.test(line);
+      lines.push("");
+      continue;
+    }
+    if (inPod) {
+      lines.push("");
+      continue;
+    }
+
+    let quote: string | undefined;
+    let end = line.length;
+    for (let i = 0; i < line.length; i++) {
+      const char = line[i];
+      if (quote) {
+        if (char === "\\") i++;
+        else if (char === quote) quote = undefined;
+      } else if (char === "'" || char === '"' || char === "`") {
+        quote = char;
+      } else if (char === "#" && line[i - 1] !== "$") {
+        end = i;
+        break;
+      }
+    }
+    lines.push(line.slice(0, end));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Splits Perl code into statements at `;` and at the braces of blocks, so the
+ * body of `if (...) { ... }` is handled like top-level code. Braces of hash
+ * subscripts like `$ENV{HOME}` and anonymous hashes stay in their statement.
+ */
+export function splitPerlStatements(code: string): string[] {
+  const statements: string[] = [];
+  const blocks: boolean[] = [];
+  let current = "";
+  let quote: string | undefined;
+  let parens = 0;
+
+  const flush = () => {
+    if (current.trim() !== "") statements.push(current.trim());
+    current = "";
+  };
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i];
+    if (quote) {
+      current += char;
+      if (char === "\\" && i + 1 < code.length) {
+        current += code[++i];
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+    if (char === "'" || char === '"' || char === "`") {
+      quote = char;
+    } else if (char === "(") {
+      parens++;
+    } else if (char === ")") {
+      parens = Math.max(0, parens - 1);
+    } else if (parens === 0 && char === ";") {
+      flush();
+      continue;
+    } else if (parens === 0 && char === "{") {
+      const isBlock =
+        /(^|\)|\belse|\bdo|\beval|\bBEGIN|\bEND|\bsub(\s+[\w:]+)?)$/.test(
+          current.trim()
+        );
+      blocks.push(isBlock);
+      if (isBlock) {
+        flush();
+        continue;
+      }
+    } else if (parens === 0 && char === "}") {
+      if (blocks.pop()) {
+        flush();
+        continue;
+      }
+    }
+    current += char;
+  }
+  flush();
+
+  return statements;
+}
+
+/**
+ * Statically extracts the files a Perl script opens, the commands it runs via
+ * `system`, `exec`, backticks and `qx`, and the modules it loads. Scalar
+ * assignments are tracked in script order; `$ARGV[n]` and `$ENV{...}` resolve
+ * from the given arguments and environment, with `||`/`//` fallbacks used
+ * when they are not set.
+ */
+export function analyzePerlScript(
+  content: string,
+  options: {
+    pwd: string;
+    scriptPath: string;
+    args?: string[];
+    env?: Record<string, string>;
+  }
+): PerlScriptAnalysis {
+  const argv = [...(options.args ?? [])];
+  const env = options.env ?? {};
+  const variables = new Map<string, Evaluation>();
+  const scriptDirectory = path.posix.dirname(options.scriptPath);
+  let pwd = options.pwd;
+  const result: PerlScriptAnalysis = {
+    executions: [],
+    readFiles: [],
+    writeFiles: [],
+    modules: [],
+    libraryPaths: [],
+    unresolved: [],
+  };
+
+  const interpolate = (text: string): Evaluation => {
+    let value = "";
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === "\\" && i + 1 < text.length) {
+        value += text[++i];
+        continue;
+      }
+      const variable = text
+        .slice(i)
+        .match(
+          /^\$(?:\{(\w+)\}|(\w+(?:::\w+)*))(\[\d+\]|\{\s*['"]?\w+['"]?\s*\})?/
+        );
+      if (char !== "$" || !variable) {
+        value += char;
+        continue;
+      }
+      const term = evaluateTerm(
+        `$${variable[1] ?? variable[2]}${variable[3] ?? ""}`
+      );
+      if ("reason" in term) return term;
+      value += term.value;
+      i += variable[0].length - 1;
+    }
+    return { value };
+  };
+
+  const evaluateTerm = (term: string): Evaluation => {
+    term = term.trim();
+    while (term.startsWith("(") && term.endsWith(")")) {
+      term = term.slice(1, -1).trim();
+    }
+
+    if (term.startsWith("'") && term.endsWith("'") && term.length > 1) {
+      return { value: term.slice(1, -1).replace(/\\(['\\])/g, "$1") };
+    }
+    if (term.startsWith('"') && term.endsWith('"') && term.length > 1) {
+      return interpolate(term.slice(1, -1));
+    }
+    const quoted = term.match(/^(qq|q)\s*([^\w\s])/);
+    if (quoted) {
+      const delimited = readDelimited(term, quoted[0].length - 1);
+      if (delimited && delimited.end === term.length) {
+        return quoted[1] === "q"
+          ? { value: delimited.content }
+          : interpolate(delimited.content);
+      }
+    }
+
+    const argument = term.match(/^\$ARGV\[(\d+)\]$/);
+    if (argument) {
+      const value = argv[Number(argument[1])];
+      return value !== undefined
+        ? { value }
+        : {
+            reason: `$ARGV[${argument[1]}] is not set`,
+            variable: `ARGV[${argument[1]}]`,
+          };
+    }
+    const environment = term.match(/^\$ENV\{\s*['"]?(\w+)['"]?\s*\}$/);
+    if (environment) {
+      const value = env[environment[1]];
+      return value !== undefined
+        ? { value }
+        : {
+            reason: `Unknown environment variable ${environment[1]}`,
+            variable: environment[1],
+          };
+    }
+    if (/^\$FindBin::(Real)?Bin$/.test(term)) {
+      return { value: scriptDirectory };
+    }
+    if (term === "$0" || term === "__FILE__") {
+      return { value: options.scriptPath };
+    }
+    const scalar = term.match(/^\$(\w+)$/);
+    if (scalar) {
+      return (
+        variables.get(scalar[1]) ?? {
+          reason: `Unknown variable $${scalar[1]}`,
+          variable: scalar[1],
+        }
+      );
+    }
+    return { reason: `Unsupported expression ${term}` };
+  };
+
+  /** Evaluates `a || b`, `a // b` and `a or b`, falling back in order. */
+  const evaluate = (expression: string): Evaluation => {
+    let failure: Evaluation | undefined;
+    for (const alternative of splitTopLevel(expression, ["||", "//", " or "])) {
+      let value = "";
+      let failed: Evaluation | undefined;
+      for (const term of splitTopLevel(alternative, ["."])) {
+        const evaluation = evaluateTerm(term);
+        if ("reason" in evaluation) {
+          failed = evaluation;
+          break;
+        }
+        value += evaluation.value;
+      }
+      if (failed === undefined) return { value };
+      failure = failure ?? failed;
+    }
+    return failure ?? { reason: `Empty expression` };
+  };
+
+  const unresolved = (
+    expression: string,
+    failure: { reason: string; variable?: string },
+    action?: UnresolvedReference["action"]
+  ) => {
+    result.unresolved.push({
+      value: expression,
+      reason: failure.reason,
+      variables: failure.variable ? [failure.variable] : [],
+      ...(action ? { action } : {}),
+    });
+  };
+
+  const access = (
+    files: FileAccess[],
+    expression: string,
+    evaluation: Evaluation,
+    description: string
+  ) => {
+    if ("reason" in evaluation) {
+      const action = files === result.writeFiles ? "write" : "read";
+      unresolved(expression, evaluation, action);
+      return;
+    }
+    if (evaluation.value === "-") return;
+    const filePath = resolveUnixPath(pwd, evaluation.value);
+    if (!files.some((file) => file.path === filePath)) {
+      files.push({ path: filePath, description });
+    }
+  };
+
+  const addCommand = (
+    resolved: { executions: ShellExecution[]; redirects: ShellRedirect[] },
+    description: string
+  ) => {
+    for (const execution of resolved.executions) {
+      if (isSystemCommand(execution.path)) continue;
+      result.executions.push({ ...execution, description });
+    }
+    for (const redirect of resolved.redirects) {
+      const files =
+        redirect.action === "read" ? result.readFiles : result.writeFiles;
+      access(files, redirect.path, { value: redirect.path }, description);
+    }
+  };
+
+  /** Runs a command given as one shell string or as a list of words. */
+  const runCommand = (words: string[], description: string) => {
+    if (words.length === 1) {
+      addCommand(resolveCommandLine(words[0], pwd, env), description);
+    } else if (words.length > 1) {
+      addCommand(resolveCommand(words, pwd, env), description);
+    }
+  };
+
+  const runExpressions = (expressions: string[], description: string) => {
+    const words: string[] = [];
+    for (const expression of expressions) {
+      const evaluation = evaluate(expression);
+      if ("reason" in evaluation) {
+        unresolved(expression, evaluation, "execute");
+        return;
+      }
+      words.push(evaluation.value);
+    }
+    runCommand(words, description);
+  };
+
+  /** The argument list of a call with or without parentheses. */
+  const callArguments = (statement: string, start: number): string[] => {
+    const rest = statement.slice(start).trimStart();
+    if (rest.startsWith("(")) {
+      const delimited = readDelimited(rest, 0);
+      return splitTopLevel(delimited?.content ?? rest.slice(1), [","]);
+    }
+    const [list] = splitTopLevel(rest, [" or ", "||", " and ", "&&"]);
+    return splitTopLevel(list ?? "", [","]);
+  };
+
+  const handleOpen = (args: string[]) => {
+    if (args.length >= 3) {
+      const mode = evaluate(args[1]);
+      if ("reason" in mode) {
+        unresolved(args[1], mode);
+        return;
+      }
+      if (mode.value.includes("|")) {
+        runExpressions(args.slice(2), "Pipe opened by the script");
+      } else if (/[>+]/.test(mode.value)) {
+        access(
+          result.writeFiles,
+          args[2],
+          evaluate(args[2]),
+          "Opened for writing"
+        );
+      } else {
+        access(
+          result.readFiles,
+          args[2],
+          evaluate(args[2]),
+          "Opened for reading"
+        );
+      }
+      return;
+    }
+    if (args.length !== 2) return;
+
+    // Two-argument open carries the mode in the file name.
+    const spec = evaluate(args[1]);
+    if ("reason" in spec) {
+      unresolved(args[1], spec);
+      return;
+    }
+    const trimmed = spec.value.trim();
+    const pipe = trimmed.match(/^\|\s*(.+)$|^(.+?)\s*\|$/);
+    if (pipe) {
+      runCommand([pipe[1] ?? pipe[2]], "Pipe opened by the script");
+      return;
+    }
+    const [, mode, file] = trimmed.match(/^(\+?[<>]{0,2})\s*(.*)$/)!;
+    const files = /[>+]/.test(mode) ? result.writeFiles : result.readFiles;
+    access(
+      files,
+      args[1],
+      { value: file },
+      files === result.writeFiles ? "Opened for writing" : "Opened for reading"
+    );
+  };
+
+  const handleStatement = (statement: string) => {
+    const lib = statement.match(/^use\s+lib\s+([\s\S]+)$/);
+    if (lib) {
+      const list = lib[1].match(/^qw\s*([^\w\s])/);
+      const expressions = list
+        ? (readDelimited(lib[1], list[0].length - 1)?.content ?? "")
+            .split(/\s+/)
+            .filter(Boolean)
+            .map((dir) => `'${dir}'`)
+        : splitTopLevel(lib[1], [","]);
+      for (const expression of expressions) {
+        const dir = evaluate(expression);
+        if ("reason" in dir) {
+          unresolved(expression, dir);
+        } else {
+          result.libraryPaths.push(resolveUnixPath(pwd, dir.value));
+        }
+      }
+      return;
+    }
+
+    const parent = statement.match(/^use\s+(?:parent|base)\s+([\s\S]+)$/);
+    if (parent) {
+      const names = parent[1].match(/[A-Za-z_][\w]*(?:::\w+)*/g) ?? [];
+      for (const name of names) {
+        if (name !== "qw" && name !== "norequire") result.modules.push(name);
+      }
+      return;
+    }
+
+    const module = statement.match(
+      /^(?:use|require|no)\s+([A-Za-z_]\w*(?:::\w+)*)/
+    );
+    if (module) {
+      if (!statement.startsWith("no") && !PERL_PRAGMAS.has(module[1])) {
+        result.modules.push(module[1]);
+      }
+      return;
+    }
+
+    const required = statement.match(/^(?:require|do)\b\s*(.+)$/s);
+    if (required) {
+      const file = evaluate(required[1]);
+      if ("reason" in file) {
+        unresolved(required[1], file, "execute");
+      } else {
+        result.executions.push({
+          pwd,
+          path: file.value,
+          args: [],
+          description: "Loaded by the script",
+        });
+      }
+      return;
+    }
+
+    const listAssignment = statement.match(
+      /^(?:my|our|local)?\s*\(([^)]*)\)\s*=\s*@ARGV$/
+    );
+    if (listAssignment) {
+      listAssignment[1].split(",").forEach((name, index) => {
+        const variable = name.trim().match(/^\$(\w+)$/);
+        if (!variable) return;
+        variables.set(
+          variable[1],
+          argv[index] !== undefined
+            ? { value: argv[index] }
+            : {
+                reason: `$ARGV[${index}] is not set`,
+                variable: `ARGV[${index}]`,
+              }
+        );
+      });
+      return;
+    }
+
+    const assignment = statement.match(
+      /^(?:my|our|local)?\s*\$(\w+)\s*=(?![=~])\s*([\s\S]+)$/
+    );
+    if (assignment) {
+      const expression = assignment[2].trim();
+      if (/^shift\s*\(?\s*@ARGV\s*\)?$/.test(expression)) {
+        const value = argv.shift();
+        variables.set(
+          assignment[1],
+          value !== undefined
+            ? { value }
+            : { reason: "@ARGV is empty", variable: "ARGV" }
+        );
+      } else {
+        variables.set(assignment[1], evaluate(expression));
+      }
+    }
+
+    // Keywords inside strings, e.g. in `die "cannot open"`, are no calls.
+    const code = maskStrings(statement);
+
+    const chdir = code.match(/\bchdir\b/);
+    if (chdir) {
+      const [target] = callArguments(statement, chdir.index! + 5);
+      const dir = target ? evaluate(target) : undefined;
+      if (dir && "reason" in dir) {
+        unresolved(target, dir);
+      } else if (dir) {
+        pwd = resolveUnixPath(pwd, dir.value);
+      }
+    }
+
+    const open = code.match(/\bopen\b/);
+    if (open) {
+      handleOpen(callArguments(statement, open.index! + 4));
+    }
+
+    const system = code.match(/\b(system|exec)\b/);
+    if (system) {
+      runExpressions(
+        callArguments(statement, system.index! + system[1].length),
+        `Executed via ${system[1]}`
+      );
+    }
+
+    const commands = [
+      ...[...statement.matchAll(/`((?:\\.|[^`\\])*)`/g)].map((m) => ({
+        text: m[1],
+        interpolated: true,
+        description: "Executed via backticks",
+      })),
+      ...[...code.matchAll(/\bqx\s*([^\w\s])/g)].flatMap((m) => {
+        const delimited = readDelimited(statement, m.index! + m[0].length - 1);
+        return delimited
+          ? [
+              {
+                text: delimited.content,
+                interpolated: m[1] !== "'",
+                description: "Executed via qx",
+              },
+            ]
+          : [];
+      }),
+    ];
+    for (const command of commands) {
+      const evaluation = command.interpolated
+        ? interpolate(command.text)
+        : { value: command.text };
+      if ("reason" in evaluation) {
+        unresolved(command.text, evaluation, "execute");
+      } else {
+        runCommand([evaluation.value], command.description);
+      }
+    }
+  };
+
+  const code = stripPerlComments(stripHereDocuments(content));
+  for (const statement of splitPerlStatements(code)) {
+    handleStatement(statement);
+  }
+
+  return result;
+}
@@ -0,0 +1,42 @@
+import { selectPromptExtensions } from "./promptExtensions";
+
+describe("selectPromptExtensions", () => {
+  const extensions = [
+    { text: "All scripts run as the batch user." },
+    {
+      languages: ["perl" as const],
+      text: "mailsenden always writes to /var/spool/mail.",
+    },
+    { paths: ["/opt/app/jobs/**"], text: "Jobs run from /opt/app." },
+    {
+      languages: ["shell" as const],
+      paths: ["/opt/app/jobs/*.sh"],
+      text: "Job scripts source /opt/app/env.sh.",
+    },
+  ];
+
+  test("matches languages and path patterns", () => {
+    expect(
+      selectPromptExtensions(extensions, "/opt/app/bin/mail.pl", "perl")
+    ).toEqual([
+      "All scripts run as the batch user.",
+      "mailsenden always writes to /var/spool/mail.",
+    ]);
+    expect(
+      selectPromptExtensions(extensions, "/opt/app/jobs/nightly.sh", "shell")
+    ).toEqual([
+      "All scripts run as the batch user.",
+      "Jobs run from /opt/app.",
+      "Job scripts source /opt/app/env.sh.",
+    ]);
+  });
+
+  test("skips language-specific texts for unknown languages", () => {
+    expect(
+      selectPromptExtensions(extensions, "/opt/app/jobs/nightly", undefined)
+    ).toEqual([
+      "All scripts run as the batch user.",
+      "Jobs run from /opt/app.",
+    ]);
+  });
+});
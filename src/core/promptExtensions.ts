@@ -0,0 +1,36 @@
+import { globToRegExp } from "./glob";
+import { ScriptLanguage } from "./language";
+
+/**
+ * Site-specific knowledge for the model, e.g. that an in-house module always
+ * writes to a fixed directory.
+ */
+export interface PromptExtension {
+  /** Languages the text applies to, every language when missing. */
+  languages?: ScriptLanguage[];
+  /** Globs of production paths the text applies to, every file when missing. */
+  paths?: string[];
+  text: string;
+}
+
+/**
+ * Selects the texts of the extensions that apply to a file, in configuration
+ * order. An extension with both languages and paths needs both to match.
+ */
+export function selectPromptExtensions(
+  extensions: PromptExtension[],
+  absolutePath: string,
+  language: ScriptLanguage | undefined
+): string[] {
+  return extensions
+    .filter(
+      (extension) =>
+        (!extension.languages ||
+          (!!language && extension.languages.includes(language))) &&
+        (!extension.paths ||
+          extension.paths.some((pattern) =>
+            globToRegExp(pattern).test(absolutePath)
+          ))
+    )
+    .map((extension) => extension.text);
+}
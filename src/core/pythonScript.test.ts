@@ -0,0 +1,101 @@
+import {
+  analyzePythonScript,
+  importedModules,
+  pythonModuleCandidates,
+} from "./pythonScript";
+
+describe("analyzePythonScript", () => {
+  const options = {
+    pwd: "/root",
+    scriptPath: "/opt/app/backup.py",
+    args: ["--config", "/etc/config/backup.json"],
+  };
+
+  test("resolves opened files from arguments, environment and fallbacks", () => {
+    const content = [
+      "import os, sys",
+      "from pathlib import Path",
+      'BASE = os.environ.get("APP_HOME", "/opt/app")',
+      "CONFIG = sys.argv[2]",
+      "with open(CONFIG) as f:",
+      "    data = f.read()",
+      'log = open(os.path.join("/var/log", "backup.log"), mode="a")',
+      'Path(f"{BASE}/state.json").read_text()',
+      '(Path(__file__).parent / "done.flag").write_text("ok")',
+      "open(os.environ['TARGET'], 'w')",
+      'print("open(not_a_call)")',
+    ].join("\n");
+
+    const result = analyzePythonScript(content, options);
+
+    expect(result.readFiles.map((f) => f.path)).toEqual([
+      "/etc/config/backup.json",
+      "/opt/app/state.json",
+    ]);
+    expect(result.writeFiles.map((f) => f.path)).toEqual([
+      "/var/log/backup.log",
+      "/opt/app/done.flag",
+    ]);
+    expect(result.unresolved).toEqual([
+      {
+        value: "os.environ['TARGET']",
+        reason: "Unknown environment variable TARGET",
+        variables: ["TARGET"],
+        action: "write",
+      },
+    ]);
+  });
+
+  test("collects commands from subprocess and os", () => {
+    const content = [
+      "import os",
+      "import subprocess as sp",
+      "from os import system",
+      'sp.run(["/opt/app/bin/sync.sh", "--all"], check=True)',
+      'sp.check_call("cd /opt/app && ./bin/rotate.sh", shell=True)',
+      'system("./cleanup.sh -v")',
+      'os.execv("/opt/app/bin/run", ["run", "nightly"])',
+      'sp.run(["ls", "-l"])',
+    ].join("\n");
+
+    const result = analyzePythonScript(content, options);
+
+    expect(result.executions.map((e) => [e.pwd, e.path, e.args])).toEqual([
+      ["/root", "/opt/app/bin/sync.sh", ["--all"]],
+      ["/opt/app", "./bin/rotate.sh", []],
+      ["/root", "./cleanup.sh", ["-v"]],
+      ["/root", "/opt/app/bin/run", ["nightly"]],
+    ]);
+  });
+
+  test("collects absolute and relative imports", () => {
+    const content = [
+      "import json, app.jobs as jobs",
+      "from app.lib import config, util as u",
+      "from .. import shared",
+    ].join("\n");
+
+    const result = analyzePythonScript(content, options);
+
+    expect(result.imports).toEqual([
+      { module: "json", level: 0, names: [] },
+      { module: "app.jobs", level: 0, names: [] },
+      { module: "app.lib", level: 0, names: ["config", "util"] },
+      { module: "", level: 2, names: ["shared"] },
+    ]);
+    expect(importedModules(result.imports[2])).toEqual([
+      "app.lib",
+      "app.lib.config",
+      "app.lib.util",
+    ]);
+  });
+});
+
+describe("pythonModuleCandidates", () => {
+  test("tries the module file before the package", () => {
+    expect(pythonModuleCandidates("/opt/app/lib", "app.jobs")).toEqual([
+      "/opt/app/lib/app/jobs.py",
+      "/opt/app/lib/app/jobs/__init__.py",
+    ]);
+  });
+});
@@ -0,0 +1,596 @@
+import path from "path";
+import { SyntaxNode } from "@lezer/common";
+import { parser } from "@lezer/python";
+import { resolveUnixPath } from "./pathUtils";
+import {
+  FileAccess,
+  isSystemCommand,
+  UnresolvedReference,
+} from "./shellScript";
+import {
+  resolveCommand,
+  resolveCommandLine,
+  ShellExecution,
+  ShellRedirect,
+} from "./shellUtils";
+
+const SUBPROCESS_FUNCTIONS = new Set([
+  "subprocess.run",
+  "subprocess.call",
+  "subprocess.check_call",
+  "subprocess.check_output",
+  "subprocess.Popen",
+  "subprocess.getoutput",
+  "subprocess.getstatusoutput",
+]);
+
+const SHELL_FUNCTIONS = new Set(["os.system", "os.popen"]);
+
+const OPEN_FUNCTIONS = new Set(["open", "io.open", "codecs.open"]);
+
+const PATH_CONSTRUCTORS = new Set([
+  "Path",
+  "PurePath",
+  "PosixPath",
+  "pathlib.Path",
+  "pathlib.PurePath",
+  "pathlib.PosixPath",
+]);
+
+const PATH_METHODS: Record<string, "read" | "write"> = {
+  read_text: "read",
+  read_bytes: "read",
+  write_text: "write",
+  write_bytes: "write",
+};
+
+export interface PythonExecution extends ShellExecution {
+  description: string;
+}
+
+export interface PythonImport {
+  /** Dotted module name, empty for `from . import x`. */
+  module: string;
+  /** Number of leading dots of a relative import. */
+  level: number;
+  /** Names imported with `from ... import`, which may be submodules. */
+  names: string[];
+}
+
+export interface PythonScriptAnalysis {
+  executions: PythonExecution[];
+  readFiles: FileAccess[];
+  writeFiles: FileAccess[];
+  imports: PythonImport[];
+  unresolved: UnresolvedReference[];
+}
+
+/** A failed evaluation names the variable without a value, if any. */
+type Evaluation = { value: string } | { reason: string; variable?: string };
+
+function children(node: SyntaxNode): SyntaxNode[] {
+  const result: SyntaxNode[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    result.push(child);
+  }
+  return result;
+}
+
+/** Joins paths like `os.path.join`, an absolute part discards the previous. */
+function joinPaths(parts: string[]): string {
+  return parts.reduce((joined, part) =>
+    part.startsWith("/") ? part : path.posix.join(joined, part)
+  );
+}
+
+/**
+ * Reads the value of a string literal, honoring prefixes like `r` or `b` and
+ * triple quotes.
+ */
+function parseStringLiteral(text: string): string {
+  const [, prefix, quote] = text.match(/^([rRbBuU]*)('''|"""|'|")/)!;
+  const body = text.slice(prefix.length + quote.length, -quote.length);
+  if (/r/i.test(prefix)) return body;
+  return body.replace(/\\(.)/g, (_, char: string) =>
+    char === "n" ? "\n" : char === "t" ? "\t" : char
+  );
+}
+
+/**
+ * Statically extracts the files a Python script opens, the commands it runs
+ * via `subprocess` or `os` and the modules it imports, using the Lezer Python
+ * grammar. Module-level assignments are tracked in document order;
+ * `sys.argv[n]`, `os.environ` and `os.getenv` resolve from the given
+ * arguments and environment, with `or`/default fallbacks when they are not
+ * set.
+ */
+export function analyzePythonScript(
+  content: string,
+  options: {
+    pwd: string;
+    scriptPath: string;
+    args?: string[];
+    env?: Record<string, string>;
+  }
+): PythonScriptAnalysis {
+  const env = options.env ?? {};
+  const args = options.args ?? [];
+  const variables = new Map<string, Evaluation>();
+  // Local names of imported modules and functions, e.g. `sp` → `subprocess`.
+  const aliases = new Map<string, string>();
+  const result: PythonScriptAnalysis = {
+    executions: [],
+    readFiles: [],
+    writeFiles: [],
+    imports: [],
+    unresolved: [],
+  };
+
+  const text = (node: SyntaxNode) => content.slice(node.from, node.to);
+
+  /** The dotted name of a callee with import aliases resolved. */
+  const qualifiedName = (node: SyntaxNode): string | undefined => {
+    if (node.name === "VariableName") {
+      return aliases.get(text(node)) ?? text(node);
+    }
+    if (node.name === "MemberExpression") {
+      const [object, , property] = children(node);
+      if (property?.name !== "PropertyName") return undefined;
+      const objectName = qualifiedName(object);
+      return objectName ? `${objectName}.${text(property)}` : undefined;
+    }
+    return undefined;
+  };
+
+  /** Positional and keyword arguments of a call. */
+  const callArguments = (call: SyntaxNode) => {
+    const argList = call.getChild("ArgList");
+    const positional: SyntaxNode[] = [];
+    const keywords = new Map<string, SyntaxNode>();
+    const nodes = argList
+      ? children(argList).filter((n) => !["(", ")", ","].includes(n.name))
+      : [];
+    for (let i = 0; i < nodes.length; i++) {
+      if (nodes[i + 1]?.name === "AssignOp") {
+        keywords.set(text(nodes[i]), nodes[i + 2]);
+        i += 2;
+      } else {
+        positional.push(nodes[i]);
+      }
+    }
+    return { positional, keywords };
+  };
+
+  const evaluateAll = (nodes: SyntaxNode[]): Evaluation[] =>
+    nodes.map((node) => evaluate(node));
+
+  const evaluateCall = (call: SyntaxNode): Evaluation => {
+    const [callee] = children(call);
+    const name = qualifiedName(callee);
+    const { positional, keywords } = callArguments(call);
+
+    if (
+      name === "os.path.join" ||
+      (name && PATH_CONSTRUCTORS.has(name) && positional.length > 0)
+    ) {
+      const parts = evaluateAll(positional);
+      const failed = parts.find((part) => "reason" in part);
+      if (failed) return failed;
+      return {
+        value: joinPaths(
+          parts.map((part) => (part as { value: string }).value)
+        ),
+      };
+    }
+    if (name === "os.getenv" || name === "os.environ.get") {
+      const key = positional[0] && evaluate(positional[0]);
+      if (!key || "reason" in key) {
+        return key ?? { reason: "Missing environment variable name" };
+      }
+      if (env[key.value] !== undefined) return { value: env[key.value] };
+      const fallback = positional[1] ?? keywords.get("default");
+      return fallback
+        ? evaluate(fallback)
+        : {
+            reason: `Unknown environment variable ${key.value}`,
+            variable: key.value,
+          };
+    }
+    if (
+      name === "str" ||
+      name === "os.path.abspath" ||
+      name === "os.path.realpath" ||
+      name === "os.path.normpath"
+    ) {
+      return positional[0]
+        ? evaluate(positional[0])
+        : { reason: `Unsupported call ${text(call)}` };
+    }
+    if (name === "os.path.dirname" && positional[0]) {
+      const value = evaluate(positional[0]);
+      return "reason" in value
+        ? value
+        : { value: path.posix.dirname(value.value) };
+    }
+
+    // Methods of path objects that return the path itself.
+    if (callee.name === "MemberExpression") {
+      const [object, , property] = children(callee);
+      if (["resolve", "absolute", "expanduser"].includes(text(property))) {
+        return evaluate(object);
+      }
+    }
+    return { reason: `Unsupported call ${text(call)}` };
+  };
+
+  const evaluate = (node: SyntaxNode): Evaluation => {
+    switch (node.name) {
+      case "String":
+        return { value: parseStringLiteral(text(node)) };
+      case "FormatString": {
+        const [, prefix, quote] = text(node).match(
+          /^([a-zA-Z]*)('''|"""|'|")/
+        )!;
+        let value = "";
+        let position = node.from + prefix.length + quote.length;
+        for (const replacement of node.getChildren("FormatReplacement")) {
+          value += content.slice(position, replacement.from);
+          const expression = children(replacement).find(
+            (child) => !["{", "}"].includes(child.name)
+          );
+          const evaluation = expression
+            ? evaluate(expression)
+            : { reason: "Empty replacement field" };
+          if ("reason" in evaluation) return evaluation;
+          value += evaluation.value;
+          position = replacement.to;
+        }
+        value += content.slice(position, node.to - quote.length);
+        return { value: value.replace(/\{\{/g, "{").replace(/\}\}/g, "}") };
+      }
+      case "ParenthesizedExpression": {
+        const inner = children(node).find(
+          (child) => !["(", ")"].includes(child.name)
+        );
+        return inner ? evaluate(inner) : { reason: "Empty expression" };
+      }
+      case "VariableName": {
+        const name = text(node);
+        if (name === "__file__") return { value: options.scriptPath };
+        return (
+          variables.get(name) ?? {
+            reason: `Unknown variable ${name}`,
+            variable: name,
+          }
+        );
+      }
+      case "BinaryExpression": {
+        const [left, operator, right] = children(node);
+        const op = text(operator);
+        if (op === "or") {
+          const first = evaluate(left);
+          return "reason" in first ? evaluate(right) : first;
+        }
+        if (op !== "+" && op !== "/") break;
+        const a = evaluate(left);
+        if ("reason" in a) return a;
+        const b = evaluate(right);
+        if ("reason" in b) return b;
+        // `/` joins pathlib paths.
+        return {
+          value: op === "+" ? a.value + b.value : joinPaths([a.value, b.value]),
+        };
+      }
+      case "ConditionalExpression": {
+        const parts = children(node).filter(
+          (child) => !["if", "else"].includes(child.name)
+        );
+        const first = evaluate(parts[0]);
+        return "reason" in first && parts[2] ? evaluate(parts[2]) : first;
+      }
+      case "CallExpression":
+        return evaluateCall(node);
+      case "MemberExpression": {
+        const parts = children(node);
+        const objectName = qualifiedName(parts[0]);
+        if (parts[1]?.name === "[") {
+          const index = evaluateSubscript(parts[2]);
+          if (objectName === "sys.argv" && index !== undefined) {
+            // `sys.argv[0]` is the script itself.
+            const value =
+              index === "0" ? options.scriptPath : args[Number(index) - 1];
+            return value !== undefined
+              ? { value }
+              : {
+                  reason: `sys.argv[${index}] is not set`,
+                  variable: `sys.argv[${index}]`,
+                };
+          }
+          if (objectName === "os.environ" && index !== undefined) {
+            return env[index] !== undefined
+              ? { value: env[index] }
+              : {
+                  reason: `Unknown environment variable ${index}`,
+                  variable: index,
+                };
+          }
+          break;
+        }
+        if (parts[2] && text(parts[2]) === "parent") {
+          const object = evaluate(parts[0]);
+          return "reason" in object
+            ? object
+            : { value: path.posix.dirname(object.value) };
+        }
+        break;
+      }
+    }
+    return { reason: `Unsupported expression ${text(node)}` };
+  };
+
+  const evaluateSubscript = (node: SyntaxNode | undefined) => {
+    if (!node) return undefined;
+    if (node.name === "Number") return text(node);
+    const value = evaluate(node);
+    return "reason" in value ? undefined : value.value;
+  };
+
+  const unresolved = (
+    node: SyntaxNode,
+    failure: { reason: string; variable?: string },
+    action?: UnresolvedReference["action"]
+  ) => {
+    result.unresolved.push({
+      value: text(node),
+      reason: failure.reason,
+      variables: failure.variable ? [failure.variable] : [],
+      ...(action ? { action } : {}),
+    });
+  };
+
+  const access = (
+    files: FileAccess[],
+    node: SyntaxNode,
+    description: string
+  ) => {
+    const evaluation = evaluate(node);
+    if ("reason" in evaluation) {
+      const action = files === result.writeFiles ? "write" : "read";
+      unresolved(node, evaluation, action);
+      return;
+    }
+    const filePath = resolveUnixPath(options.pwd, evaluation.value);
+    if (!files.some((file) => file.path === filePath)) {
+      files.push({ path: filePath, description });
+    }
+  };
+
+  const addCommand = (
+    resolved: { executions: ShellExecution[]; redirects: ShellRedirect[] },
+    description: string
+  ) => {
+    for (const execution of resolved.executions) {
+      if (isSystemCommand(execution.path)) continue;
+      result.executions.push({ ...execution, description });
+    }
+    for (const redirect of resolved.redirects) {
+      const files =
+        redirect.action === "read" ? result.readFiles : result.writeFiles;
+      if (!files.some((file) => file.path === redirect.path)) {
+        files.push({ path: redirect.path, description });
+      }
+    }
+  };
+
+  /** Evaluates a command given as a list of words or as one string. */
+  const runCommand = (
+    node: SyntaxNode,
+    description: string,
+    shell: boolean
+  ) => {
+    const elements =
+      node.name === "ArrayExpression" || node.name === "TupleExpression"
+        ? children(node).filter(
+            (child) => !["[", "]", "(", ")", ","].includes(child.name)
+          )
+        : [node];
+    const words: string[] = [];
+    for (const element of elements) {
+      const evaluation = evaluate(element);
+      if ("reason" in evaluation) {
+        unresolved(element, evaluation, "execute");
+        return;
+      }
+      words.push(evaluation.value);
+    }
+    if (shell || elements.length === 1) {
+      addCommand(
+        resolveCommandLine(words.join(" "), options.pwd, env),
+        description
+      );
+    } else {
+      addCommand(resolveCommand(words, options.pwd, env), description);
+    }
+  };
+
+  const handleCall = (call: SyntaxNode) => {
+    const [callee] = children(call);
+    const name = qualifiedName(callee);
+    const { positional, keywords } = callArguments(call);
+
+    if (name && OPEN_FUNCTIONS.has(name)) {
+      const file = positional[0] ?? keywords.get("file");
+      if (!file) return;
+      const modeNode = positional[1] ?? keywords.get("mode");
+      const mode = modeNode ? evaluate(modeNode) : { value: "r" };
+      const writes = "value" in mode && /[wax+]/.test(mode.value);
+      access(
+        writes ? result.writeFiles : result.readFiles,
+        file,
+        writes ? "Opened for writing" : "Opened for reading"
+      );
+      return;
+    }
+
+    if (name && SUBPROCESS_FUNCTIONS.has(name)) {
+      const command = positional[0] ?? keywords.get("args");
+      const shell = keywords.get("shell");
+      if (command) {
+        runCommand(
+          command,
+          `Executed via ${name}`,
+          !!shell && text(shell) === "True"
+        );
+      }
+      return;
+    }
+    if (name && SHELL_FUNCTIONS.has(name)) {
+      if (positional[0])
+        runCommand(positional[0], `Executed via ${name}`, true);
+      return;
+    }
+    if (name && /^os\.exec[lv]p?e?$/.test(name) && positional[0]) {
+      const program = evaluate(positional[0]);
+      if ("reason" in program) {
+        unresolved(positional[0], program, "execute");
+        return;
+      }
+      // `execv` takes an argv list, `execl` the arguments themselves; both
+      // start with argv[0].
+      const argNodes = !name.startsWith("os.execv")
+        ? positional.slice(1)
+        : positional[1]
+          ? children(positional[1]).filter(
+              (child) => !["[", "]", "(", ")", ","].includes(child.name)
+            )
+          : [];
+      const argValues = evaluateAll(argNodes.slice(1)).map((arg) =>
+        "value" in arg ? arg.value : ""
+      );
+      addCommand(
+        resolveCommand([program.value, ...argValues], options.pwd, env),
+        `Executed via ${name}`
+      );
+      return;
+    }
+
+    if (callee.name === "MemberExpression") {
+      const [object, , property] = children(callee);
+      const method = property ? text(property) : "";
+      const action = PATH_METHODS[method];
+      if (action) {
+        access(
+          action === "read" ? result.readFiles : result.writeFiles,
+          object,
+          action === "read" ? "Read by the script" : "Written by the script"
+        );
+      } else if (method === "open") {
+        // Only `Path(...).open()`, other objects have unrelated open methods.
+        const file = evaluate(object);
+        if ("value" in file) {
+          const modeNode = positional[0] ?? keywords.get("mode");
+          const mode = modeNode ? evaluate(modeNode) : { value: "r" };
+          const writes = "value" in mode && /[wax+]/.test(mode.value);
+          access(
+            writes ? result.writeFiles : result.readFiles,
+            object,
+            writes ? "Opened for writing" : "Opened for reading"
+          );
+        }
+      }
+    }
+  };
+
+  const handleImport = (statement: SyntaxNode) => {
+    const nodes = children(statement);
+    if (nodes[0]?.name === "import") {
+      // import a.b, c as d
+      let module = "";
+      for (let i = 1; i <= nodes.length; i++) {
+        const node = nodes[i];
+        if (!node || node.name === ",") {
+          if (module) result.imports.push({ module, level: 0, names: [] });
+          module = "";
+        } else if (node.name === "as") {
+          aliases.set(text(nodes[i + 1]), module);
+          i++;
+        } else {
+          module += text(node);
+        }
+      }
+      return;
+    }
+
+    // from ..a.b import c as d, e
+    const importIndex = nodes.findIndex((node) => node.name === "import");
+    const source = nodes.slice(1, importIndex).map(text).join("");
+    const level = source.match(/^\.*/)![0].length;
+    const module = source.slice(level);
+    const names: string[] = [];
+    for (let i = importIndex + 1; i < nodes.length; i++) {
+      const node = nodes[i];
+      if (node.name !== "VariableName") continue;
+      const name = text(node);
+      names.push(name);
+      const qualified = module ? `${module}.${name}` : name;
+      if (nodes[i + 1]?.name === "as") {
+        aliases.set(text(nodes[i + 2]), qualified);
+        i += 2;
+      } else {
+        aliases.set(name, qualified);
+      }
+    }
+    result.imports.push({ module, level, names });
+  };
+
+  const tree = parser.parse(content);
+  tree.iterate({
+    enter: (ref) => {
+      const node = ref.node;
+      switch (node.name) {
+        case "ImportStatement":
+          handleImport(node);
+          return false;
+        case "AssignStatement": {
+          const [target, operator, value] = children(node);
+          if (
+            target?.name === "VariableName" &&
+            operator?.name === "AssignOp" &&
+            text(operator) === "=" &&
+            value
+          ) {
+            variables.set(text(target), evaluate(value));
+          }
+          return;
+        }
+        case "CallExpression":
+          handleCall(node);
+          return;
+      }
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Modules an import may load: the module itself and, for
+ * `from package import name`, the submodule `package.name`, since `name` may
+ * be a submodule instead of an attribute.
+ */
+export function importedModules(pythonImport: PythonImport): string[] {
+  const modules = pythonImport.module ? [pythonImport.module] : [];
+  for (const name of pythonImport.names) {
+    modules.push(pythonImport.module ? `${pythonImport.module}.${name}` : name);
+  }
+  return modules;
+}
+
+/**
+ * Files that implement a dotted module below a search root, in the order
+ * Python tries them: `a/b.py`, then the package `a/b/__init__.py`.
+ */
+export function pythonModuleCandidates(root: string, module: string): string[] {
+  const base = resolveUnixPath(root, module.split(".").join("/"));
+  return [`${base}.py`, resolveUnixPath(base, "__init__.py")];
+}
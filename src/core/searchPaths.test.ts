@@ -0,0 +1,31 @@
+import { searchFile, splitSearchPath } from "./searchPaths";
+
+describe("searchFile", () => {
+  test("returns the first match and the locations tried", () => {
+    const existing = new Set([
+      "/usr/lib/perl5/Mail/Send.pm",
+      "/opt/lib/Mail/Send.pm",
+    ]);
+    const exists = (candidate: string) => existing.has(candidate);
+
+    expect(
+      searchFile(
+        ["Mail/Send.pm"],
+        ["/opt/app/lib", "/usr/lib/perl5", "/opt/lib"],
+        exists
+      )
+    ).toEqual({
+      path: "/usr/lib/perl5/Mail/Send.pm",
+      tried: ["/opt/app/lib/Mail/Send.pm", "/usr/lib/perl5/Mail/Send.pm"],
+    });
+    expect(
+      searchFile(
+        ["report"],
+        splitSearchPath("/opt/bin::/usr/local/bin"),
+        exists
+      )
+    ).toEqual({
+      tried: ["/opt/bin/report", "/usr/local/bin/report"],
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { resolveUnixPath } from "./pathUtils";
+
+/**
+ * Splits a `PATH`-like variable such as `PERL5LIB` or `PYTHONPATH` into its
+ * directories. Empty entries are skipped.
+ */
+export function splitSearchPath(value: string | undefined): string[] {
+  return (value ?? "").split(":").filter((dir) => dir !== "");
+}
+
+/**
+ * Looks up a relative file like `Mail/Send.pm` in the directories in order,
+ * the way an interpreter walks `@INC` or `PATH`. Returns the first candidate
+ * that exists and every candidate tried, including the match.
+ * @param exists - Whether a production path exists, e.g. via the path mappings
+ */
+export function searchFile(
+  relativePaths: string[],
+  directories: string[],
+  exists: (candidate: string) => boolean
+): { path?: string; tried: string[] } {
+  const tried: string[] = [];
+  for (const dir of [...new Set(directories)]) {
+    for (const relativePath of relativePaths) {
+      const candidate = resolveUnixPath(dir, relativePath);
+      if (tried.includes(candidate)) continue;
+      tried.push(candidate);
+      if (exists(candidate)) {
+        return { path: candidate, tried };
+      }
+    }
+  }
+  return { tried };
+}
@@ -0,0 +1,215 @@
+import { analyzeShellScript, stripHereDocuments } from "./shellScript";
+
+describe("analyzeShellScript", () => {
+  test("analyzes the example process script", () => {
+    const content = [
+      "#!/bin/bash",
+      'CONFIG_FILE="/var/data/main.conf"',
+      "source $CONFIG_FILE",
+      'INPUT_FILE="./example/data/input.txt"',
+      "cat $INPUT_FILE > /tmp/processing.tmp",
+      'OUTPUT_FILE="./example/data/output.log"',
+      'echo "Processing completed at $(date)" >> $OUTPUT_FILE',
+      "./example/scripts/helper.pl --input /tmp/processing.tmp",
+      "cp $BASE_DIR/template.txt ./example/data/result.txt",
+      "rm /tmp/processing.tmp",
+    ].join("\n");
+
+    const result = analyzeShellScript(content, { pwd: "/root" });
+
+    expect(result.readFiles.map((f) => f.path)).toEqual([
+      "/var/data/main.conf",
+      "/root/example/data/input.txt",
+    ]);
+    expect(result.writeFiles.map((f) => f.path)).toEqual([
+      "/tmp/processing.tmp",
+      "/root/example/data/output.log",
+      "/root/example/data/result.txt",
+    ]);
+    expect(result.executions).toEqual([
+      {
+        pwd: "/root",
+        path: "./example/scripts/helper.pl",
+        args: ["--input", "/tmp/processing.tmp"],
+      },
+    ]);
+    expect(result.unresolved).toEqual([
+      {
+        value: "$BASE_DIR/template.txt",
+        reason: "Unknown variable $BASE_DIR",
+        variables: ["BASE_DIR"],
+        action: "read",
+      },
+    ]);
+  });
+
+  test("tracks cd, exports and interpreters", () => {
+    const content = [
+      "export APP=/opt/app",
+      "cd $APP/bin",
+      ". ../lib/common.sh",
+      "perl ./report.pl --daily",
+      'nohup bash -c "./worker.sh" &',
+    ].join("\n");
+
+    const result = analyzeShellScript(content, { pwd: "/" });
+
+    expect(result.readFiles.map((f) => f.path)).toEqual([
+      "/opt/app/lib/common.sh",
+    ]);
+    expect(result.executions.map((e) => [e.pwd, e.path, e.args])).toEqual([
+      ["/opt/app/bin", "./report.pl", ["--daily"]],
+      ["/opt/app/bin", "./worker.sh", []],
+    ]);
+    expect(result.executions[0].env).toEqual({ APP: "/opt/app" });
+  });
+
+  test("returns bare command names with their PATH", () => {
+    const content = [
+      "PATH=/opt/app/bin:$PATH",
+      "main() {",
+      "  report-tool --daily",
+      "}",
+      "main",
+    ].join("\n");
+
+    const result = analyzeShellScript(content, {
+      pwd: "/",
+      env: { PATH: "/usr/bin" },
+    });
+
+    expect(result.executions).toEqual([
+      {
+        pwd: "/",
+        path: "report-tool",
+        args: ["--daily"],
+        searchPath: "/opt/app/bin:/usr/bin",
+      },
+    ]);
+  });
+
+  test("looks through wrappers like sudo, env and nohup", () => {
+    const content = [
+      "sudo -u app /opt/app/bin/sync.sh --full",
+      "env -u DEBUG LANG=C ./report.sh",
+      "nohup timeout -s KILL 30 ./worker.sh &",
+      "flock -w 5 /var/lock/app.lock ./import.sh",
+      "sudo cat /etc/app/secret.conf",
+    ].join("\n");
+
+    const result = analyzeShellScript(content, { pwd: "/opt/app" });
+
+    expect(result.executions.map((e) => [e.path, e.args])).toEqual([
+      ["/opt/app/bin/sync.sh", ["--full"]],
+      ["./report.sh", []],
+      ["./worker.sh", []],
+      ["./import.sh", []],
+    ]);
+    expect(result.readFiles.map((f) => f.path)).toEqual([
+      "/etc/app/secret.conf",
+    ]);
+  });
+
+  test("reports files edited in place as read and written", () => {
+    const content = [
+      "sed -i 's/^DEBUG=.*/DEBUG=0/' /etc/app.conf",
+      "sed --in-place=.bak -e 's/a/b/' ./data.txt",
+      "sed -n '/ERROR/p' /var/log/app.log",
+    ].join("\n");
+
+    const result = analyzeShellScript(content, { pwd: "/opt/app" });
+
+    expect(result.readFiles.map((f) => f.path)).toEqual([
+      "/etc/app.conf",
+      "/opt/app/data.txt",
+      "/var/log/app.log",
+    ]);
+    expect(result.writeFiles).toEqual([
+      { path: "/etc/app.conf", description: "Edited in place by sed" },
+      { path: "/opt/app/data.txt", description: "Edited in place by sed" },
+    ]);
+  });
+
+  test("expands unquoted and double-quoted words only", () => {
+    const content = [
+      "DIR=/opt/app",
+      "./archive.sh '$DIR/logs' \"$DIR/data\" \\$DIR $DIR/tmp",
+    ].join("\n");
+
+    const result = analyzeShellScript(content, { pwd: "/" });
+
+    expect(result.executions[0].args).toEqual([
+      "$DIR/logs",
+      "/opt/app/data",
+      "$DIR",
+      "/opt/app/tmp",
+    ]);
+  });
+
+  test("reports paths from script arguments as unresolved", () => {
+    const content = [
+      'source "$1"',
+      "cat ${2}/input.txt",
+      '"$@"',
+      "./report.sh $*",
+    ].join("\n");
+
+    const result = analyzeShellScript(content, { pwd: "/opt/app" });
+
+    expect(result.readFiles).toEqual([]);
+    expect(result.unresolved).toEqual([
+      {
+        value: "$1",
+        reason: "Script argument $1",
+        variables: ["1"],
+        action: "read",
+      },
+      {
+        value: "${2}/input.txt",
+        reason: "Script argument $2",
+        variables: ["2"],
+        action: "read",
+      },
+      {
+        value: "$@",
+        reason: "Script argument $@",
+        variables: ["@"],
+        action: "execute",
+      },
+    ]);
+    expect(result.executions).toEqual([
+      { pwd: "/opt/app", path: "./report.sh", args: ["$*"] },
+    ]);
+  });
+
+  test("skips system commands, keywords and here-documents", () => {
+    const content = [
+      'if [ -f "/etc/app.conf" ]; then',
+      "  /bin/rm -f /tmp/lock",
+      "  /usr/bin/rsync -a /opt/app /backup",
+      "fi",
+      "while read line; do",
+      "  ./handle.sh $line",
+      "done < /var/data/queue.txt",
+      "cat <<EOF > /tmp/report.txt",
+      "./not-a-command.sh",
+      "EOF",
+    ].join("\n");
+
+    const result = analyzeShellScript(content, { pwd: "/opt/app" });
+
+    expect(result.readFiles.map((f) => f.path)).toEqual([
+      "/var/data/queue.txt",
+    ]);
+    expect(result.writeFiles.map((f) => f.path)).toEqual(["/tmp/report.txt"]);
+    expect(result.executions.map((e) => e.path)).toEqual(["./handle.sh"]);
+  });
+});
+
+describe("stripHereDocuments", () => {
+  test("blanks out the body and keeps the line count", () => {
+    const content = "cat <<-'END'\n\tsecret\n\tEND\necho done";
+
+    expect(stripHereDocuments(content)).toBe("cat <<-'END'\n\n\necho done");
+  });
+});
@@ -0,0 +1,417 @@
+import path from "path";
+import { resolveUnixPath } from "./pathUtils";
+import {
+  expandWord,
+  findArguments,
+  findVariables,
+  parseAssignment,
+  parseSimpleCommand,
+  resolveCommand,
+  ShellExecution,
+  splitCommands,
+  tokenizeShell,
+  unwrapCommand,
+} from "./shellUtils";
+
+/**
+ * Builtins and system commands that never lead to files of the analyzed
+ * system, even when called with their full path like `/bin/rm`.
+ */
+export const SYSTEM_COMMANDS = new Set([
+  ".",
+  ":",
+  "[",
+  "[[",
+  "alias",
+  "basename",
+  "break",
+  "builtin",
+  "chmod",
+  "chown",
+  "command",
+  "continue",
+  "date",
+  "dirname",
+  "echo",
+  "eval",
+  "exit",
+  "false",
+  "find",
+  "getopts",
+  "hash",
+  "hostname",
+  "kill",
+  "let",
+  "ln",
+  "logger",
+  "ls",
+  "mkdir",
+  "printf",
+  "ps",
+  "pwd",
+  "read",
+  "return",
+  "rm",
+  "rmdir",
+  "set",
+  "shift",
+  "shopt",
+  "sleep",
+  "test",
+  "trap",
+  "true",
+  "type",
+  "ulimit",
+  "umask",
+  "unset",
+  "wait",
+  "whoami",
+]);
+
+/** Directories of system binaries, anything executed from there is skipped. */
+const SYSTEM_BIN_DIRECTORIES = new Set([
+  "/bin",
+  "/usr/bin",
+  "/sbin",
+  "/usr/sbin",
+]);
+
+/**
+ * Whether an executed path is a system command rather than a file of the
+ * analyzed system.
+ */
+export function isSystemCommand(commandPath: string): boolean {
+  return (
+    SYSTEM_COMMANDS.has(path.posix.basename(commandPath)) ||
+    SYSTEM_BIN_DIRECTORIES.has(path.posix.dirname(commandPath))
+  );
+}
+
+/** Commands that set variables of the current shell. */
+const DECLARATION_COMMANDS = new Set([
+  "export",
+  "readonly",
+  "local",
+  "declare",
+  "typeset",
+]);
+
+/** Commands that read all of their file operands. */
+const READING_COMMANDS = new Set([
+  "cat",
+  "head",
+  "tail",
+  "less",
+  "more",
+  "wc",
+  "sort",
+  "uniq",
+  "diff",
+  "cmp",
+  "md5sum",
+  "sha256sum",
+]);
+
+/** Commands whose first operand is a pattern or program, not a file. */
+const PATTERN_COMMANDS = new Set(["grep", "egrep", "fgrep", "sed", "awk"]);
+
+/** Commands that read all operands except the last one, which is written. */
+const COPYING_COMMANDS = new Set(["cp", "mv", "install"]);
+
+/** Commands that write all of their file operands. */
+const WRITING_COMMANDS = new Set(["tee", "touch"]);
+
+/** Reserved words that may precede a simple command. */
+const LEADING_KEYWORDS = new Set([
+  "if",
+  "then",
+  "else",
+  "elif",
+  "fi",
+  "do",
+  "done",
+  "while",
+  "until",
+  "esac",
+  "!",
+  "{",
+  "}",
+  "(",
+  ")",
+]);
+
+/** Compound commands whose header is not a command itself. */
+const SKIPPED_KEYWORDS = new Set(["for", "select", "case", "function"]);
+
+export interface FileAccess {
+  path: string;
+  description: string;
+}
+
+export interface UnresolvedReference {
+  /** The word as written after substituting known variables. */
+  value: string;
+  reason: string;
+  /**
+   * Variables without a known value, like `BASE_DIR`, `ARGV[1]` or `1` for
+   * the first argument of a shell script.
+   */
+  variables: string[];
+  /** How the path is used, unset for working directories and modes. */
+  action?: "read" | "write" | "execute";
+}
+
+export interface ShellScriptAnalysis {
+  /** Executed files with the variables the script exported to them. */
+  executions: (ShellExecution & { env?: Record<string, string> })[];
+  readFiles: FileAccess[];
+  writeFiles: FileAccess[];
+  unresolved: UnresolvedReference[];
+}
+
+/**
+ * Here-document bodies are data, not commands, so they are blanked out before
+ * tokenizing. Line breaks are kept to leave the command structure intact.
+ */
+export function stripHereDocuments(content: string): string {
+  const lines = content.split("\n");
+  const output: string[] = [];
+  let delimiter: RegExp | undefined;
+
+  for (const line of lines) {
+    if (delimiter) {
+      if (delimiter.test(line)) delimiter = undefined;
+      output.push("");
+      continue;
+    }
+    output.push(line);
+    const hereDocument = line.match(/<<([-~]?)\s*(['"]?)([A-Za-z_]\w*)\2/);
+    if (hereDocument) {
+      // `<<-` allows leading tabs, Perl's `<<~` any indentation.
+      const indent = { "": "", "-": "\\t*", "~": "\\s*" }[hereDocument[1]];
+      delimiter = new RegExp(`^${indent}${hereDocument[3]}\\s*$`);
+    }
+  }
+  return output.join("\n");
+}
+
+function describeDynamic(word: string): string | undefined {
+  const variables = findVariables(word);
+  if (variables.length > 0) {
+    return `Unknown variable ${variables.map((v) => `$${v}`).join(", ")}`;
+  }
+  const args = findArguments(word);
+  if (args.length > 0) {
+    return `Script argument ${args.map((a) => `$${a}`).join(", ")}`;
+  }
+  if (/\$\(|`/.test(word)) {
+    return "Command substitution";
+  }
+  return undefined;
+}
+
+/** Operands that look like files: options and plain words are skipped. */
+function fileOperands(args: string[]): string[] {
+  const separator = args.indexOf("--");
+  const operands =
+    separator === -1
+      ? args.filter((arg) => !arg.startsWith("-"))
+      : args.slice(separator + 1);
+  return operands.filter((arg) => /[/.]/.test(arg) && !/^\d+$/.test(arg));
+}
+
+/**
+ * Statically extracts the files a bash/sh script executes, reads and writes.
+ * Variable assignments and `cd` are tracked in script order, so
+ * `CONFIG_FILE=...; source $CONFIG_FILE` resolves to the assigned file.
+ * Single-quoted text is never expanded. Words that still depend on unknown
+ * variables, script arguments like `$1` or command substitutions are
+ * reported as unresolved instead of being guessed. Variables the script
+ * exports are attached to the executions that follow. Bare command names
+ * that are no system commands or functions of the script are returned with
+ * the `PATH` they are looked up in.
+ */
+export function analyzeShellScript(
+  content: string,
+  options: { pwd: string; env?: Record<string, string> }
+): ShellScriptAnalysis {
+  const env: Record<string, string> = { ...options.env };
+  const exported = new Set<string>();
+  // Functions of the script are called like bare commands.
+  const functions = new Set<string>();
+  let pwd = options.pwd;
+  const result: ShellScriptAnalysis = {
+    executions: [],
+    readFiles: [],
+    writeFiles: [],
+    unresolved: [],
+  };
+
+  const unresolved = (
+    word: string,
+    reason: string,
+    action?: UnresolvedReference["action"]
+  ) => {
+    result.unresolved.push({
+      value: word,
+      reason,
+      variables: [...findVariables(word), ...findArguments(word)],
+      ...(action ? { action } : {}),
+    });
+  };
+
+  const access = (files: FileAccess[], word: string, description: string) => {
+    const reason = describeDynamic(word);
+    if (reason) {
+      unresolved(word, reason, files === result.writeFiles ? "write" : "read");
+      return;
+    }
+    const filePath = resolveUnixPath(pwd, word);
+    if (!files.some((file) => file.path === filePath)) {
+      files.push({ path: filePath, description });
+    }
+  };
+
+  // Variables are expanded per command, so assignments apply in order.
+  const tokens = tokenizeShell(stripHereDocuments(content));
+  for (const command of splitCommands(tokens)) {
+    const expanded = command.map((token) =>
+      token.type === "word"
+        ? { ...token, value: expandWord(token, env) }
+        : token
+    );
+    const { words, redirects } = parseSimpleCommand(expanded);
+    for (const redirect of redirects) {
+      if (redirect.action === "read") {
+        access(result.readFiles, redirect.path, "Input redirect");
+      } else {
+        access(result.writeFiles, redirect.path, "Output redirect");
+      }
+    }
+
+    // Keywords, case patterns like `start)` and function headers like
+    // `main() {`.
+    while (
+      words.length > 0 &&
+      (LEADING_KEYWORDS.has(words[0]) || /^[^=]*\)$/.test(words[0]))
+    ) {
+      const header = words[0].match(/^([\w-]+)\(\)$/);
+      if (header) functions.add(header[1]);
+      words.shift();
+    }
+    if (words[0] === "function" && words[1]) {
+      functions.add(words[1].replace(/\(\)$/, ""));
+    }
+    if (words.length === 0 || SKIPPED_KEYWORDS.has(words[0])) continue;
+
+    if (words.every((word) => parseAssignment(word))) {
+      for (const word of words) {
+        const assignment = parseAssignment(word)!;
+        env[assignment.name] = assignment.value;
+      }
+      continue;
+    }
+    if (DECLARATION_COMMANDS.has(words[0])) {
+      const exports =
+        words[0] === "export" || words.some((word) => /^-\w*x/.test(word));
+      for (const word of words.slice(1)) {
+        const assignment = parseAssignment(word);
+        if (assignment) env[assignment.name] = assignment.value;
+        const name = assignment?.name ?? word;
+        if (exports && /^[A-Za-z_]\w*$/.test(name)) exported.add(name);
+      }
+      continue;
+    }
+
+    // Leading assignments only affect the environment of the command.
+    while (words.length > 0 && parseAssignment(words[0])) {
+      words.shift();
+    }
+    const [name, ...args] = unwrapCommand(words);
+    if (name === undefined) continue;
+    const commandName = path.posix.basename(name);
+
+    if (name === "cd") {
+      const target = args[0] ?? env.HOME;
+      const reason = target ? describeDynamic(target) : undefined;
+      if (reason) {
+        unresolved(target!, reason);
+      } else if (target) {
+        pwd = resolveUnixPath(pwd, target);
+      }
+      continue;
+    }
+
+    if (name === "source" || name === ".") {
+      if (args[0]) access(result.readFiles, args[0], "Sourced by the script");
+      continue;
+    }
+
+    if (READING_COMMANDS.has(commandName)) {
+      for (const operand of fileOperands(args)) {
+        access(result.readFiles, operand, `Read by ${commandName}`);
+      }
+      continue;
+    }
+    if (PATTERN_COMMANDS.has(commandName)) {
+      // `sed -i` edits its files in place, so they are written as well.
+      const inPlace =
+        commandName === "sed" &&
+        args.some((arg) => /^(-[A-Za-z]*i|--in-place)/.test(arg));
+      for (const operand of fileOperands(
+        args.filter((arg) => !arg.startsWith("-")).slice(1)
+      )) {
+        access(result.readFiles, operand, `Read by ${commandName}`);
+        if (inPlace) {
+          access(result.writeFiles, operand, "Edited in place by sed");
+        }
+      }
+      continue;
+    }
+    if (COPYING_COMMANDS.has(commandName)) {
+      const operands = fileOperands(args);
+      for (const operand of operands.slice(0, -1)) {
+        access(result.readFiles, operand, `Read by ${commandName}`);
+      }
+      if (operands.length > 1) {
+        access(
+          result.writeFiles,
+          operands[operands.length - 1],
+          `Written by ${commandName}`
+        );
+      }
+      continue;
+    }
+    if (WRITING_COMMANDS.has(commandName)) {
+      for (const operand of fileOperands(args)) {
+        access(result.writeFiles, operand, `Written by ${commandName}`);
+      }
+      continue;
+    }
+    if (SYSTEM_COMMANDS.has(commandName)) continue;
+
+    for (const execution of resolveCommand([name, ...args], pwd, env, {
+      bareCommands: true,
+    }).executions) {
+      const reason = describeDynamic(execution.path);
+      if (reason) {
+        unresolved(execution.path, reason, "execute");
+        continue;
+      }
+      if (isSystemCommand(execution.path)) continue;
+      if (execution.searchPath !== undefined && functions.has(execution.path)) {
+        continue;
+      }
+      const exportedEnv = Object.fromEntries(
+        [...exported]
+          .filter((name) => name in env)
+          .map((name) => [name, env[name]])
+      );
+      result.executions.push(
+        exported.size > 0 ? { ...execution, env: exportedEnv } : execution
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,453 @@
+import path from "path";
+import { resolveUnixPath } from "./pathUtils";
+
+/**
+ * A piece of a word as it was quoted: single-quoted and escaped text is
+ * literal, unquoted and double-quoted text expands variables.
+ */
+export interface WordPart {
+  text: string;
+  expand: boolean;
+}
+
+export type ShellToken =
+  | { type: "word"; value: string; parts: WordPart[] }
+  | { type: "operator"; value: string };
+
+const OPERATORS = [
+  "&&",
+  "||",
+  ";;",
+  ">>",
+  "&>",
+  ">&",
+  "<<",
+  ";",
+  "|",
+  "&",
+  ">",
+  "<",
+];
+
+/** Operators that separate two commands. */
+export const COMMAND_SEPARATORS = new Set(["&&", "||", ";", ";;", "|", "&"]);
+
+/** Operators that redirect input or output of a command. */
+export const REDIRECT_OPERATORS = new Set([">", ">>", "<", "&>", ">&"]);
+
+const VARIABLE_PATTERN =
+  /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))/g;
+
+/**
+ * Substitutes `$VAR` and `${VAR}` with values from the given environment.
+ * Unknown variables are left untouched so callers can detect them.
+ */
+export function expandVariables(
+  input: string,
+  env: Record<string, string>
+): string {
+  return input.replace(VARIABLE_PATTERN, (match, braced, plain) => {
+    const name = braced ?? plain;
+    return Object.prototype.hasOwnProperty.call(env, name) ? env[name] : match;
+  });
+}
+
+/**
+ * Returns the names of all variables still referenced in the input.
+ */
+export function findVariables(input: string): string[] {
+  return [...input.matchAll(VARIABLE_PATTERN)].map((m) => m[1] ?? m[2]);
+}
+
+const ARGUMENT_PATTERN = /\$(?:\{([1-9@*])\}|([1-9@*]))/g;
+
+/**
+ * Returns the script arguments referenced in the input, like `1` for `$1`
+ * or `@` for `"$@"`. They depend on the invocation and never have a value.
+ */
+export function findArguments(input: string): string[] {
+  return [...input.matchAll(ARGUMENT_PATTERN)].map((m) => m[1] ?? m[2]);
+}
+
+/**
+ * Expands the variables of a word known in `env`, leaving its single-quoted
+ * and escaped parts as written.
+ */
+export function expandWord(
+  token: Extract<ShellToken, { type: "word" }>,
+  env: Record<string, string>
+): string {
+  return token.parts
+    .map((part) => (part.expand ? expandVariables(part.text, env) : part.text))
+    .join("");
+}
+
+/**
+ * Splits a shell command line into words and operators, following the quoting
+ * rules of POSIX sh closely enough for static analysis:
+ * - single quotes keep their content literally
+ * - double quotes and unquoted words expand variables known in `env`
+ * - backslashes escape the next character outside of single quotes
+ * - `#` at the start of a word starts a comment
+ * - file descriptor prefixes like `2>` belong to the redirect operator
+ */
+export function tokenizeShell(
+  input: string,
+  env: Record<string, string> = {}
+): ShellToken[] {
+  const tokens: ShellToken[] = [];
+  let parts: WordPart[] = [];
+  let inWord = false;
+  let i = 0;
+
+  const append = (text: string, expand: boolean) => {
+    parts.push({ text: expand ? expandVariables(text, env) : text, expand });
+    inWord = true;
+  };
+  const currentWord = () => parts.map((part) => part.text).join("");
+  const pushWord = () => {
+    if (inWord) {
+      tokens.push({ type: "word", value: currentWord(), parts });
+    }
+    parts = [];
+    inWord = false;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      const stop = end === -1 ? input.length : end;
+      append(input.slice(i + 1, stop), false);
+      i = stop + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      let value = "";
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && i + 1 < input.length) {
+          append(value, true);
+          append(input[i + 1], false);
+          value = "";
+          i += 2;
+          continue;
+        }
+        value += input[i];
+        i++;
+      }
+      append(value, true);
+      i++;
+      continue;
+    }
+
+    if (char === "\\" && i + 1 < input.length) {
+      // Line continuations disappear, everything else is taken literally.
+      if (input[i + 1] !== "\n") {
+        append(input[i + 1], false);
+      }
+      i += 2;
+      continue;
+    }
+
+    if (char === "#" && !inWord) {
+      const end = input.indexOf("\n", i);
+      i = end === -1 ? input.length : end;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      pushWord();
+      if (char === "\n") {
+        tokens.push({ type: "operator", value: ";" });
+      }
+      i++;
+      continue;
+    }
+
+    // A word made only of digits directly before a redirect is a file
+    // descriptor, e.g. `2>` or `1>>`.
+    if (
+      (char === ">" || char === "<") &&
+      inWord &&
+      /^\d+$/.test(currentWord())
+    ) {
+      parts = [];
+      inWord = false;
+    }
+
+    const operator = OPERATORS.find((op) => input.startsWith(op, i));
+    if (operator) {
+      pushWord();
+      tokens.push({ type: "operator", value: operator });
+      i += operator.length;
+      continue;
+    }
+
+    // Collect unquoted text up to the next special character and expand it.
+    let end = i;
+    while (end < input.length && !/[\s'"\\;&|<>]/.test(input[end])) {
+      end++;
+    }
+    append(input.slice(i, end), true);
+    i = end;
+  }
+  pushWord();
+
+  return tokens;
+}
+
+/**
+ * Splits a token stream into simple commands at `;`, `&&`, `||`, `|` and `&`.
+ */
+export function splitCommands(tokens: ShellToken[]): ShellToken[][] {
+  const commands: ShellToken[][] = [];
+  let current: ShellToken[] = [];
+  for (const token of tokens) {
+    if (token.type === "operator" && COMMAND_SEPARATORS.has(token.value)) {
+      if (current.length > 0) commands.push(current);
+      current = [];
+    } else {
+      current.push(token);
+    }
+  }
+  if (current.length > 0) commands.push(current);
+  return commands;
+}
+
+/**
+ * Matches shell variable assignments like `FOO=bar` at the start of a command.
+ */
+export function parseAssignment(
+  word: string
+): { name: string; value: string } | undefined {
+  const match = word.match(/^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s);
+  return match ? { name: match[1], value: match[2] } : undefined;
+}
+
+/**
+ * Commands that only run another command and can be looked through, with the
+ * options that take a separate value and the operands that precede the
+ * command, like the duration of `timeout 10 cmd`.
+ */
+const WRAPPER_COMMANDS: Record<
+  string,
+  { valueOptions: string[]; operands?: number }
+> = {
+  nice: { valueOptions: ["-n", "--adjustment"] },
+  nohup: { valueOptions: [] },
+  setsid: { valueOptions: [] },
+  ionice: { valueOptions: ["-c", "-n", "--class", "--classdata"] },
+  time: { valueOptions: ["-f", "-o", "--format", "--output"] },
+  exec: { valueOptions: ["-a"] },
+  env: { valueOptions: ["-u", "-C", "--unset", "--chdir"] },
+  stdbuf: { valueOptions: ["-i", "-o", "-e"] },
+  timeout: {
+    valueOptions: ["-s", "-k", "--signal", "--kill-after"],
+    operands: 1,
+  },
+  flock: {
+    valueOptions: ["-w", "-E", "--timeout", "--conflict-exit-code"],
+    operands: 1,
+  },
+  sudo: {
+    valueOptions: [
+      "-u",
+      "-g",
+      "-C",
+      "-D",
+      "-h",
+      "-p",
+      "-r",
+      "-t",
+      "-U",
+      "-T",
+      "--user",
+      "--group",
+      "--chdir",
+      "--host",
+      "--prompt",
+    ],
+  },
+  doas: { valueOptions: ["-u", "-C"] },
+};
+
+/**
+ * Strips wrappers like `sudo -u app`, `env -u VAR` or `timeout 10` with their
+ * options and assignments, returning the words of the wrapped command.
+ */
+export function unwrapCommand(words: string[]): string[] {
+  words = [...words];
+  let wrapper = words[0] && WRAPPER_COMMANDS[path.posix.basename(words[0])];
+  while (wrapper) {
+    words.shift();
+    while (words.length > 0) {
+      if (words[0] === "--") {
+        words.shift();
+        break;
+      }
+      if (wrapper.valueOptions.includes(words[0])) {
+        words.splice(0, 2);
+      } else if (words[0].startsWith("-") || parseAssignment(words[0])) {
+        words.shift();
+      } else {
+        break;
+      }
+    }
+    words.splice(0, wrapper.operands ?? 0);
+    wrapper = words[0] && WRAPPER_COMMANDS[path.posix.basename(words[0])];
+  }
+  return words;
+}
+
+/** Interpreters whose first non-option argument is the executed script. */
+const INTERPRETERS = new Set([
+  "sh",
+  "bash",
+  "ksh",
+  "zsh",
+  "dash",
+  "perl",
+  "python",
+  "python2",
+  "python3",
+  "ruby",
+  "php",
+  "node",
+]);
+
+export interface ShellExecution {
+  pwd: string;
+  path: string;
+  args: string[];
+  /** For a bare command name, the `PATH` it is looked up in. */
+  searchPath?: string;
+}
+
+export interface ShellRedirect {
+  path: string;
+  action: "read" | "write";
+}
+
+/**
+ * Separates the words of a simple command from its redirects. Redirect targets
+ * are resolved against `pwd` if given and kept as written otherwise;
+ * here-document delimiters, file descriptor duplications and `/dev/null` are
+ * dropped.
+ */
+export function parseSimpleCommand(
+  tokens: ShellToken[],
+  pwd?: string
+): { words: string[]; redirects: ShellRedirect[] } {
+  const words: string[] = [];
+  const redirects: ShellRedirect[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token: ShellToken = tokens[i];
+    if (token.type === "operator") {
+      const target = tokens[i + 1];
+      // The word after `<<` is the here-document delimiter.
+      if (token.value === "<<" && target?.type === "word") {
+        i++;
+        continue;
+      }
+      if (REDIRECT_OPERATORS.has(token.value) && target?.type === "word") {
+        i++;
+        // `2>&1` and friends redirect to a file descriptor, not a file.
+        if (token.value === ">&" || target.value.startsWith("&")) continue;
+        if (target.value === "/dev/null") continue;
+        redirects.push({
+          path: pwd ? resolveUnixPath(pwd, target.value) : target.value,
+          action: token.value === "<" ? "read" : "write",
+        });
+      }
+      continue;
+    }
+    words.push(token.value);
+  }
+  return { words, redirects };
+}
+
+/**
+ * Resolves what a simple command executes, looking through wrappers like
+ * `nice` or `timeout` and interpreters like `perl script.pl` or `sh -c`.
+ * Leading assignments and `cd` must have been handled by the caller. Bare
+ * command names are skipped, unless `bareCommands` asks for them to be
+ * returned with the `PATH` of `env`.
+ */
+export function resolveCommand(
+  words: string[],
+  pwd: string,
+  env: Record<string, string>,
+  options: { bareCommands?: boolean } = {}
+): { executions: ShellExecution[]; redirects: ShellRedirect[] } {
+  const none = { executions: [], redirects: [] };
+  words = unwrapCommand(words);
+  if (words.length === 0) return none;
+
+  const [name, ...args] = words;
+  if (INTERPRETERS.has(path.posix.basename(name))) {
+    const inlineIndex = args.indexOf("-c");
+    if (inlineIndex !== -1 && args[inlineIndex + 1] !== undefined) {
+      return resolveCommandLine(args[inlineIndex + 1], pwd, env);
+    }
+    const scriptIndex = args.findIndex((arg) => !arg.startsWith("-"));
+    if (scriptIndex === -1) return none;
+    const script = {
+      pwd,
+      path: args[scriptIndex],
+      args: args.slice(scriptIndex + 1),
+    };
+    return { executions: [script], redirects: [] };
+  }
+
+  // Bare command names are found via PATH.
+  if (!name.includes("/")) {
+    if (!options.bareCommands) return none;
+    const searchPath = env.PATH ?? "";
+    return {
+      executions: [{ pwd, path: name, args, searchPath }],
+      redirects: [],
+    };
+  }
+
+  return { executions: [{ pwd, path: name, args }], redirects: [] };
+}
+
+/**
+ * Resolves the scripts a shell command line executes and the files it
+ * redirects from or to. Bare command names are treated as system commands.
+ */
+export function resolveCommandLine(
+  command: string,
+  pwd: string,
+  env: Record<string, string>
+): { executions: ShellExecution[]; redirects: ShellRedirect[] } {
+  const executions: ShellExecution[] = [];
+  const redirects: ShellRedirect[] = [];
+  let currentPwd = pwd;
+
+  for (const tokens of splitCommands(tokenizeShell(command, env))) {
+    const command = parseSimpleCommand(tokens, currentPwd);
+    redirects.push(...command.redirects);
+    const words = command.words;
+
+    // Leading assignments only affect the environment of the command.
+    while (words.length > 0 && parseAssignment(words[0])) {
+      words.shift();
+    }
+    if (words.length === 0) continue;
+
+    if (words[0] === "cd") {
+      currentPwd = resolveUnixPath(currentPwd, words[1] ?? env.HOME ?? pwd);
+      continue;
+    }
+
+    const resolved = resolveCommand(words, currentPwd, env);
+    executions.push(...resolved.executions);
+    redirects.push(...resolved.redirects);
+  }
+
+  return { executions, redirects };
+}
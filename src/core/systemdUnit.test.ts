@@ -0,0 +1,83 @@
+import { parseServiceUnit, parseTimerUnit, parseUnitFile } from "./systemdUnit";
+
+describe("parseUnitFile", () => {
+  test("keeps repeated keys and joins continuation lines", () => {
+    const sections = parseUnitFile(
+      [
+        "[Unit]",
+        "Description=Nightly export",
+        "# a comment",
+        "; another comment",
+        "[Service]",
+        "ExecStartPre=/opt/app/prepare.sh",
+        "ExecStartPre=/opt/app/lock.sh \\",
+        "  --wait",
+      ].join("\n")
+    );
+
+    expect(sections.Unit).toEqual([
+      { key: "Description", value: "Nightly export" },
+    ]);
+    expect(sections.Service.map((e) => e.value.replace(/\s+/g, " "))).toEqual([
+      "/opt/app/prepare.sh",
+      "/opt/app/lock.sh --wait",
+    ]);
+  });
+});
+
+describe("parseServiceUnit", () => {
+  const unit = [
+    "[Service]",
+    "Type=oneshot",
+    "WorkingDirectory=/opt/app",
+    "EnvironmentFile=/etc/default/export",
+    "EnvironmentFile=-/etc/default/export.local",
+    'Environment="DATA_DIR=/var/data" MODE=full',
+    "ExecStartPre=-/opt/app/bin/prepare.sh",
+    "ExecStart=/usr/bin/perl ./bin/export.pl --dir ${DATA_DIR} --mode $MODE",
+    "ExecStop=/opt/app/bin/stop.sh",
+  ].join("\n");
+
+  test("resolves commands relative to the working directory", () => {
+    const service = parseServiceUnit(unit);
+
+    expect(service.workingDirectory).toBe("/opt/app");
+    expect(
+      service.executions.map((e) => [e.directive, e.pwd, e.path, e.args])
+    ).toEqual([
+      ["ExecStartPre", "/opt/app", "/opt/app/bin/prepare.sh", []],
+      [
+        "ExecStart",
+        "/opt/app",
+        "./bin/export.pl",
+        ["--dir", "/var/data", "--mode", "full"],
+      ],
+      ["ExecStop", "/opt/app", "/opt/app/bin/stop.sh", []],
+    ]);
+  });
+
+  test("collects environment and environment files", () => {
+    const service = parseServiceUnit(unit);
+
+    expect(service.env).toEqual({ DATA_DIR: "/var/data", MODE: "full" });
+    expect(service.environmentFiles).toEqual([
+      { path: "/etc/default/export", optional: false },
+      { path: "/etc/default/export.local", optional: true },
+    ]);
+  });
+});
+
+describe("parseTimerUnit", () => {
+  test("defaults to the service with the same name", () => {
+    const timer = parseTimerUnit(
+      "[Timer]\nOnCalendar=*-*-* 02:00:00\nPersistent=true\n",
+      "/etc/systemd/system/export.timer"
+    );
+
+    expect(timer).toEqual({
+      type: "timer",
+      unit: "/etc/systemd/system/export.service",
+      schedule: "OnCalendar=*-*-* 02:00:00",
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import path from "path";
+import { resolveUnixPath } from "./pathUtils";
+import {
+  parseAssignment,
+  resolveCommandLine,
+  ShellExecution,
+  tokenizeShell,
+} from "./shellUtils";
+
+/** Service settings whose value is a command line. */
+export const EXEC_DIRECTIVES = [
+  "ExecStartPre",
+  "ExecStart",
+  "ExecStartPost",
+  "ExecReload",
+  "ExecStop",
+  "ExecStopPost",
+];
+
+/** Timer settings that define when the timer elapses. */
+const TIMER_DIRECTIVES = [
+  "OnCalendar",
+  "OnActiveSec",
+  "OnBootSec",
+  "OnStartupSec",
+  "OnUnitActiveSec",
+  "OnUnitInactiveSec",
+];
+
+export type UnitSections = Record<string, { key: string; value: string }[]>;
+
+export interface UnitExecution extends ShellExecution {
+  directive: string;
+  env: Record<string, string>;
+}
+
+export interface ServiceUnit {
+  type: "service";
+  workingDirectory: string;
+  env: Record<string, string>;
+  environmentFiles: { path: string; optional: boolean }[];
+  executions: UnitExecution[];
+}
+
+export interface TimerUnit {
+  type: "timer";
+  /** The service the timer activates. */
+  unit: string;
+  /** Human readable trigger, e.g. `OnCalendar=*-*-* 02:00:00`. */
+  schedule: string;
+}
+
+export function isSystemdUnitPath(filePath: string): boolean {
+  return /\.(service|timer)$/.test(filePath);
+}
+
+/**
+ * Parses the INI-like unit file format into its sections. Repeated keys are
+ * kept in order, comments (`#`, `;`) are dropped and lines ending in a
+ * backslash are joined with the next line.
+ */
+export function parseUnitFile(content: string): UnitSections {
+  const sections: UnitSections = {};
+  let current: string | undefined;
+  let buffer = "";
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    if (buffer === "" && /^\s*[#;]/.test(rawLine)) continue;
+    if (rawLine.endsWith("\\")) {
+      buffer += rawLine.slice(0, -1) + " ";
+      continue;
+    }
+    const line = (buffer + rawLine).trim();
+    buffer = "";
+    if (line === "") continue;
+
+    const section = line.match(/^\[(.+)\]$/);
+    if (section) {
+      current = section[1];
+      sections[current] = sections[current] ?? [];
+      continue;
+    }
+
+    const separator = line.indexOf("=");
+    if (!current || separator === -1) continue;
+    sections[current].push({
+      key: line.slice(0, separator).trim(),
+      value: line.slice(separator + 1).trim(),
+    });
+  }
+
+  return sections;
+}
+
+function values(sections: UnitSections, section: string, key: string) {
+  return (sections[section] ?? [])
+    .filter((entry) => entry.key === key)
+    .map((entry) => entry.value);
+}
+
+/**
+ * Parses `Environment=` values like `"A=1" "B=two words" C=3`.
+ */
+function parseEnvironment(value: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const token of tokenizeShell(value)) {
+    const assignment =
+      token.type === "word" ? parseAssignment(token.value) : undefined;
+    if (assignment) {
+      env[assignment.name] = assignment.value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Reads the commands, working directory and environment of a `.service` unit.
+ * Exec prefixes like `-`, `@`, `+` or `!` are removed, `$VAR` references are
+ * substituted from `Environment=`.
+ */
+export function parseServiceUnit(
+  content: string,
+  options: { pwd?: string } = {}
+): ServiceUnit {
+  const sections = parseUnitFile(content);
+
+  const env: Record<string, string> = {};
+  for (const value of values(sections, "Service", "Environment")) {
+    Object.assign(env, parseEnvironment(value));
+  }
+
+  // Later assignments override earlier ones.
+  const workingDirectory = (
+    values(sections, "Service", "WorkingDirectory").pop() ?? ""
+  ).replace(/^-/, "");
+  const pwd =
+    workingDirectory && workingDirectory !== "~"
+      ? resolveUnixPath(options.pwd ?? "/", workingDirectory)
+      : (options.pwd ?? "/");
+
+  // An empty assignment resets the list, like systemd itself does.
+  const environmentFileValues = values(sections, "Service", "EnvironmentFile");
+  const environmentFiles = environmentFileValues
+    .slice(environmentFileValues.lastIndexOf("") + 1)
+    .map((value) => ({
+      path: resolveUnixPath(pwd, value.replace(/^-/, "")),
+      optional: value.startsWith("-"),
+    }));
+
+  const executions: UnitExecution[] = [];
+  for (const directive of EXEC_DIRECTIVES) {
+    for (const value of values(sections, "Service", directive)) {
+      const command = value.replace(/^[-@:+!]+/, "");
+      if (command === "") continue;
+      for (const execution of resolveCommandLine(command, pwd, env)
+        .executions) {
+        executions.push({ ...execution, directive, env });
+      }
+    }
+  }
+
+  return {
+    type: "service",
+    workingDirectory: pwd,
+    env,
+    environmentFiles,
+    executions,
+  };
+}
+
+/**
+ * Reads the triggers of a `.timer` unit and the service it activates, which
+ * defaults to the service with the same name.
+ */
+export function parseTimerUnit(content: string, unitPath: string): TimerUnit {
+  const sections = parseUnitFile(content);
+  const triggers = TIMER_DIRECTIVES.flatMap((key) =>
+    values(sections, "Timer", key)
+      .filter((value) => value !== "")
+      .map((value) => `${key}=${value}`)
+  );
+  const unit =
+    values(sections, "Timer", "Unit").pop() ??
+    path.posix.basename(unitPath).replace(/\.timer$/, ".service");
+
+  return {
+    type: "timer",
+    unit: resolveUnixPath(path.posix.dirname(unitPath), unit),
+    schedule: triggers.join(", "),
+  };
+}
@@ -1,16 +1,193 @@
+import { PromptExtension } from "./promptExtensions";
+
 export interface PathMapping {
   from: string;
   to: string;
 }
 
+export interface EntryPoint {
+  pwd: string;
+  path: string;
+  args: string[];
+  /** Environment the entry point is started with, on top of `Config.env`. */
+  env?: Record<string, string>;
+}
+
+export type ProviderType = "bedrock" | "openai-compatible" | "mock";
+
+export interface ProviderConfig {
+  type: ProviderType;
+  /** Model id, defaults to `AWS_MODEL` or Claude Sonnet 4 for Bedrock. */
+  model?: string;
+  /** Bedrock region, defaults to `AWS_REGION`. */
+  region?: string;
+  /** Base URL of an OpenAI-compatible server, e.g. `http://localhost:11434/v1`. */
+  baseURL?: string;
+  /** API key of an OpenAI-compatible server, defaults to `OPENAI_API_KEY`. */
+  apiKey?: string;
+  /** Script file with the responses of the mock provider. */
+  script?: string;
+}
+
+/**
+ * How scripts are analyzed: `llm` asks the model for every file, `static` only
+ * uses the deterministic analyzers and `hybrid` runs a deterministic pass first
+ * and has the model confirm, extend or reject what it found.
+ */
+export type AnalysisEngine = "static" | "llm" | "hybrid";
+
+/** Which pass of the hybrid engine found a dependency. */
+export type DependencySource = "static" | "llm" | "both";
+
+/** A dependency the static pass and the model of the hybrid engine disagree on. */
+export interface Disagreement {
+  /** The analyzed file. */
+  file: string;
+  path: string;
+  action: "read" | "write" | "execute";
+  /** The pass that reported the dependency. */
+  source: "static" | "llm";
+  reason: string;
+}
+
+/** A dependency reported by too few self-consistency samples. */
+export interface UncertainDependency {
+  path: string;
+  action: "read" | "write" | "execute";
+  /** Fraction of the samples that reported the dependency. */
+  confidence: number;
+  /** The analyzed file, set when the results of files are collected. */
+  file?: string | undefined;
+}
+
+export interface ChunkingConfig {
+  /** Files longer than this many characters are analyzed in chunks. */
+  maxChars?: number;
+  /** Lines of the previous chunk repeated at the start of the next one. */
+  overlapLines?: number;
+}
+
+export interface SearchPaths {
+  /** Roots of Python modules, searched after `PYTHONPATH`. */
+  python?: string[];
+  /** `@INC` directories, searched after `use lib` and `PERL5LIB`. */
+  perl?: string[];
+  /** Directories of bare command names, searched after `PATH`. */
+  shell?: string[];
+}
+
+/** A module or command that none of the search paths contain. */
+export interface SearchMiss {
+  /** Module or command, e.g. `Mail::Send` or `report-tool`. */
+  name: string;
+  language: "perl" | "python" | "shell";
+  /** Production paths tried, in search order. */
+  tried: string[];
+  /** The analyzed file, set when the results of files are collected. */
+  file?: string | undefined;
+}
+
+/** A file system access of a tool the model called, for the audit trail. */
+export interface ToolAccess {
+  tool: string;
+  /** The production path or pattern the model asked for. */
+  path: string;
+  status: "ok" | "truncated" | "denied" | "failed";
+  /** Bytes of file content returned to the model. */
+  bytes?: number;
+  /** Why the access was denied or failed. */
+  reason?: string;
+}
+
+export interface ToolsConfig {
+  /** Larger files are truncated by readFile and grepFile, in bytes. */
+  maxReadBytes?: number;
+}
+
+/** Self-consistency sampling: every file is analyzed several times. */
+export interface SamplingConfig {
+  /** Analyses of every file, defaults to 1. */
+  samples?: number;
+  /** Temperature of the samples, defaults to 0.7 with more than one sample. */
+  temperature?: number;
+  /**
+   * Further providers the samples are spread across, taking turns with the
+   * main provider.
+   */
+  providers?: ProviderConfig[];
+  /**
+   * Dependencies reported by a smaller fraction of the samples are left out
+   * of the graph, the queue and the report's file lists.
+   */
+  minConfidence?: number;
+}
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Model usage of one analyzed file or a whole run. */
+export interface ModelUsage {
+  inputTokens: number;
+  outputTokens: number;
+  /** Model calls, including tool steps and repair attempts. */
+  steps: number;
+  /** Time spent on the model calls in milliseconds. */
+  latencyMs: number;
+  /** Estimated cost in USD, missing without a price for the model. */
+  cost?: number;
+}
+
+export interface FileUsage extends ModelUsage {
+  file: string;
+}
+
+/** Limits of a run, checked before every file is started. */
+export interface Budget {
+  /** Estimated cost in USD. */
+  maxCost?: number;
+  /** Input and output tokens combined. */
+  maxTokens?: number;
+}
+
 export interface Config {
   pathMappings: PathMapping[];
   pwd: string;
   outDir?: string;
   copyOutputDir?: string;
-  entryPoints?: {
-    pwd: string;
-    path: string;
-    args: string[];
-  }[];
+  /** Number of files analyzed in parallel, defaults to 1. */
+  concurrency?: number;
+  /** Directory of the per-file analysis cache, defaults to `.analyzer-cache`. */
+  cacheDir?: string;
+  entryPoints?: EntryPoint[];
+  /** Environment of all entry points, like the variables of a login shell. */
+  env?: Record<string, string>;
+  /**
+   * Production paths of env files (`KEY=value` lines) loaded into `env`, in
+   * order; `env` itself takes precedence.
+   */
+  envFiles?: string[];
+  /** Production directories searched for imported modules. */
+  searchPaths?: SearchPaths;
+  /** Analysis engine, defaults to `llm`. */
+  engine?: AnalysisEngine;
+  /** Model provider, defaults to Bedrock. */
+  provider?: ProviderConfig;
+  /**
+   * Chunking thresholds keyed by `provider:model` id, with a `default` entry
+   * for all other models.
+   */
+  chunking?: Record<string, ChunkingConfig>;
+  /** Limits of the file system tools the model uses. */
+  tools?: ToolsConfig;
+  /**
+   * Model prices keyed by `provider:model` id, with a `default` entry for all
+   * other models.
+   */
+  prices?: Record<string, ModelPrice>;
+  sampling?: SamplingConfig;
+  /** Site-specific additions to the prompt, per language or path pattern. */
+  promptExtensions?: PromptExtension[];
 }
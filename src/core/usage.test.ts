@@ -0,0 +1,47 @@
+import {
+  addUsage,
+  EMPTY_USAGE,
+  estimateCost,
+  isOverBudget,
+  resolvePrice,
+} from "./usage";
+
+describe("usage", () => {
+  const usage = {
+    inputTokens: 2_000_000,
+    outputTokens: 100_000,
+    steps: 3,
+    latencyMs: 1200,
+  };
+
+  test("estimates the cost with the price of the model", () => {
+    const prices = {
+      "bedrock:sonnet": { input: 3, output: 15 },
+      default: { input: 1, output: 1 },
+    };
+
+    expect(estimateCost(usage, resolvePrice(prices, "bedrock:sonnet")!)).toBe(
+      7.5
+    );
+    expect(resolvePrice(prices, "mock:mock")).toEqual({ input: 1, output: 1 });
+    expect(resolvePrice(undefined, "mock:mock")).toBeUndefined();
+  });
+
+  test("sums usages and checks budgets", () => {
+    const total = addUsage(addUsage(EMPTY_USAGE, usage), {
+      ...usage,
+      cost: 0.5,
+    });
+
+    expect(total).toEqual({
+      inputTokens: 4_000_000,
+      outputTokens: 200_000,
+      steps: 6,
+      latencyMs: 2400,
+      cost: 0.5,
+    });
+    expect(addUsage(EMPTY_USAGE, usage).cost).toBeUndefined();
+    expect(isOverBudget(total, { maxCost: 0.5 })).toBe(true);
+    expect(isOverBudget(total, { maxTokens: 5_000_000 })).toBe(false);
+  });
+});
@@ -0,0 +1,86 @@
+import { Budget, ModelPrice, ModelUsage } from "./types";
+
+export const EMPTY_USAGE: ModelUsage = {
+  inputTokens: 0,
+  outputTokens: 0,
+  steps: 0,
+  latencyMs: 0,
+};
+
+/** Picks the price of a model: its `provider:model` entry, then `default`. */
+export function resolvePrice(
+  prices: Record<string, ModelPrice> | undefined,
+  modelId: string
+): ModelPrice | undefined {
+  return prices?.[modelId] ?? prices?.default;
+}
+
+export function estimateCost(
+  usage: Pick<ModelUsage, "inputTokens" | "outputTokens">,
+  price: ModelPrice
+): number {
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Usage of model calls from the token counts the provider reported, missing
+ * counts are taken as 0.
+ */
+export function toModelUsage(
+  tokens: {
+    inputTokens?: number | undefined;
+    outputTokens?: number | undefined;
+  },
+  steps: number,
+  latencyMs: number,
+  price?: ModelPrice
+): ModelUsage {
+  const usage: ModelUsage = {
+    inputTokens: tokens.inputTokens ?? 0,
+    outputTokens: tokens.outputTokens ?? 0,
+    steps,
+    latencyMs,
+  };
+  if (price) {
+    usage.cost = estimateCost(usage, price);
+  }
+  return usage;
+}
+
+/** Sums two usages, the cost is only kept when at least one side has one. */
+export function addUsage(a: ModelUsage, b: ModelUsage): ModelUsage {
+  const sum: ModelUsage = {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    steps: a.steps + b.steps,
+    latencyMs: a.latencyMs + b.latencyMs,
+  };
+  if (a.cost !== undefined || b.cost !== undefined) {
+    sum.cost = (a.cost ?? 0) + (b.cost ?? 0);
+  }
+  return sum;
+}
+
+export function isOverBudget(usage: ModelUsage, budget: Budget): boolean {
+  return (
+    (budget.maxTokens !== undefined &&
+      usage.inputTokens + usage.outputTokens >= budget.maxTokens) ||
+    (budget.maxCost !== undefined && (usage.cost ?? 0) >= budget.maxCost)
+  );
+}
+
+/** E.g. `12,000 input + 800 output tokens in 3 steps, 4.2s, $0.0480`. */
+export function formatUsage(usage: ModelUsage): string {
+  let text = `${usage.inputTokens.toLocaleString("en-US")} input + ${usage.outputTokens.toLocaleString("en-US")} output tokens in ${usage.steps} steps, ${(usage.latencyMs / 1000).toFixed(1)}s`;
+  if (usage.cost !== undefined) {
+    text += `, ${formatCost(usage.cost)}`;
+  }
+  return text;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
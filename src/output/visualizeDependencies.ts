@@ -1,15 +1,45 @@
 import path from "path";
 import fs from "fs/promises";
+import {
+  addUsage,
+  EMPTY_USAGE,
+  EVAL_CATEGORIES,
+  formatCost,
+  formatUsage,
+  type ArchiveMember,
+  type CategoryScore,
+  type DependencySource,
+  type Disagreement,
+  type EvaluationResult,
+  type FileUsage,
+  type ModelUsage,
+  type SearchMiss,
+  type UncertainDependency,
+} from "../core";
 
 type FileEntry = {
   path: string;
   description?: string;
+  /** Which pass of the hybrid engine found the file. */
+  source?: DependencySource | undefined;
+  /** Fraction of the self-consistency samples that reported the file. */
+  confidence?: number | undefined;
 };
 
 type ExecutableFileEntry = FileEntry & {
   pwd: string;
   args: string[];
   fileType?: string | undefined;
+  schedule?: string | undefined;
+};
+
+type UnresolvedPath = {
+  expression: string;
+  variables: string[];
+  action: "read" | "write" | "execute";
+  description?: string | undefined;
+  /** The file using the path. */
+  file?: string | undefined;
 };
 
 type FileError = {
@@ -24,12 +54,25 @@ export type AnalysisResult = {
   readFiles: FileEntry[];
   writeFiles: FileEntry[];
   executeFiles: ExecutableFileEntry[];
+  disagreements?: Disagreement[];
+  unresolved?: UnresolvedPath[];
+  notFound?: SearchMiss[];
+  /** Model usage of every file analyzed by the model. */
+  costs?: FileUsage[];
+  /** Dependencies reported by too few self-consistency samples. */
+  uncertain?: UncertainDependency[];
+  /** Files inside the analyzed archives. */
+  members?: ArchiveMember[];
 };
 
 function indent(level: number): string {
   return "  ".repeat(level);
 }
 
+function formatConfidence(confidence: number): string {
+  return `confidence ${Math.round(confidence * 100)}%`;
+}
+
 function renderTree(
   files: FileEntry[] | ExecutableFileEntry[] | FileError[],
   level: number = 0
@@ -42,6 +85,9 @@ function renderTree(
       if ("fileType" in file && file.fileType) {
         line += ` (${file.fileType})`;
       }
+      if ("source" in file && file.source) {
+        line += ` [${file.source}]`;
+      }
       if ("description" in file && file.description) {
         line += ` — ${file.description}`;
       } else if ("error" in file && file.error) {
@@ -50,6 +96,104 @@ function renderTree(
       if ("args" in file && file.args.length > 0) {
         line += ` (args: ${file.args.join(" ")})`;
       }
+      if ("confidence" in file && file.confidence !== undefined) {
+        line += ` (${formatConfidence(file.confidence)})`;
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders paths that could not be resolved with the action, the file using
+ * them and the variables that are missing, e.g.
+ * `- **$DATA_DIR/input.csv** (read in /opt/app/run.sh) — blocked by: DATA_DIR`
+ */
+function renderUnresolved(entries: UnresolvedPath[]): string {
+  return [...entries]
+    .sort(
+      (a, b) =>
+        (a.file ?? "").localeCompare(b.file ?? "") ||
+        a.expression.localeCompare(b.expression)
+    )
+    .map((entry) => {
+      let line = `- **${entry.expression}** (${entry.action}`;
+      if (entry.file) {
+        line += ` in ${entry.file}`;
+      }
+      line += ")";
+      if (entry.variables.length > 0) {
+        line += ` — blocked by: ${entry.variables.join(", ")}`;
+      }
+      if (entry.description) {
+        line += ` — ${entry.description}`;
+      }
+      return line;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders dependencies that too few samples reported with the action, the
+ * file reporting them and their confidence, e.g. `(write in /opt/app/run.sh)
+ * — confidence 33%` for a log file one of three samples reported.
+ */
+function renderUncertain(entries: UncertainDependency[]): string {
+  return [...entries]
+    .sort(
+      (a, b) =>
+        (a.file ?? "").localeCompare(b.file ?? "") ||
+        a.path.localeCompare(b.path)
+    )
+    .map((entry) => {
+      let line = `- **${entry.path}** (${entry.action}`;
+      if (entry.file) {
+        line += ` in ${entry.file}`;
+      }
+      return `${line}) — ${formatConfidence(entry.confidence)}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders the files inside archives with the type of binary members, their
+ * size and whether they were analyzed, e.g. `(jar, 5120 bytes, analyzed)`.
+ */
+function renderMembers(members: ArchiveMember[]): string {
+  return [...members]
+    .sort((a, b) => a.path.localeCompare(b.path))
+    .map((member) => {
+      const details = [
+        ...(member.fileType ? [member.fileType] : []),
+        `${member.size} bytes`,
+        ...(member.analyzed ? ["analyzed"] : []),
+      ];
+      return `- **${member.path}** (${details.join(", ")})`;
+    })
+    .join("\n");
+}
+
+/**
+ * Renders modules and commands that none of the search paths contain with
+ * every location tried, e.g.
+ * `- **Mail::Send** (perl in /opt/app/run.pl) — tried /opt/lib/Mail/Send.pm`
+ */
+function renderNotFound(misses: SearchMiss[]): string {
+  return [...misses]
+    .sort(
+      (a, b) =>
+        (a.file ?? "").localeCompare(b.file ?? "") ||
+        a.name.localeCompare(b.name)
+    )
+    .map((miss) => {
+      let line = `- **${miss.name}** (${miss.language}`;
+      if (miss.file) {
+        line += ` in ${miss.file}`;
+      }
+      line += ")";
+      if (miss.tried.length > 0) {
+        line += ` — tried ${miss.tried.join(", ")}`;
+      }
       return line;
     })
     .join("\n");
@@ -87,6 +231,34 @@ export function toMarkdown(
     sections.push(`${headingPrefix} Binaries\n` + renderTree(binaries, 0));
   }
 
+  const unresolved = result.unresolved ?? [];
+  if (unresolved.length > 0) {
+    sections.push(
+      `${headingPrefix} Unresolved Paths\n` + renderUnresolved(unresolved)
+    );
+  }
+
+  const notFound = result.notFound ?? [];
+  if (notFound.length > 0) {
+    sections.push(
+      `${headingPrefix} Not Found in Search Paths\n` + renderNotFound(notFound)
+    );
+  }
+
+  const members = result.members ?? [];
+  if (members.length > 0) {
+    sections.push(
+      `${headingPrefix} Archive Members\n` + renderMembers(members)
+    );
+  }
+
+  const uncertain = result.uncertain ?? [];
+  if (uncertain.length > 0) {
+    sections.push(
+      `${headingPrefix} Below Confidence Threshold\n` + renderUncertain(uncertain)
+    );
+  }
+
   if (result.errors.length > 0) {
     sections.push(`${headingPrefix} Errors\n` + renderTree(result.errors, 0));
   }
@@ -98,11 +270,16 @@ export function toMarkdown(
 // TREE VISUALIZER
 //////////////////////////
 
-export type FileAction = "read" | "write" | "execute";
+/** `contain` links an archive to its members. */
+export type FileAction = "read" | "write" | "execute" | "contain";
 
 export type FileDependency = {
   path: string;
   fileType?: string | undefined;
+  /** When the parent runs this dependency, e.g. the time fields of a cron job. */
+  schedule?: string | undefined;
+  /** Fraction of the self-consistency samples that reported the dependency. */
+  confidence?: number | undefined;
   action: FileAction;
 };
 
@@ -124,6 +301,8 @@ export function visualizeDependencyGraph(
       return "[R]";
     } else if (action === "write") {
       return "[W]";
+    } else if (action === "contain") {
+      return "[M]";
     } else if (!!fileType) {
       return "[B]";
     }
@@ -142,12 +321,17 @@ export function visualizeDependencyGraph(
     path: string,
     action: FileAction,
     fileType?: string | undefined,
+    schedule?: string | undefined,
+    confidence?: number | undefined,
     indent: number = 0,
     prefix: string = "",
     isLast: boolean = true,
     ancestorPaths: Set<string> = new Set()
   ): void {
-    const entry = `${prefix}${getIcon(action, fileType)} ${path}`;
+    const scheduleSuffix = schedule ? ` (runs ${schedule})` : "";
+    const confidenceSuffix =
+      confidence !== undefined ? ` (${formatConfidence(confidence)})` : "";
+    const entry = `${prefix}${getIcon(action, fileType)} ${path}${scheduleSuffix}${confidenceSuffix}`;
     // Check for circular dependency
     if (ancestorPaths.has(path)) {
       lines.push(`${entry} [CIRCULAR]`);
@@ -196,6 +380,8 @@ export function visualizeDependencyGraph(
         dep.path,
         dep.action,
         dep.fileType,
+        dep.schedule,
+        dep.confidence,
         indent + 1,
         newPrefix,
         isLastDep,
@@ -213,7 +399,7 @@ export function visualizeDependencyGraph(
   // Build tree for each top-level path
   topLevelPaths.forEach((path, index) => {
     if (fileDependencies.has(path)) {
-      buildTree(path, "execute", undefined);
+      buildTree(path, "execute", undefined, undefined);
       // Add empty line between top-level entries (except after the last one)
       if (index < topLevelPaths.length - 1) {
         lines.push("");
@@ -224,6 +410,139 @@ export function visualizeDependencyGraph(
   return lines.join("\n");
 }
 
+/**
+ * Collects the schedules every executable in the graph runs on. A schedule is
+ * attached to the edge that starts a job and inherited by everything the job
+ * executes.
+ * @param fileDependencies - Map of file paths to their dependencies
+ * @returns Map of executable paths to their sorted, distinct schedules
+ */
+export function collectSchedules(
+  fileDependencies: Map<string, FileDependency[]>
+): Map<string, string[]> {
+  const schedules = new Map<string, Set<string>>();
+
+  function propagate(path: string, schedule: string): void {
+    const pathSchedules = schedules.get(path) ?? new Set<string>();
+    if (pathSchedules.has(schedule)) {
+      return;
+    }
+    pathSchedules.add(schedule);
+    schedules.set(path, pathSchedules);
+
+    for (const dep of fileDependencies.get(path) ?? []) {
+      if (dep.action === "execute") {
+        propagate(dep.path, schedule);
+      }
+    }
+  }
+
+  for (const deps of fileDependencies.values()) {
+    for (const dep of deps) {
+      if (dep.action === "execute" && dep.schedule) {
+        propagate(dep.path, dep.schedule);
+      }
+    }
+  }
+
+  return new Map(
+    [...schedules.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([path, values]) => [path, [...values].sort()])
+  );
+}
+
+/**
+ * Renders the schedules of all executables as a markdown list
+ */
+export function schedulesToMarkdown(
+  fileDependencies: Map<string, FileDependency[]>
+): string {
+  return [...collectSchedules(fileDependencies).entries()]
+    .map(
+      ([path, schedules]) =>
+        `- **${path}** — ${schedules.map((s) => `\`${s}\``).join(", ")}`
+    )
+    .join("\n");
+}
+
+/**
+ * Renders the disagreements of the hybrid engine as a markdown list grouped
+ * by the analyzed file, so reviewers can check the paths the static pass and
+ * the model differ on.
+ */
+export function disagreementsToMarkdown(disagreements: Disagreement[]): string {
+  const byFile = new Map<string, Disagreement[]>();
+  for (const disagreement of disagreements) {
+    const existing = byFile.get(disagreement.file) ?? [];
+    existing.push(disagreement);
+    byFile.set(disagreement.file, existing);
+  }
+
+  return [...byFile.keys()]
+    .sort((a, b) => a.localeCompare(b))
+    .map((file) =>
+      [
+        `- ${file}`,
+        ...byFile
+          .get(file)!
+          .sort((a, b) => a.path.localeCompare(b.path))
+          .map(
+            (d) =>
+              `  - \`${d.path}\` (${d.action}, ${d.source}) — ${d.reason}`
+          ),
+      ].join("\n")
+    )
+    .join("\n");
+}
+
+/**
+ * Renders the model usage of every file as a table, most expensive files
+ * first, followed by the total of the run and the queue entries a budget
+ * left unprocessed.
+ */
+export function costsToMarkdown(
+  costs: FileUsage[],
+  unprocessed: string[] = []
+): string {
+  const rows = [...costs]
+    .sort(
+      (a, b) =>
+        (b.cost ?? 0) - (a.cost ?? 0) ||
+        b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens)
+    )
+    .map(
+      (usage) =>
+        `| ${usage.file} | ${usage.inputTokens} | ${usage.outputTokens} | ${
+          usage.steps
+        } | ${(usage.latencyMs / 1000).toFixed(1)}s | ${
+          usage.cost !== undefined ? formatCost(usage.cost) : "-"
+        } |`
+    );
+  const total = costs.reduce<FileUsage>(
+    (sum, usage) => ({ ...addUsage(sum, usage), file: "" }),
+    { ...EMPTY_USAGE, file: "" }
+  );
+
+  const lines = [`Total: ${formatUsage(total)}`];
+  if (rows.length > 0) {
+    lines.push(
+      "",
+      "| File | Input tokens | Output tokens | Steps | Latency | Cost |",
+      "| --- | ---: | ---: | ---: | ---: | ---: |",
+      ...rows
+    );
+  }
+  if (unprocessed.length > 0) {
+    lines.push(
+      "",
+      "The budget was exhausted before these files were analyzed:",
+      ...unprocessed.map((file) => `- ${file}`)
+    );
+  }
+  return lines.join("\n");
+}
+
 //////////////////////////
 // Write to output file
 //////////////////////////
@@ -246,11 +565,13 @@ export const writeOutputFile = async (options: {
   dependencies: Map<string, FileDependency[]>;
   outDir: string;
   entryPoints: string[];
+  /** Queue entries a budget stopped the analysis before. */
+  unprocessed?: string[];
 }) => {
   const dateString = getCurrentDateTimeString();
   const outFile = path.resolve(options.outDir, `analysis-${dateString}.md`);
 
-  const content = [
+  const content: string[] = [
     "# Analysis Result",
     "",
     "## Overview",
@@ -258,11 +579,31 @@ export const writeOutputFile = async (options: {
     "",
     "## Dependency Graph",
     visualizeDependencyGraph(options.dependencies, options.entryPoints),
-  ].join("\n");
+  ];
 
-  await fs.writeFile(outFile, content);
+  const schedules = schedulesToMarkdown(options.dependencies);
+  if (schedules) {
+    content.push("", "## Schedule", schedules);
+  }
 
-  return content;
+  const disagreements = options.analysisResult.disagreements ?? [];
+  if (disagreements.length > 0) {
+    content.push(
+      "",
+      "## Disagreements",
+      disagreementsToMarkdown(disagreements)
+    );
+  }
+
+  const costs = options.analysisResult.costs ?? [];
+  const unprocessed = options.unprocessed ?? [];
+  if (costs.length > 0 || unprocessed.length > 0) {
+    content.push("", "## Cost", costsToMarkdown(costs, unprocessed));
+  }
+
+  await fs.writeFile(outFile, content.join("\n"));
+
+  return content.join("\n");
 };
 
 //////////////////////////
@@ -288,6 +629,7 @@ export interface CredentialsScanResult {
     credentialsFound: number;
     errors: number;
   };
+  usage?: ModelUsage;
 }
 
 export const writeCredentialsReport = async (
@@ -306,6 +648,9 @@ export const writeCredentialsReport = async (
     `- **Errors**: ${result.stats.errors}`,
     ""
   ];
+  if (result.usage?.steps) {
+    sections.splice(-1, 0, `- **Model usage**: ${formatUsage(result.usage)}`);
+  }
 
   if (result.credentials.length > 0) {
     sections.push("## Credentials Found", "");
@@ -349,3 +694,120 @@ export const writeCredentialsReport = async (
 
   return content;
 };
+
+//////////////////////////
+// EVALUATION REPORT
+//////////////////////////
+
+function formatScore(score: CategoryScore): string {
+  return `${(score.precision * 100).toFixed(1)}% / ${(score.recall * 100).toFixed(1)}%`;
+}
+
+function formatDelta(current: number, baseline: number): string {
+  const delta = (current - baseline) * 100;
+  return `${delta >= 0 ? "+" : ""}${delta.toFixed(1)}`;
+}
+
+/**
+ * Renders precision and recall per category and per file, the paths each
+ * file missed or reported wrongly and, with a baseline, the change of every
+ * score since the baseline run.
+ */
+export function evaluationToMarkdown(
+  result: EvaluationResult,
+  baseline?: EvaluationResult
+): string {
+  const categories = [...EVAL_CATEGORIES, "total"] as const;
+  const lines = [
+    "# Evaluation Report",
+    "",
+    `- **Prompt version**: ${result.promptVersion}`,
+    `- **Model**: ${result.model}`,
+    `- **Engine**: ${result.engine}`,
+    `- **Fixtures**: ${result.files.length}`,
+    "",
+    "## Summary",
+    "",
+    "| Category | Precision | Recall | TP | FP | FN |",
+    "| --- | ---: | ---: | ---: | ---: | ---: |",
+    ...categories.map((category) => {
+      const score = result.summary[category];
+      return `| ${category} | ${(score.precision * 100).toFixed(1)}% | ${(score.recall * 100).toFixed(1)}% | ${score.truePositives} | ${score.falsePositives} | ${score.falseNegatives} |`;
+    }),
+  ];
+
+  if (baseline) {
+    lines.push(
+      "",
+      `## Compared to prompt version ${baseline.promptVersion} (${baseline.model})`,
+      "",
+      "Change in percentage points.",
+      "",
+      "| Category | Precision | Recall |",
+      "| --- | ---: | ---: |",
+      ...categories.map(
+        (category) =>
+          `| ${category} | ${formatDelta(result.summary[category].precision, baseline.summary[category].precision)} | ${formatDelta(result.summary[category].recall, baseline.summary[category].recall)} |`
+      )
+    );
+  }
+
+  lines.push(
+    "",
+    "## Files",
+    "",
+    "Precision / recall of every category.",
+    "",
+    "| File | Read | Write | Execute |",
+    "| --- | ---: | ---: | ---: |",
+    ...result.files.map(
+      (file) =>
+        `| ${file.path} | ${EVAL_CATEGORIES.map((category) => formatScore(file.scores[category])).join(" | ")} |`
+    )
+  );
+
+  for (const file of result.files) {
+    const details: string[] = [];
+    if (file.error) {
+      details.push(`- **Error**: ${file.error}`);
+    }
+    for (const path of file.forbidden) {
+      details.push(`- **Forbidden**: \`${path}\``);
+    }
+    for (const category of EVAL_CATEGORIES) {
+      for (const path of file.missing[category]) {
+        details.push(`- **Missing** ${category}: \`${path}\``);
+      }
+      for (const path of file.unexpected[category]) {
+        details.push(`- **Unexpected** ${category}: \`${path}\``);
+      }
+    }
+    if (details.length > 0) {
+      lines.push("", `### ${file.path}`, "", ...details);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Writes the evaluation as JSON and markdown. Both are named after the prompt
+ * version and the model instead of a date, so runs of two prompt versions can
+ * be diffed and a later run of the same version replaces the earlier one.
+ */
+export const writeEvaluationReport = async (
+  result: EvaluationResult,
+  outDir: string,
+  baseline?: EvaluationResult
+): Promise<{ jsonPath: string; markdownPath: string; content: string }> => {
+  const name = `eval-v${result.promptVersion}-${result.model.replace(/[^\w.-]+/g, "_")}`;
+  const jsonPath = path.resolve(outDir, `${name}.json`);
+  const markdownPath = path.resolve(outDir, `${name}.md`);
+  const content = evaluationToMarkdown(result, baseline);
+
+  await fs.mkdir(outDir, { recursive: true });
+  await fs.writeFile(jsonPath, JSON.stringify(result, null, 2) + "\n");
+  await fs.writeFile(markdownPath, content + "\n");
+
+  return { jsonPath, markdownPath, content };
+};
@@ -0,0 +1,25 @@
+import { createAmazonBedrock } from "@ai-sdk/amazon-bedrock";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { ProviderConfig } from "../core";
+
+export const DEFAULT_BEDROCK_MODEL =
+  "eu.anthropic.claude-sonnet-4-20250514-v1:0";
+
+export function hasAwsCredentials(): boolean {
+  return (
+    !!process.env.AWS_REGION &&
+    !!process.env.AWS_ACCESS_KEY_ID &&
+    !!process.env.AWS_SECRET_ACCESS_KEY
+  );
+}
+
+export function createBedrockModel(config: ProviderConfig): LanguageModelV2 {
+  const bedrock = createAmazonBedrock({
+    region: config.region ?? process.env.AWS_REGION!,
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+  });
+  return bedrock(
+    config.model ?? process.env.AWS_MODEL ?? DEFAULT_BEDROCK_MODEL
+  );
+}
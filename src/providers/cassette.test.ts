@@ -0,0 +1,214 @@
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { generateText, stepCountIs, tool } from "ai";
+import { z } from "zod";
+import { Config } from "../core";
+import { writeOutputFile } from "../output/visualizeDependencies";
+import { createAnalysisState } from "../services/analysisState";
+import { CredentialsScanService } from "../services/credentialsScan";
+import { DependencyAnalysisService } from "../services/dependencyAnalysis";
+import { loadCassette, recordCassette, replayCassette } from "./cassette";
+import { MockLanguageModel } from "./mock";
+
+describe("cassettes", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "cassette-"));
+  const cassettePath = path.join(dir, "run.json");
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const lookups: string[] = [];
+  const analyze = (model: Parameters<typeof generateText>[0]["model"]) =>
+    generateText({
+      model,
+      prompt: "Analyze file a.sh",
+      tools: {
+        lookup: tool({
+          inputSchema: z.object({ name: z.string() }),
+          execute: async ({ name }) => {
+            lookups.push(name);
+            return "found";
+          },
+        }),
+      },
+      stopWhen: stepCountIs(5),
+    });
+
+  test("replays recorded responses and tool calls", async () => {
+    const model = new MockLanguageModel("test", {
+      responses: [
+        {
+          match: "a.sh",
+          toolCalls: [{ toolName: "lookup", input: { name: "config" } }],
+          text: "done",
+        },
+      ],
+    });
+    await analyze(recordCassette(model, cassettePath));
+    expect(loadCassette(cassettePath).interactions).toHaveLength(2);
+
+    const result = await analyze(replayCassette(cassettePath));
+
+    expect(result.text).toBe("done");
+    expect(lookups).toEqual(["config", "config"]);
+  });
+
+  test("keeps the calls of further models apart", async () => {
+    const sharedPath = path.join(dir, "shared.json");
+    const answer = (modelId: string, text: string) =>
+      new MockLanguageModel(modelId, { responses: [{ text }] });
+    await generateText({
+      model: recordCassette(answer("first", "from first"), sharedPath),
+      prompt: "Analyze file c.sh",
+    });
+    await generateText({
+      model: recordCassette(answer("second", "from second"), sharedPath),
+      prompt: "Analyze file c.sh",
+    });
+
+    const second = await generateText({
+      model: replayCassette(sharedPath, answer("second", "")),
+      prompt: "Analyze file c.sh",
+    });
+    const first = await generateText({
+      model: replayCassette(sharedPath),
+      prompt: "Analyze file c.sh",
+    });
+
+    expect(second.text).toBe("from second");
+    expect(first.text).toBe("from first");
+  });
+
+  test("fails on requests that were not recorded", async () => {
+    await expect(
+      generateText({
+        model: replayCassette(cassettePath),
+        prompt: "Analyze file b.sh",
+      })
+    ).rejects.toThrow("no recorded response");
+  });
+});
+
+describe("replaying runs", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "replay-"));
+  const appDir = path.join(dir, "app");
+  const config: Config = {
+    pwd: "/app",
+    pathMappings: [{ from: "/app", to: appDir }],
+  };
+  mkdirSync(appDir);
+  writeFileSync(path.join(appDir, "run.sh"), "./helper.sh\n");
+  writeFileSync(path.join(appDir, "helper.sh"), "cat /app/app.conf\n");
+  writeFileSync(path.join(appDir, "app.conf"), "password=hunter2\n");
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  const model = new MockLanguageModel("test", {
+    responses: [
+      {
+        match: "Main File: /app/run.sh",
+        object: {
+          readFiles: [],
+          writeFiles: [],
+          executeFiles: [{ pwd: "/app", path: "/app/helper.sh", args: [] }],
+          errors: [],
+        },
+      },
+      {
+        match: "Main File: /app/helper.sh",
+        toolCalls: [
+          { toolName: "readFile", input: { filepath: "/app/app.conf" } },
+        ],
+        object: {
+          readFiles: [{ path: "/app/app.conf" }],
+          writeFiles: [],
+          executeFiles: [],
+          errors: [],
+        },
+      },
+      {
+        match: "password=hunter2",
+        object: { credentials: [{ value: "password=hunter2" }] },
+      },
+      { match: "sensitive information", object: { credentials: [] } },
+    ],
+  });
+
+  /** Analyzes run.sh and returns the markdown report. */
+  const analyze = async (analysisModel: LanguageModelV2, outDir: string) => {
+    const service = new DependencyAnalysisService(config, analysisModel, {
+      useCache: false,
+      responseDir: path.join(outDir, "failed-responses"),
+    });
+    const state = createAnalysisState([
+      { pwd: "/app", path: "run.sh", args: [] },
+    ]);
+    await service.analyze(state, {
+      statePath: path.join(outDir, "state.json"),
+    });
+    const { output, fileDependencies } = service.collectResults(state);
+    return writeOutputFile({
+      outDir,
+      analysisResult: output,
+      dependencies: fileDependencies,
+      entryPoints: ["run.sh"],
+    });
+  };
+
+  /** Scans the tree for credentials, without the usage that varies by run. */
+  const scan = async (scanModel: LanguageModelV2) => {
+    const { usage: _usage, ...result } = await new CredentialsScanService(
+      scanModel
+    ).scanPath(appDir);
+    return result;
+  };
+
+  test("reports the same dependencies as the recorded analysis", async () => {
+    const cassettePath = path.join(dir, "analyze.json");
+    const recorded = await analyze(
+      recordCassette(model, cassettePath),
+      path.join(dir, "recorded")
+    );
+
+    const replayed = await analyze(
+      replayCassette(cassettePath),
+      path.join(dir, "replayed")
+    );
+
+    expect(replayed).toBe(recorded);
+    expect(replayed).toContain("/app/app.conf");
+  });
+
+  test("finds the same credentials as the recorded scan", async () => {
+    const cassettePath = path.join(dir, "credentials.json");
+    const recorded = await scan(recordCassette(model, cassettePath));
+
+    const replayed = await scan(replayCassette(cassettePath));
+
+    expect(replayed).toEqual(recorded);
+    expect(replayed.credentials).toEqual([
+      {
+        filePath: path.join(appDir, "app.conf"),
+        value: "password=hunter2",
+        description: undefined,
+      },
+    ]);
+  });
+
+  test("fails on files that changed since the recording", async () => {
+    const cassettePath = path.join(dir, "changed.json");
+    await analyze(recordCassette(model, cassettePath), path.join(dir, "old"));
+    writeFileSync(path.join(appDir, "run.sh"), "./helper.sh --verbose\n");
+
+    await expect(
+      analyze(replayCassette(cassettePath), path.join(dir, "new"))
+    ).rejects.toThrow(
+      `Cassette ${cassettePath} has no recorded response for this request`
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { wrapLanguageModel } from "ai";
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2CallWarning,
+  LanguageModelV2Content,
+  LanguageModelV2FinishReason,
+  LanguageModelV2Usage,
+  SharedV2ProviderMetadata,
+} from "@ai-sdk/provider";
+import { hashContent } from "../core";
+import { promptToText } from "./mock";
+
+/** The parts of a model call that decide its response. */
+export interface CassetteRequest {
+  prompt: LanguageModelV2CallOptions["prompt"];
+  tools?: LanguageModelV2CallOptions["tools"];
+  toolChoice?: LanguageModelV2CallOptions["toolChoice"];
+  responseFormat?: LanguageModelV2CallOptions["responseFormat"];
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface CassetteResponse {
+  content: LanguageModelV2Content[];
+  finishReason: LanguageModelV2FinishReason;
+  usage: LanguageModelV2Usage;
+  providerMetadata?: SharedV2ProviderMetadata;
+  warnings: LanguageModelV2CallWarning[];
+}
+
+export interface CassetteInteraction {
+  /** Hash of the request, see `getRequestKey`. */
+  key: string;
+  /** `provider:model` id, missing for calls of the cassette's own model. */
+  model?: string;
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+/**
+ * Every model call of a run, with the tool calls the model made and the tool
+ * results it got back as part of the following requests. Calls of further
+ * models, e.g. of self-consistency samples, are tagged with their `model`.
+ */
+export interface Cassette {
+  provider: string;
+  modelId: string;
+  interactions: CassetteInteraction[];
+}
+
+function toRequest(options: LanguageModelV2CallOptions): CassetteRequest {
+  return {
+    prompt: options.prompt,
+    tools: options.tools,
+    toolChoice: options.toolChoice,
+    responseFormat: options.responseFormat,
+    temperature: options.temperature,
+    maxOutputTokens: options.maxOutputTokens,
+  };
+}
+
+/**
+ * Identifies a request by its prompt, tools and settings. Headers, abort
+ * signals and provider options don't change the answer and are left out.
+ */
+export function getRequestKey(options: LanguageModelV2CallOptions): string {
+  return hashContent(JSON.stringify(toRequest(options)));
+}
+
+export function loadCassette(cassettePath: string): Cassette {
+  return JSON.parse(readFileSync(cassettePath, "utf-8"));
+}
+
+const modelName = (model: { provider: string; modelId: string }) =>
+  `${model.provider}:${model.modelId}`;
+
+/** Cassettes being recorded, shared by all models recording to the same file. */
+const recordings = new Map<string, Cassette>();
+
+/**
+ * Wraps a model so every call and its response is written to a cassette. The
+ * file is rewritten after each call, an interrupted run keeps what it recorded.
+ * The first model recorded to a file becomes the cassette's own model.
+ */
+export function recordCassette(
+  model: LanguageModelV2,
+  cassettePath: string
+): LanguageModelV2 {
+  const resolvedPath = path.resolve(cassettePath);
+  let cassette = recordings.get(resolvedPath);
+  if (!cassette) {
+    cassette = {
+      provider: model.provider,
+      modelId: model.modelId,
+      interactions: [],
+    };
+    recordings.set(resolvedPath, cassette);
+    mkdirSync(path.dirname(resolvedPath), { recursive: true });
+  }
+  const name =
+    modelName(model) === modelName(cassette) ? undefined : modelName(model);
+
+  return wrapLanguageModel({
+    model,
+    middleware: {
+      wrapGenerate: async ({ doGenerate, params }) => {
+        const result = await doGenerate();
+        cassette.interactions.push({
+          key: getRequestKey(params),
+          ...(name ? { model: name } : {}),
+          request: toRequest(params),
+          response: {
+            content: result.content,
+            finishReason: result.finishReason,
+            usage: result.usage,
+            providerMetadata: result.providerMetadata,
+            warnings: result.warnings,
+          },
+        });
+        writeFileSync(cassettePath, JSON.stringify(cassette, null, 2));
+        return result;
+      },
+    },
+  });
+}
+
+/**
+ * Answers with the responses of a cassette without any network access. Equal
+ * requests get their recorded responses in order; a request that was not
+ * recorded, or was recorded fewer times, fails instead of being answered.
+ */
+export class ReplayLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2";
+  readonly supportedUrls = {};
+  readonly provider: string;
+  readonly modelId: string;
+  private responses = new Map<string, CassetteResponse[]>();
+
+  /**
+   * Replays the calls of `model`, by default the cassette's own model. Keeps
+   * the ids of the recorded model, so cache keys and chunking match.
+   */
+  constructor(
+    cassette: Cassette,
+    private cassettePath: string,
+    model: { provider: string; modelId: string } = cassette
+  ) {
+    this.provider = model.provider;
+    this.modelId = model.modelId;
+    const name =
+      modelName(model) === modelName(cassette) ? undefined : modelName(model);
+    for (const interaction of cassette.interactions) {
+      if (interaction.model !== name) continue;
+      const { key, response } = interaction;
+      this.responses.set(key, [...(this.responses.get(key) ?? []), response]);
+    }
+  }
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const response = this.responses.get(getRequestKey(options))?.shift();
+    if (!response) {
+      const conversation = options.prompt.filter(
+        (message) => message.role !== "system"
+      );
+      throw new Error(
+        `Cassette ${this.cassettePath} has no recorded response for this request, record it again with --record:\n${promptToText(conversation).slice(0, 500)}`
+      );
+    }
+    return { ...response, warnings: response.warnings ?? [] };
+  }
+
+  async doStream(): Promise<never> {
+    throw new Error("Replayed cassettes do not support streaming");
+  }
+}
+
+export function replayCassette(
+  cassettePath: string,
+  model?: { provider: string; modelId: string }
+): LanguageModelV2 {
+  return new ReplayLanguageModel(
+    loadCassette(cassettePath),
+    cassettePath,
+    model
+  );
+}
@@ -0,0 +1,51 @@
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { createBedrockModel } from "./bedrock";
+import { createMockModel } from "./mock";
+import { createOpenAICompatibleModel } from "./openaiCompatible";
+import { ProviderConfig, ProviderType } from "../core";
+
+export * from "./bedrock";
+export * from "./cassette";
+export * from "./mock";
+export * from "./openaiCompatible";
+
+const PROVIDER_TYPES: ProviderType[] = ["bedrock", "openai-compatible", "mock"];
+
+/**
+ * Combines the provider of the configuration file with CLI overrides. Without
+ * any configuration the analyzer uses Bedrock, like it always did.
+ */
+export function resolveProviderConfig(
+  config: ProviderConfig | undefined,
+  overrides: { provider?: string; model?: string } = {}
+): ProviderConfig {
+  const type = (overrides.provider ??
+    config?.type ??
+    "bedrock") as ProviderType;
+  if (!PROVIDER_TYPES.includes(type)) {
+    throw new Error(
+      `Unknown provider '${type}', expected one of ${PROVIDER_TYPES.join(", ")}`
+    );
+  }
+  // Settings of a different provider type do not apply.
+  const base = config?.type === type ? config : { type };
+  return { ...base, model: overrides.model ?? base.model };
+}
+
+export function createModel(config: ProviderConfig): LanguageModelV2 {
+  switch (config.type) {
+    case "bedrock":
+      return createBedrockModel(config);
+    case "openai-compatible":
+      return createOpenAICompatibleModel(config);
+    case "mock":
+      return createMockModel(config);
+  }
+}
+
+/**
+ * Identifies a model across providers, e.g. for cache keys.
+ */
+export function getModelId(model: LanguageModelV2): string {
+  return `${model.provider}:${model.modelId}`;
+}
@@ -0,0 +1,53 @@
+import { generateObject, generateText, stepCountIs, tool } from "ai";
+import { z } from "zod";
+import { MockLanguageModel } from "./mock";
+
+describe("MockLanguageModel", () => {
+  const model = new MockLanguageModel("test", {
+    responses: [
+      {
+        match: "/file (a|b)\\.sh/",
+        toolCalls: [{ toolName: "lookup", input: { name: "config" } }],
+        text: "done",
+      },
+      { match: "credentials", object: { credentials: [] } },
+    ],
+  });
+
+  test("calls tools once before answering", async () => {
+    const lookups: string[] = [];
+    const result = await generateText({
+      model,
+      prompt: "Analyze file a.sh",
+      tools: {
+        lookup: tool({
+          inputSchema: z.object({ name: z.string() }),
+          execute: async ({ name }) => {
+            lookups.push(name);
+            return "found";
+          },
+        }),
+      },
+      stopWhen: stepCountIs(5),
+    });
+
+    expect(lookups).toEqual(["config"]);
+    expect(result.text).toBe("done");
+  });
+
+  test("answers with scripted objects", async () => {
+    const result = await generateObject({
+      model,
+      schema: z.object({ credentials: z.array(z.string()) }),
+      prompt: "Find credentials",
+    });
+
+    expect(result.object).toEqual({ credentials: [] });
+  });
+
+  test("fails on prompts without a scripted response", async () => {
+    await expect(
+      generateText({ model, prompt: "Something else" })
+    ).rejects.toThrow("no scripted response");
+  });
+});
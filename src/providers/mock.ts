@@ -0,0 +1,129 @@
+import { readFileSync } from "fs";
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Content,
+  LanguageModelV2Prompt,
+} from "@ai-sdk/provider";
+import { ProviderConfig } from "../core";
+
+export interface MockResponse {
+  /**
+   * Substring the prompt must contain, or a regular expression written as
+   * `/pattern/flags`. Responses without `match` match every prompt.
+   */
+  match?: string;
+  /** Raw text the model answers with. */
+  text?: string;
+  /** Object the model answers with, serialized as JSON. */
+  object?: unknown;
+  /** Tools the model calls before answering. */
+  toolCalls?: { toolName: string; input: unknown }[];
+}
+
+export interface MockScript {
+  responses: MockResponse[];
+}
+
+/**
+ * Flattens the text of all messages, so scripted responses can match any part
+ * of the system prompt, the user prompt or earlier tool results.
+ */
+export function promptToText(prompt: LanguageModelV2Prompt): string {
+  return prompt
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content
+            .map((part) => {
+              if (part.type === "text") return part.text;
+              if (part.type === "tool-result")
+                return JSON.stringify(part.output);
+              return "";
+            })
+            .join("\n")
+    )
+    .join("\n");
+}
+
+function matches(response: MockResponse, text: string): boolean {
+  if (response.match === undefined) return true;
+  const regex = response.match.match(/^\/(.*)\/([a-z]*)$/s);
+  return regex
+    ? new RegExp(regex[1], regex[2]).test(text)
+    : text.includes(response.match);
+}
+
+/**
+ * Deterministic offline model that answers with scripted responses. The first
+ * response whose `match` is found in the prompt wins; a prompt without any
+ * matching response fails loudly instead of returning something made up.
+ */
+export class MockLanguageModel implements LanguageModelV2 {
+  readonly specificationVersion = "v2";
+  readonly provider = "mock";
+  readonly supportedUrls = {};
+  private callCount = 0;
+
+  constructor(
+    readonly modelId: string,
+    private script: MockScript
+  ) {}
+
+  async doGenerate(options: LanguageModelV2CallOptions) {
+    const text = promptToText(options.prompt);
+    const response = this.script.responses.find((r) => matches(r, text));
+    if (!response) {
+      throw new Error(
+        `Mock model ${this.modelId} has no scripted response for prompt:\n${text.slice(0, 500)}`
+      );
+    }
+
+    // Tools are only called once; the follow-up step gets the final answer.
+    const lastMessage = options.prompt[options.prompt.length - 1];
+    const content: LanguageModelV2Content[] = [];
+    if (response.toolCalls?.length && lastMessage?.role !== "tool") {
+      for (const toolCall of response.toolCalls) {
+        content.push({
+          type: "tool-call",
+          toolCallId: `mock-call-${++this.callCount}`,
+          toolName: toolCall.toolName,
+          input: JSON.stringify(toolCall.input),
+        });
+      }
+    } else {
+      content.push({
+        type: "text",
+        text: response.text ?? JSON.stringify(response.object ?? {}),
+      });
+    }
+
+    const outputText = content
+      .map((part) => (part.type === "text" ? part.text : ""))
+      .join("");
+    return {
+      content,
+      finishReason:
+        content[0].type === "tool-call"
+          ? ("tool-calls" as const)
+          : ("stop" as const),
+      usage: {
+        inputTokens: Math.ceil(text.length / 4),
+        outputTokens: Math.ceil(outputText.length / 4),
+        totalTokens: Math.ceil((text.length + outputText.length) / 4),
+      },
+      warnings: [],
+    };
+  }
+
+  async doStream(): Promise<never> {
+    throw new Error("The mock provider does not support streaming");
+  }
+}
+
+export function createMockModel(config: ProviderConfig): LanguageModelV2 {
+  const script: MockScript = config.script
+    ? JSON.parse(readFileSync(config.script, "utf-8"))
+    : { responses: [] };
+  return new MockLanguageModel(config.model ?? "mock", script);
+}
@@ -0,0 +1,30 @@
+import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { ProviderConfig } from "../core";
+
+/**
+ * Model served by any OpenAI-compatible HTTP endpoint, e.g. a local llama.cpp
+ * or Ollama server.
+ */
+export function createOpenAICompatibleModel(
+  config: ProviderConfig
+): LanguageModelV2 {
+  const baseURL = config.baseURL ?? process.env.OPENAI_BASE_URL;
+  if (!baseURL) {
+    throw new Error(
+      "The openai-compatible provider needs a baseURL (config.provider.baseURL or OPENAI_BASE_URL)"
+    );
+  }
+  if (!config.model) {
+    throw new Error(
+      "The openai-compatible provider needs a model (config.provider.model or --model)"
+    );
+  }
+
+  const provider = createOpenAICompatible({
+    name: "openai-compatible",
+    baseURL,
+    apiKey: config.apiKey ?? process.env.OPENAI_API_KEY,
+  });
+  return provider(config.model);
+}
@@ -0,0 +1,126 @@
+import { readFile, writeFile, rename, mkdir } from "fs/promises";
+import path from "path";
+import { FileAnalysisOutput } from "../agents";
+import { AnalysisEngine } from "../core";
+import { type FileDependency } from "../output/visualizeDependencies";
+
+export const STATE_FILE_NAME = ".analyzer-state.json";
+const STATE_VERSION = 3;
+
+export interface QueueEntry {
+  pwd: string;
+  path: string;
+  args: string[];
+  description?: string | undefined;
+  fileType?: string | undefined;
+  /** Environment the file is started with, inherited by what it executes. */
+  env?: Record<string, string> | undefined;
+}
+
+/**
+ * Identifies the exact input a file was analyzed with, so a later run can tell
+ * whether the stored result is still valid.
+ */
+export interface FileFingerprint {
+  /** SHA-256 of the mapped file content. */
+  hash: string;
+  mtimeMs: number;
+  size: number;
+  pwd: string;
+  args: string[];
+  env?: Record<string, string> | undefined;
+  /** Engine that analyzed the file, results of another engine are not reused. */
+  engine?: AnalysisEngine;
+}
+
+/**
+ * Everything the analyze loop needs to continue where it stopped.
+ */
+export interface AnalysisState {
+  entryPoints: QueueEntry[];
+  processQueue: QueueEntry[];
+  processedFiles: Set<string>;
+  fileDependencies: Map<string, FileDependency[]>;
+  /** Analysis result of every processed file, keyed by absolute path. */
+  results: Map<string, FileAnalysisOutput>;
+  fingerprints: Map<string, FileFingerprint>;
+  currentIteration: number;
+}
+
+type SerializedAnalysisState = {
+  version: number;
+  updatedAt: string;
+  entryPoints: QueueEntry[];
+  processQueue: QueueEntry[];
+  processedFiles: string[];
+  fileDependencies: Record<string, FileDependency[]>;
+  results: Record<string, FileAnalysisOutput>;
+  fingerprints: Record<string, FileFingerprint>;
+  currentIteration: number;
+};
+
+export function createAnalysisState(entryPoints: QueueEntry[]): AnalysisState {
+  return {
+    entryPoints: [...entryPoints],
+    processQueue: [...entryPoints],
+    processedFiles: new Set<string>(),
+    fileDependencies: new Map<string, FileDependency[]>(),
+    results: new Map<string, FileAnalysisOutput>(),
+    fingerprints: new Map<string, FileFingerprint>(),
+    currentIteration: 0,
+  };
+}
+
+export function getStateFilePath(outDir: string): string {
+  return path.resolve(outDir, STATE_FILE_NAME);
+}
+
+/**
+ * Writes the state to a temporary file first and renames it afterwards, so a
+ * crash during the write never leaves a truncated checkpoint behind.
+ */
+export async function saveAnalysisState(
+  filePath: string,
+  state: AnalysisState
+): Promise<void> {
+  const serialized: SerializedAnalysisState = {
+    version: STATE_VERSION,
+    updatedAt: new Date().toISOString(),
+    entryPoints: state.entryPoints,
+    processQueue: state.processQueue,
+    processedFiles: [...state.processedFiles],
+    fileDependencies: Object.fromEntries(state.fileDependencies),
+    results: Object.fromEntries(state.results),
+    fingerprints: Object.fromEntries(state.fingerprints),
+    currentIteration: state.currentIteration,
+  };
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  const tmpFile = `${filePath}.tmp`;
+  await writeFile(tmpFile, JSON.stringify(serialized, null, 2));
+  await rename(tmpFile, filePath);
+}
+
+export async function loadAnalysisState(
+  filePath: string
+): Promise<AnalysisState> {
+  const serialized: SerializedAnalysisState = JSON.parse(
+    await readFile(filePath, "utf-8")
+  );
+
+  if (serialized.version !== STATE_VERSION) {
+    throw new Error(
+      `Unsupported analysis state version ${serialized.version} in ${filePath} (expected ${STATE_VERSION})`
+    );
+  }
+
+  return {
+    entryPoints: serialized.entryPoints,
+    processQueue: serialized.processQueue,
+    processedFiles: new Set(serialized.processedFiles),
+    fileDependencies: new Map(Object.entries(serialized.fileDependencies)),
+    results: new Map(Object.entries(serialized.results)),
+    fingerprints: new Map(Object.entries(serialized.fingerprints)),
+    currentIteration: serialized.currentIteration,
+  };
+}
@@ -2,7 +2,7 @@ import { readFile, copyFile, mkdir, stat } from "fs/promises";
 import { existsSync } from "fs";
 import path from "path";
 import chalk from "chalk";
-import { PathMapper, Config, resolveUnixPath, isMarkdownFile, extractFileListFromMarkdownFile, ExtractOptions } from "../core";
+import { PathMapper, Config, resolveUnixPath, isMarkdownFile, extractFileListFromMarkdownFile, extractUnresolvedFromMarkdown, ExtractOptions, isArchiveMemberPath, splitArchivePath } from "../core";
 
 export interface CopyStats {
   total: number;
@@ -10,6 +10,10 @@ export interface CopyStats {
   skipped: number;
   missing: number;
   errors: number;
+  /** Paths of the analysis that could not be resolved and are not copied. */
+  unresolved: number;
+  /** Files inside archives, copied as part of their archive. */
+  archiveMembers: number;
 }
 
 export interface CopyFileOptions extends ExtractOptions {
@@ -36,7 +40,9 @@ export class FileCopyService {
       copied: 0,
       skipped: 0,
       missing: 0,
-      errors: 0
+      errors: 0,
+      unresolved: 0,
+      archiveMembers: 0
     };
     
     // Check if input file exists
@@ -45,7 +51,15 @@ export class FileCopyService {
     }
     
     // Determine input type and extract file paths
-    const filePaths = await this.extractFilePaths(inputPath, options);
+    const extractedPaths = await this.extractFilePaths(inputPath, options);
+    
+    // Archive members like /opt/app/tools.zip!/run.sh only exist inside their archive
+    const members = extractedPaths.filter(isArchiveMemberPath);
+    stats.archiveMembers = members.length;
+    const filePaths = [...new Set([
+      ...extractedPaths.filter(filePath => !isArchiveMemberPath(filePath)),
+      ...members.map(member => splitArchivePath(member)!.archivePath)
+    ])];
     
     stats.total = filePaths.length;
     
@@ -58,6 +72,21 @@ export class FileCopyService {
       console.log(chalk.yellow("🔍 DRY RUN MODE - No files will be copied\n"));
     }
     
+    if (options.verbose) {
+      for (const member of members) {
+        console.log(chalk.gray(`📦 Copied with its archive: ${member}`));
+      }
+    }
+    
+    if (inputType === 'markdown') {
+      const unresolved = extractUnresolvedFromMarkdown(await readFile(inputPath, "utf-8"));
+      stats.unresolved = unresolved.length;
+      for (const entry of unresolved) {
+        const blockedBy = entry.variables.length > 0 ? ` (set ${entry.variables.join(", ")})` : "";
+        console.warn(chalk.yellow(`❓ Unresolved ${entry.action} path: ${entry.expression}${blockedBy}`));
+      }
+    }
+    
     for (const filePath of filePaths) {
       try {
         await this.processSingleFile(filePath, outputDir, options, stats);
@@ -161,6 +190,12 @@ export class FileCopyService {
     console.log(`${chalk.gray("⏭️  Skipped:")} ${stats.skipped}`);
     console.log(`${chalk.yellow("⚠️  Missing:")} ${stats.missing}`);
     console.log(`${chalk.red("❌ Errors:")} ${stats.errors}`);
+    if (stats.unresolved > 0) {
+      console.log(`${chalk.yellow("❓ Unresolved:")} ${stats.unresolved}`);
+    }
+    if (stats.archiveMembers > 0) {
+      console.log(`${chalk.gray("📦 Archive members:")} ${stats.archiveMembers}`);
+    }
     
     if (options.dryRun) {
       console.log(chalk.yellow("\n🔍 This was a dry run - no files were actually copied"));
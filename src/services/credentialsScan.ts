@@ -4,6 +4,8 @@ import path from "path";
 import chalk from "chalk";
 import { CredentialsAnalysisAgent, CredentialsAnalysisResult } from "../agents/credentialsAnalysisAgent";
 import { isBinaryFile } from "isbinaryfile";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { addUsage, EMPTY_USAGE, formatUsage, ModelPrice, ModelUsage } from "../core";
 
 export interface CredentialsScanStats {
   filesScanned: number;
@@ -26,6 +28,8 @@ export interface CredentialsScanResult {
   credentials: CredentialEntry[];
   errors: CredentialError[];
   stats: CredentialsScanStats;
+  /** Model usage of all scanned files. */
+  usage?: ModelUsage;
 }
 
 export interface CredentialsScanOptions {
@@ -36,9 +40,9 @@ export interface CredentialsScanOptions {
 export class CredentialsScanService {
   private agent: CredentialsAnalysisAgent;
   
-  constructor() {
+  constructor(model: LanguageModelV2, price?: ModelPrice) {
     // Initialize with empty path mappings since we don't need config
-    this.agent = new CredentialsAnalysisAgent([]);
+    this.agent = new CredentialsAnalysisAgent(model, [], price);
   }
   
   async scanPath(
@@ -52,7 +56,8 @@ export class CredentialsScanService {
         filesScanned: 0,
         credentialsFound: 0,
         errors: 0
-      }
+      },
+      usage: EMPTY_USAGE
     };
     
     // Check if input path exists
@@ -108,6 +113,7 @@ export class CredentialsScanService {
       
       if (analysisResult) {
         if (analysisResult.__type === "success") {
+          result.usage = addUsage(result.usage ?? EMPTY_USAGE, analysisResult.usage);
           const credentials = analysisResult.value.credentials;
           for (const credential of credentials) {
             result.credentials.push({
@@ -172,6 +178,9 @@ export class CredentialsScanService {
     console.log(chalk.blue(`📄 Files scanned: ${result.stats.filesScanned}`));
     console.log(chalk.green(`🔑 Credentials found: ${result.stats.credentialsFound}`));
     console.log(chalk.red(`❌ Errors: ${result.stats.errors}`));
+    if (result.usage?.steps) {
+      console.log(chalk.gray(`💰 Model usage: ${formatUsage(result.usage)}`));
+    }
     
     if (result.credentials.length > 0) {
       console.log(chalk.yellow("\n⚠️  Potential credentials found! Review the output file for details."));
@@ -0,0 +1,234 @@
+import { FileAnalysisOutput } from "../agents";
+import { candidatesToOutput, crossCheck, toHints } from "./crossCheck";
+
+const FILE = "/app/run.sh";
+
+const output = (
+  lists: Partial<FileAnalysisOutput> = {}
+): FileAnalysisOutput => ({
+  readFiles: [],
+  writeFiles: [],
+  executeFiles: [],
+  errors: [],
+  ...lists,
+});
+
+describe("toHints", () => {
+  test("lists the static result before the candidates it does not cover", () => {
+    const hints = toHints(
+      output({
+        readFiles: [{ path: "/etc/app.conf", description: "Sourced" }],
+        executeFiles: [{ pwd: "/app", path: "/app/worker.sh", args: [] }],
+      }),
+      [
+        { path: "/etc/app.conf", action: "reference", evidence: "line 2" },
+        { path: "/var/log/app.log", action: "write", evidence: "line 5" },
+      ]
+    );
+
+    expect(hints).toEqual([
+      { path: "/etc/app.conf", action: "read", evidence: "Sourced" },
+      {
+        path: "/app/worker.sh",
+        action: "execute",
+        evidence: "found by the static analyzer",
+      },
+      { path: "/var/log/app.log", action: "write", evidence: "line 5" },
+    ]);
+  });
+});
+
+describe("candidatesToOutput", () => {
+  test("puts read and write candidates in their lists", () => {
+    const result = candidatesToOutput(
+      [
+        { path: "/etc/app.conf", action: "read", evidence: "line 1" },
+        { path: "/tmp/out.txt", action: "write", evidence: "line 2" },
+      ],
+      "/app"
+    );
+
+    expect(result.readFiles).toEqual([
+      { path: "/etc/app.conf", description: "Literal path, line 1" },
+    ]);
+    expect(result.writeFiles).toEqual([
+      { path: "/tmp/out.txt", description: "Literal path, line 2" },
+    ]);
+  });
+
+  test("executes candidates in pwd with their arguments", () => {
+    const result = candidatesToOutput(
+      [
+        {
+          path: "/app/report.pl",
+          action: "execute",
+          evidence: "line 3",
+          args: ["--daily"],
+        },
+        { path: "/app/cleanup.sh", action: "execute", evidence: "line 4" },
+      ],
+      "/app"
+    );
+
+    expect(result.executeFiles).toEqual([
+      {
+        path: "/app/report.pl",
+        pwd: "/app",
+        args: ["--daily"],
+        description: "Literal path, line 3",
+      },
+      {
+        path: "/app/cleanup.sh",
+        pwd: "/app",
+        args: [],
+        description: "Literal path, line 4",
+      },
+    ]);
+  });
+
+  test("leaves out references", () => {
+    const result = candidatesToOutput(
+      [{ path: "/opt/docs/README", action: "reference", evidence: "line 9" }],
+      "/app"
+    );
+
+    expect(result).toEqual(output());
+  });
+});
+
+describe("crossCheck", () => {
+  test("tags dependencies found by both passes", () => {
+    const result = crossCheck(
+      FILE,
+      output({ readFiles: [{ path: "/etc/app.conf" }] }),
+      output({ readFiles: [{ path: "/etc/app.conf", description: "Config" }] })
+    );
+
+    expect(result.readFiles).toEqual([
+      { path: "/etc/app.conf", description: "Config", source: "both" },
+    ]);
+    expect(result.disagreements).toEqual([]);
+  });
+
+  test("counts literal references as found by the static pass", () => {
+    const result = crossCheck(
+      FILE,
+      output(),
+      output({ writeFiles: [{ path: "/var/log/app.log" }] }),
+      [{ path: "/var/log/app.log", action: "reference", evidence: "line 5" }]
+    );
+
+    expect(result.writeFiles).toEqual([
+      { path: "/var/log/app.log", source: "both" },
+    ]);
+    expect(result.disagreements).toEqual([]);
+  });
+
+  test("reports dependencies only the model found", () => {
+    const result = crossCheck(
+      FILE,
+      output(),
+      output({
+        executeFiles: [{ pwd: "/app", path: "/app/worker.sh", args: [] }],
+      })
+    );
+
+    expect(result.executeFiles).toEqual([
+      { pwd: "/app", path: "/app/worker.sh", args: [], source: "llm" },
+    ]);
+    expect(result.disagreements).toEqual([
+      {
+        file: FILE,
+        path: "/app/worker.sh",
+        action: "execute",
+        source: "llm",
+        reason: "Not found by the static pass",
+      },
+    ]);
+  });
+
+  test("reports dependencies the passes classified differently", () => {
+    const result = crossCheck(
+      FILE,
+      output({ readFiles: [{ path: "/app/data.txt" }] }),
+      output({ writeFiles: [{ path: "/app/data.txt" }] })
+    );
+
+    expect(result.writeFiles).toEqual([
+      { path: "/app/data.txt", source: "both" },
+    ]);
+    expect(result.readFiles).toEqual([]);
+    expect(result.disagreements).toEqual([
+      {
+        file: FILE,
+        path: "/app/data.txt",
+        action: "write",
+        source: "llm",
+        reason: "The static pass classified it as read",
+      },
+    ]);
+  });
+
+  test("keeps static dependencies the model did not mention", () => {
+    const result = crossCheck(
+      FILE,
+      output({ readFiles: [{ path: "/etc/app.conf" }] }),
+      output()
+    );
+
+    expect(result.readFiles).toEqual([
+      { path: "/etc/app.conf", source: "static" },
+    ]);
+    expect(result.disagreements).toEqual([
+      {
+        file: FILE,
+        path: "/etc/app.conf",
+        action: "read",
+        source: "static",
+        reason: "Not confirmed by the model",
+      },
+    ]);
+  });
+
+  test("drops static dependencies the model rejected", () => {
+    const result = crossCheck(
+      FILE,
+      output({ readFiles: [{ path: "/etc/old.conf" }] }),
+      output({
+        rejected: [{ path: "/etc/old.conf", reason: "Commented out" }],
+      })
+    );
+
+    expect(result.readFiles).toEqual([]);
+    expect(result.disagreements).toEqual([
+      {
+        file: FILE,
+        path: "/etc/old.conf",
+        action: "read",
+        source: "static",
+        reason: "Rejected by the model: Commented out",
+      },
+    ]);
+  });
+
+  test("merges the errors and unresolved paths of both passes", () => {
+    const unresolved = {
+      expression: "$DATA_DIR/input.csv",
+      variables: ["DATA_DIR"],
+      action: "read" as const,
+    };
+    const result = crossCheck(
+      FILE,
+      output({
+        errors: [{ path: "/app/lib.sh", pwd: "/app", error: "Not found" }],
+        unresolved: [unresolved],
+      }),
+      output({ unresolved: [unresolved] })
+    );
+
+    expect(result.errors).toEqual([
+      { path: "/app/lib.sh", pwd: "/app", error: "Not found" },
+    ]);
+    expect(result.unresolved).toEqual([unresolved]);
+  });
+});
@@ -0,0 +1,177 @@
+import { FileAnalysisOutput } from "../agents";
+import { Disagreement, PathCandidate } from "../core";
+
+type Action = Disagreement["action"];
+
+const ACTIONS = [
+  ["readFiles", "read"],
+  ["writeFiles", "write"],
+  ["executeFiles", "execute"],
+] as const;
+
+/** Maps every path of an analysis output to the actions it was found with. */
+function actionsByPath(output: FileAnalysisOutput): Map<string, Set<Action>> {
+  const actions = new Map<string, Set<Action>>();
+  for (const [key, action] of ACTIONS) {
+    for (const entry of output[key]) {
+      const pathActions = actions.get(entry.path) ?? new Set<Action>();
+      pathActions.add(action);
+      actions.set(entry.path, pathActions);
+    }
+  }
+  return actions;
+}
+
+/**
+ * Turns the static result and the literal path candidates of a file into
+ * the hints of the hybrid prompt. Candidates that the static result already
+ * covers are left out.
+ */
+export function toHints(
+  staticOutput: FileAnalysisOutput,
+  candidates: PathCandidate[]
+): PathCandidate[] {
+  const hints: PathCandidate[] = [];
+  for (const [key, action] of ACTIONS) {
+    for (const entry of staticOutput[key]) {
+      hints.push({
+        path: entry.path,
+        action,
+        evidence: entry.description ?? "found by the static analyzer",
+      });
+    }
+  }
+  const covered = new Set(hints.map((hint) => hint.path));
+  return [
+    ...hints,
+    ...candidates.filter((candidate) => !covered.has(candidate.path)),
+  ];
+}
+
+/**
+ * Turns literal path candidates into an analysis output for languages
+ * without a static analyzer. References are left out, their use is unknown.
+ */
+export function candidatesToOutput(
+  candidates: PathCandidate[],
+  pwd: string
+): FileAnalysisOutput {
+  const output: FileAnalysisOutput = {
+    readFiles: [],
+    writeFiles: [],
+    executeFiles: [],
+    errors: [],
+  };
+  for (const candidate of candidates) {
+    const description = `Literal path, ${candidate.evidence}`;
+    if (candidate.action === "read") {
+      output.readFiles.push({ path: candidate.path, description });
+    } else if (candidate.action === "write") {
+      output.writeFiles.push({ path: candidate.path, description });
+    } else if (candidate.action === "execute") {
+      output.executeFiles.push({
+        path: candidate.path,
+        pwd,
+        args: candidate.args ?? [],
+        description,
+      });
+    }
+  }
+  return output;
+}
+
+/**
+ * Merges the static pass and the model's answer of the hybrid engine. Every
+ * dependency is tagged with the pass that found it. Dependencies found by
+ * only one pass, classified differently by the two or rejected by the model
+ * are reported as disagreements. Rejected dependencies are dropped, the
+ * ones the model merely did not mention are kept.
+ */
+export function crossCheck(
+  file: string,
+  staticOutput: FileAnalysisOutput,
+  llmOutput: FileAnalysisOutput,
+  references: PathCandidate[] = []
+): FileAnalysisOutput {
+  const staticActions = actionsByPath(staticOutput);
+  const llmActions = actionsByPath(llmOutput);
+  const referenced = new Set(references.map((reference) => reference.path));
+  const rejected = new Map(
+    (llmOutput.rejected ?? []).map((entry) => [entry.path, entry.reason])
+  );
+  const disagreements: Disagreement[] = [];
+
+  const merged: FileAnalysisOutput = {
+    readFiles: [],
+    writeFiles: [],
+    executeFiles: [],
+    errors: [...staticOutput.errors, ...llmOutput.errors],
+    ...(staticOutput.notFound ? { notFound: staticOutput.notFound } : {}),
+    ...(llmOutput.audit ? { audit: llmOutput.audit } : {}),
+    ...(llmOutput.usage ? { usage: llmOutput.usage } : {}),
+  };
+
+  for (const [key, action] of ACTIONS) {
+    const target = merged[key] as FileAnalysisOutput[typeof key][number][];
+
+    for (const entry of llmOutput[key]) {
+      const staticAction = staticActions.get(entry.path);
+      const foundStatically = !!staticAction || referenced.has(entry.path);
+      target.push({ ...entry, source: foundStatically ? "both" : "llm" });
+      if (!foundStatically) {
+        disagreements.push({
+          file,
+          path: entry.path,
+          action,
+          source: "llm",
+          reason: "Not found by the static pass",
+        });
+      } else if (staticAction && !staticAction.has(action)) {
+        disagreements.push({
+          file,
+          path: entry.path,
+          action,
+          source: "llm",
+          reason: `The static pass classified it as ${[...staticAction].join(
+            " and "
+          )}`,
+        });
+      }
+    }
+
+    for (const entry of staticOutput[key]) {
+      if (llmActions.has(entry.path)) continue;
+      const reason = rejected.get(entry.path);
+      disagreements.push({
+        file,
+        path: entry.path,
+        action,
+        source: "static",
+        reason: reason
+          ? `Rejected by the model: ${reason}`
+          : "Not confirmed by the model",
+      });
+      if (!reason) {
+        target.push({ ...entry, source: "static" });
+      }
+    }
+  }
+
+  const unresolved = [
+    ...(staticOutput.unresolved ?? []),
+    ...(llmOutput.unresolved ?? []),
+  ];
+  if (unresolved.length > 0) {
+    merged.unresolved = unresolved.filter(
+      (entry, index) =>
+        unresolved.findIndex(
+          (other) =>
+            other.expression === entry.expression &&
+            other.action === entry.action
+        ) === index
+    );
+  }
+
+  merged.disagreements = disagreements;
+  return merged;
+}
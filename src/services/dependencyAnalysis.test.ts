@@ -0,0 +1,485 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { Config } from "../core";
+import {
+  visualizeDependencyGraph,
+  writeOutputFile,
+} from "../output/visualizeDependencies";
+import { MockLanguageModel, MockResponse } from "../providers";
+import {
+  AnalysisState,
+  createAnalysisState,
+  loadAnalysisState,
+} from "./analysisState";
+import {
+  DependencyAnalysisOptions,
+  DependencyAnalysisService,
+  IncrementalSummary,
+} from "./dependencyAnalysis";
+
+const { analyzeEntry: originalAnalyzeEntry } =
+  DependencyAnalysisService.prototype;
+
+/** Minimal ELF header, detected as a binary of type `elf`. */
+const ELF_HEADER = Buffer.from([
+  0x7f, 0x45, 0x4c, 0x46, 2, 1, 1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 2, 0, 0x3e, 0, 1,
+  0, 0, 0,
+]);
+
+/** Writes the files below a temporary directory mapped to `/app`. */
+function createTree(files: Record<string, string | Buffer>): {
+  dir: string;
+  config: Config;
+} {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "analysis-"));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(path.join(dir, name), content);
+  }
+  return {
+    dir,
+    config: { pwd: "/app", pathMappings: [{ from: "/app", to: dir }] },
+  };
+}
+
+/** Analyzes the entry points and returns the markdown report. */
+async function report(
+  service: DependencyAnalysisService,
+  dir: string,
+  entryPoint: string,
+  options: Partial<DependencyAnalysisOptions> = {}
+): Promise<string> {
+  const state = createAnalysisState([
+    { pwd: "/app", path: entryPoint, args: [] },
+  ]);
+  await service.analyze(state, {
+    statePath: path.join(dir, "state.json"),
+    ...options,
+  });
+  const { output, fileDependencies } = service.collectResults(state);
+  return writeOutputFile({
+    outDir: dir,
+    analysisResult: output,
+    dependencies: fileDependencies,
+    entryPoints: [entryPoint],
+  });
+}
+
+const analyzedPaths = (spy: jest.SpyInstance) =>
+  spy.mock.calls.map(([entry]) => entry.path);
+
+describe("DependencyAnalysisService", () => {
+  let analyzeEntry: jest.SpyInstance;
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "info").mockImplementation(() => {});
+    analyzeEntry = jest.spyOn(
+      DependencyAnalysisService.prototype,
+      "analyzeEntry"
+    );
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  describe("resume", () => {
+    const { dir, config } = createTree({
+      "run.sh":
+        "#!/bin/sh\n/app/a.sh --fast\nexport DATA=/app/data\n/app/b.sh\n/app/tool\n",
+      "a.sh": "#!/bin/sh\n/app/c.sh\n",
+      "b.sh": '#!/bin/sh\ncat "$DATA/in.txt"\n',
+      "c.sh": "#!/bin/sh\necho done > /app/out.log\n",
+      tool: ELF_HEADER,
+    });
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+    const statePath = path.join(dir, "state.json");
+
+    test("continues a stopped run from its checkpoint", async () => {
+      const stopped = createAnalysisState([
+        {
+          pwd: "/app",
+          path: "/app/run.sh",
+          args: [],
+          env: { HOME: "/home/app" },
+        },
+      ]);
+      await new DependencyAnalysisService(config, undefined, {
+        engine: "static",
+      }).analyze(stopped, { statePath, maxIterations: 1 });
+
+      const checkpoint: AnalysisState = await loadAnalysisState(statePath);
+      expect(checkpoint.currentIteration).toBe(1);
+      expect([...checkpoint.processedFiles]).toEqual(["/app/run.sh"]);
+      expect(checkpoint.processQueue).toEqual([
+        {
+          pwd: "/app",
+          path: "/app/a.sh",
+          args: ["--fast"],
+          env: { HOME: "/home/app" },
+        },
+        {
+          pwd: "/app",
+          path: "/app/b.sh",
+          args: [],
+          env: { HOME: "/home/app", DATA: "/app/data" },
+        },
+        {
+          pwd: "/app",
+          path: "/app/tool",
+          args: [],
+          env: { HOME: "/home/app", DATA: "/app/data" },
+          fileType: "elf",
+        },
+      ]);
+
+      analyzeEntry.mockClear();
+      const resumed = await new DependencyAnalysisService(config, undefined, {
+        engine: "static",
+      }).analyze(checkpoint, { statePath });
+
+      expect(analyzedPaths(analyzeEntry)).toEqual([
+        "/app/a.sh",
+        "/app/b.sh",
+        "/app/c.sh",
+      ]);
+      expect(resumed.currentIteration).toBe(5);
+      expect([...resumed.processedFiles].sort()).toEqual([
+        "/app/a.sh",
+        "/app/b.sh",
+        "/app/c.sh",
+        "/app/run.sh",
+        "/app/tool",
+      ]);
+      expect(resumed.results.get("/app/b.sh")?.readFiles).toEqual([
+        expect.objectContaining({ path: "/app/data/in.txt" }),
+      ]);
+    });
+  });
+
+  describe("concurrency", () => {
+    // shared.sh is reached with a different environment through a.sh and b.sh.
+    const { dir, config } = createTree({
+      "run.sh": "#!/bin/sh\n/app/a.sh\n/app/b.sh\n",
+      "a.sh": "#!/bin/sh\nexport NAME=a\n/app/shared.sh\n",
+      "b.sh": "#!/bin/sh\nexport NAME=b\n/app/shared.sh\n/app/c.sh\n",
+      "c.sh": "#!/bin/sh\necho done > /app/c.log\n",
+      "shared.sh": '#!/bin/sh\necho done > "/app/$NAME.log"\n',
+    });
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    test("reports the same as a sequential run", async () => {
+      // a.sh finishes last, after the files started behind it.
+      analyzeEntry.mockImplementation(async function (
+        this: DependencyAnalysisService,
+        entry
+      ) {
+        if (entry.path === "/app/a.sh") {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        return originalAnalyzeEntry.call(this, entry);
+      });
+      const analyze = (
+        concurrency: number,
+        options: Partial<DependencyAnalysisOptions> = {}
+      ) =>
+        report(
+          new DependencyAnalysisService(config, undefined, {
+            engine: "static",
+          }),
+          dir,
+          "/app/run.sh",
+          { concurrency, ...options }
+        );
+
+      const sequential = await analyze(1);
+      expect(sequential).toContain("/app/a.log");
+      expect(sequential).not.toContain("/app/b.log");
+      expect(await analyze(4)).toBe(sequential);
+      expect(await analyze(4, { maxIterations: 4 })).toBe(
+        await analyze(1, { maxIterations: 4 })
+      );
+    });
+
+    test("finishes the files in flight before rethrowing a failure", async () => {
+      analyzeEntry.mockImplementation(async function (
+        this: DependencyAnalysisService,
+        entry
+      ) {
+        if (entry.path === "/app/b.sh") {
+          throw new Error("b.sh failed");
+        }
+        if (entry.path === "/app/a.sh") {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        }
+        return originalAnalyzeEntry.call(this, entry);
+      });
+      const statePath = path.join(dir, "failed.json");
+      const state = createAnalysisState([
+        { pwd: "/app", path: "/app/run.sh", args: [] },
+      ]);
+
+      await expect(
+        new DependencyAnalysisService(config, undefined, {
+          engine: "static",
+        }).analyze(state, { statePath, concurrency: 4 })
+      ).rejects.toThrow("b.sh failed");
+
+      expect(analyzedPaths(analyzeEntry)).toEqual([
+        "/app/run.sh",
+        "/app/a.sh",
+        "/app/b.sh",
+      ]);
+      const checkpoint = await loadAnalysisState(statePath);
+      expect([...checkpoint.processedFiles]).toEqual([
+        "/app/run.sh",
+        "/app/a.sh",
+      ]);
+      expect(checkpoint.processQueue.map((entry) => entry.path)).toEqual([
+        "/app/b.sh",
+        "/app/shared.sh",
+      ]);
+      expect(checkpoint.currentIteration).toBe(2);
+    });
+
+    test("does not count skipped duplicates as iterations", async () => {
+      const state = createAnalysisState([
+        { pwd: "/app", path: "/app/run.sh", args: [] },
+        { pwd: "/app", path: "/app/run.sh", args: [] },
+      ]);
+
+      await new DependencyAnalysisService(config, undefined, {
+        engine: "static",
+      }).analyze(state, {
+        statePath: path.join(dir, "duplicates.json"),
+        maxIterations: 2,
+      });
+
+      expect(analyzedPaths(analyzeEntry)).toEqual(["/app/run.sh", "/app/a.sh"]);
+      expect(state.currentIteration).toBe(2);
+    });
+  });
+
+  describe("since a previous run", () => {
+    const { dir, config } = createTree({
+      "run.sh": "#!/bin/sh\n/app/a.sh\n/app/b.sh\n",
+      "a.sh": "#!/bin/sh\necho done > /app/a.log\n",
+      "b.sh": "#!/bin/sh\n/app/old.sh\n",
+      "old.sh": "#!/bin/sh\necho done > /app/old.log\n",
+      "new.sh": "#!/bin/sh\necho done > /app/new.log\n",
+    });
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    const analyze = async (previous?: AnalysisState) => {
+      const service = new DependencyAnalysisService(config, undefined, {
+        engine: "static",
+      });
+      const state = createAnalysisState([
+        { pwd: "/app", path: "/app/run.sh", args: [] },
+      ]);
+      await service.analyze(state, {
+        statePath: path.join(dir, "state.json"),
+        previous,
+      });
+      return { service, state };
+    };
+
+    // b.sh executes new.sh instead of old.sh in the second run.
+    let analyzed: string[];
+    let summary: IncrementalSummary;
+    let graph: string[];
+    beforeAll(async () => {
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      jest.spyOn(console, "info").mockImplementation(() => {});
+      const { state: previous } = await analyze();
+      writeFileSync(path.join(dir, "b.sh"), "#!/bin/sh\n/app/new.sh\n");
+
+      const spy = jest.spyOn(
+        DependencyAnalysisService.prototype,
+        "analyzeEntry"
+      );
+      const { service, state } = await analyze(previous);
+      analyzed = analyzedPaths(spy);
+      summary = service.summarizeChanges(state, previous);
+      graph = [...service.collectResults(state).fileDependencies.keys()];
+      jest.restoreAllMocks();
+    });
+
+    test("reuses the results of unchanged files", () => {
+      expect(summary.reused).toEqual(["/app/run.sh", "/app/a.sh"]);
+      expect(analyzed).not.toContain("/app/run.sh");
+      expect(analyzed).not.toContain("/app/a.sh");
+      expect(graph).toContain("/app/a.sh");
+    });
+
+    test("re-analyzes changed files", () => {
+      expect(summary.changed).toEqual(["/app/b.sh"]);
+      expect(analyzed).toContain("/app/b.sh");
+    });
+
+    test("analyzes files that were not part of the previous run", () => {
+      expect(summary.added).toEqual(["/app/new.sh"]);
+      expect(analyzed).toContain("/app/new.sh");
+      expect(graph).toContain("/app/new.sh");
+    });
+
+    test("removes files that are no longer executed", () => {
+      expect(summary.removed).toEqual(["/app/old.sh"]);
+      expect(graph).not.toContain("/app/old.sh");
+    });
+  });
+
+  describe("self-consistency", () => {
+    const { dir, config } = createTree({
+      "run.sh": "./worker.sh\n",
+      "worker.sh": "echo work\n",
+    });
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    const answer = (executeFiles: string[]): MockResponse => ({
+      match: "Main File: /app/run.sh",
+      object: {
+        readFiles: [{ path: "/app/app.conf" }],
+        writeFiles: [],
+        executeFiles: executeFiles.map((p) => ({
+          pwd: "/app",
+          path: p,
+          args: [],
+        })),
+        errors: [],
+      },
+    });
+
+    test("keeps uncertain executables out of the queue and the graph", async () => {
+      const service = new DependencyAnalysisService(
+        config,
+        new MockLanguageModel("first", {
+          responses: [answer(["/app/worker.sh"])],
+        }),
+        {
+          useCache: false,
+          responseDir: dir,
+          samples: 2,
+          minConfidence: 1,
+          samplingModels: [
+            new MockLanguageModel("second", { responses: [answer([])] }),
+          ],
+        }
+      );
+      const state = createAnalysisState([
+        { pwd: "/app", path: "/app/run.sh", args: [] },
+      ]);
+
+      await service.analyze(state, { statePath: path.join(dir, "state.json") });
+
+      expect(analyzedPaths(analyzeEntry)).toEqual(["/app/run.sh"]);
+      const { output, fileDependencies } = service.collectResults(state);
+      expect(output.uncertain).toEqual([
+        {
+          path: "/app/worker.sh",
+          action: "execute",
+          confidence: 0.5,
+          file: "/app/run.sh",
+        },
+      ]);
+      expect(visualizeDependencyGraph(fileDependencies, ["/app/run.sh"])).toBe(
+        ["[E] /app/run.sh", "|__ [R] /app/app.conf (confidence 100%)"].join(
+          "\n"
+        )
+      );
+    });
+  });
+
+  describe("with the mock provider", () => {
+    const repoRoot = path.resolve(__dirname, "../..");
+    const dir = mkdtempSync(path.join(os.tmpdir(), "example-"));
+    afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+    const analysis = (
+      file: string,
+      result: {
+        readFiles?: string[];
+        writeFiles?: string[];
+        executeFiles?: { path: string; args: string[] }[];
+      }
+    ): MockResponse => ({
+      match: `Main File: /root/example/${file}`,
+      object: {
+        readFiles: (result.readFiles ?? []).map((p) => ({ path: p })),
+        writeFiles: (result.writeFiles ?? []).map((p) => ({ path: p })),
+        executeFiles: (result.executeFiles ?? []).map((e) => ({
+          ...e,
+          pwd: "/root",
+        })),
+        errors: [],
+      },
+    });
+    const model = new MockLanguageModel("example", {
+      responses: [
+        analysis("scripts/process.sh", {
+          readFiles: ["/var/data/main.conf", "/root/example/data/input.txt"],
+          writeFiles: ["/root/example/data/output.log"],
+          executeFiles: [
+            {
+              path: "/root/example/scripts/helper.pl",
+              args: ["--input", "/tmp/processing.tmp"],
+            },
+          ],
+        }),
+        analysis("scripts/monitor.pl", {
+          readFiles: [
+            "/root/example/config/settings.ini",
+            "/root/example/data/status.txt",
+          ],
+          writeFiles: ["/root/example/data/monitor.log"],
+          executeFiles: [
+            { path: "/root/example/scripts/check_health.sh", args: [] },
+          ],
+        }),
+        analysis("scripts/helper.pl", {
+          readFiles: ["/tmp/processing.tmp"],
+          writeFiles: ["/root/example/data/processed.txt"],
+        }),
+        analysis("scripts/check_health.sh", {
+          readFiles: ["/root/example/data/previous_health.txt"],
+          writeFiles: ["/root/example/data/health_status.txt"],
+        }),
+      ],
+    });
+
+    test("builds the graph of example/crontab without network access", async () => {
+      const service = new DependencyAnalysisService(
+        { pwd: "/root", pathMappings: [{ from: "/root", to: repoRoot }] },
+        model,
+        { useCache: false, responseDir: dir }
+      );
+      const state = createAnalysisState([
+        { pwd: "/root", path: "/root/example/crontab", args: [] },
+      ]);
+      await service.analyze(state, { statePath: path.join(dir, "state.json") });
+
+      const { output, fileDependencies } = service.collectResults(state);
+      expect(output.errors).toEqual([]);
+      expect(
+        visualizeDependencyGraph(fileDependencies, ["/root/example/crontab"])
+      ).toBe(
+        [
+          "[E] /root/example/crontab",
+          "|__ [E] /root/example/scripts/monitor.pl (runs */15 * * * *)",
+          "    |__ [R] /root/example/config/settings.ini",
+          "    |__ [W] /root/example/data/monitor.log",
+          "    |__ [R] /root/example/data/status.txt",
+          "    |__ [E] /root/example/scripts/check_health.sh",
+          "        |__ [W] /root/example/data/health_status.txt",
+          "        |__ [R] /root/example/data/previous_health.txt",
+          "|__ [E] /root/example/scripts/process.sh (runs 0 * * * *)",
+          "    |__ [R] /root/example/data/input.txt",
+          "    |__ [W] /root/example/data/output.log",
+          "    |__ [E] /root/example/scripts/helper.pl",
+          "        |__ [W] /root/example/data/processed.txt",
+          "        |__ [R] /tmp/processing.tmp",
+          "    |__ [R] /var/data/main.conf",
+          "|__ [B] /root/example/scripts/test.zip (runs */15 * * * *)",
+          "    |__ [M] /root/example/scripts/test.zip!/sqlite3 (1).wasm",
+        ].join("\n")
+      );
+    });
+  });
+});
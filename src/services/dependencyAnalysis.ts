@@ -0,0 +1,796 @@
+import { stat } from "fs/promises";
+import chalk from "chalk";
+import { fileTypeFromBuffer } from "file-type";
+import { isBinaryFile } from "isbinaryfile";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { FileAnalysisAgent, FileAnalysisOutput } from "../agents";
+import {
+  ArchiveAnalyzer,
+  CrontabAnalyzer,
+  PerlScriptAnalyzer,
+  PythonScriptAnalyzer,
+  ShellScriptAnalyzer,
+  StaticAnalyzer,
+  SystemdUnitAnalyzer,
+} from "../analyzers";
+import {
+  addUsage,
+  AnalysisCache,
+  AnalysisEngine,
+  Budget,
+  detectLanguage,
+  EMPTY_USAGE,
+  extractPathCandidates,
+  hashContent,
+  isArchiveFileType,
+  isCrontabPath,
+  isOverBudget,
+  isSystemdUnitPath,
+  ModelUsage,
+  PathMapper,
+  Config,
+  readLocalFile,
+  resolveChunking,
+  resolvePrice,
+  resolveUnixPath,
+  ScriptLanguage,
+  splitArchivePath,
+} from "../core";
+import { getModelId } from "../providers";
+import { type FileDependency } from "../output/visualizeDependencies";
+import {
+  AnalysisState,
+  FileFingerprint,
+  QueueEntry,
+  saveAnalysisState,
+} from "./analysisState";
+import { candidatesToOutput, crossCheck, toHints } from "./crossCheck";
+import { applyMinConfidence, mergeSamples } from "./selfConsistency";
+
+const MAX_ITERATIONS = 100;
+
+/** Temperature of self-consistency samples without a configured one. */
+const DEFAULT_SAMPLING_TEMPERATURE = 0.7;
+
+export interface DependencyAnalysisOptions {
+  /** File the state is checkpointed to after every processed file. */
+  statePath: string;
+  maxIterations?: number;
+  /** Number of files analyzed at the same time. */
+  concurrency?: number;
+  /**
+   * State of a previous run. Files whose fingerprint did not change reuse the
+   * stored result instead of being analyzed again.
+   */
+  previous?: AnalysisState;
+  /**
+   * Limits of the model usage of this run. Once reached, no further files are
+   * started and the remaining queue is left for a resumed run.
+   */
+  budget?: Budget;
+}
+
+export interface IncrementalSummary {
+  /** Unchanged files whose previous result was reused. */
+  reused: string[];
+  /** Files analyzed before whose content, mtime or arguments changed. */
+  changed: string[];
+  /** Files that were not part of the previous run. */
+  added: string[];
+  /** Files of the previous run that disappeared or are no longer reachable. */
+  removed: string[];
+}
+
+/** The outcome of a processed file, added to the state by `commitFile`. */
+interface ProcessedFile {
+  fingerprint?: FileFingerprint | undefined;
+  result?: FileAnalysisOutput | undefined;
+  dependencies: FileDependency[];
+}
+
+export function uniqueBy<T>(array: T[], key: keyof T): T[] {
+  const seen = new Set();
+  return array.filter((item) => {
+    const value = item[key];
+    if (seen.has(value)) {
+      return false;
+    }
+    seen.add(value);
+    return true;
+  });
+}
+
+export const determineFileType = async (
+  fileMapper: PathMapper,
+  file: { path: string; pwd: string }
+): Promise<string | undefined> => {
+  const absolutePath = resolveUnixPath(file.pwd, file.path);
+  try {
+    const mappedAbsolutePath = fileMapper.map(absolutePath);
+    const buffer = await readLocalFile(mappedAbsolutePath);
+    const fileType = await fileTypeFromBuffer(buffer);
+    if (fileType) {
+      return fileType.ext;
+    }
+    const isBinary = await isBinaryFile(buffer, buffer.length);
+    return isBinary ? "unknown" : undefined;
+  } catch (e) {
+    console.error(`⛔️ File does not exist: ${absolutePath}`);
+    return undefined;
+  }
+};
+
+const isSameFingerprint = (
+  current: FileFingerprint,
+  previous: FileFingerprint | undefined
+): boolean =>
+  !!previous &&
+  current.hash === previous.hash &&
+  current.pwd === previous.pwd &&
+  current.args.join("\0") === previous.args.join("\0") &&
+  JSON.stringify(current.env ?? {}) === JSON.stringify(previous.env ?? {}) &&
+  (current.engine ?? "llm") === (previous.engine ?? "llm");
+
+/**
+ * The environment an executed file starts with: everything its parent had,
+ * plus what the parent set for it, like `export FOO=...` or a cron variable.
+ */
+export const inheritEnv = (
+  parent: Record<string, string> | undefined,
+  child: Record<string, string> | undefined
+): Record<string, string> | undefined =>
+  parent || child ? { ...parent, ...child } : undefined;
+
+export class DependencyAnalysisService {
+  /** One agent per model, the samples of a file take turns between them. */
+  private agents: FileAnalysisAgent[] = [];
+  private samples: number;
+  private minConfidence?: number | undefined;
+  private crontabAnalyzer: CrontabAnalyzer;
+  private systemdUnitAnalyzer: SystemdUnitAnalyzer;
+  private archiveAnalyzer: ArchiveAnalyzer;
+  private staticAnalyzers: Partial<Record<ScriptLanguage, StaticAnalyzer>>;
+  private engine: AnalysisEngine;
+  private fileMapper: PathMapper;
+  private checkpoint: Promise<void> = Promise.resolve();
+  private reusedFiles = new Set<string>();
+  private usage: ModelUsage = EMPTY_USAGE;
+
+  constructor(
+    config: Config,
+    model: LanguageModelV2 | undefined,
+    options: {
+      useCache?: boolean;
+      engine?: AnalysisEngine;
+      /** Directory raw responses of files without a valid analysis go to. */
+      responseDir?: string;
+      /** Analyses per file, overrides `sampling.samples`. */
+      samples?: number;
+      /** Overrides `sampling.minConfidence`. */
+      minConfidence?: number;
+      /** Models of `sampling.providers`, sampled in turns with `model`. */
+      samplingModels?: LanguageModelV2[];
+    } = {}
+  ) {
+    this.engine = options.engine ?? config.engine ?? "llm";
+    this.samples = options.samples ?? config.sampling?.samples ?? 1;
+    this.minConfidence =
+      options.minConfidence ?? config.sampling?.minConfidence;
+    if (model) {
+      const cache =
+        options.useCache === false
+          ? undefined
+          : new AnalysisCache<FileAnalysisOutput>(config.cacheDir);
+      const temperature =
+        this.samples > 1
+          ? (config.sampling?.temperature ?? DEFAULT_SAMPLING_TEMPERATURE)
+          : undefined;
+      this.agents = [model, ...(options.samplingModels ?? [])].map(
+        (agentModel) =>
+          new FileAnalysisAgent(agentModel, config.pathMappings, cache, {
+            responseDir: options.responseDir,
+            chunking: resolveChunking(config.chunking, getModelId(agentModel)),
+            maxReadBytes: config.tools?.maxReadBytes,
+            price: resolvePrice(config.prices, getModelId(agentModel)),
+            temperature,
+            promptExtensions: config.promptExtensions,
+            searchPaths: config.searchPaths,
+          })
+      );
+    } else if (this.engine !== "static") {
+      throw new Error(`The ${this.engine} engine needs a model`);
+    }
+    this.crontabAnalyzer = new CrontabAnalyzer(config.pathMappings);
+    this.systemdUnitAnalyzer = new SystemdUnitAnalyzer(config.pathMappings);
+    this.archiveAnalyzer = new ArchiveAnalyzer(config.pathMappings);
+    this.staticAnalyzers = {
+      shell: new ShellScriptAnalyzer(
+        config.pathMappings,
+        config.searchPaths?.shell
+      ),
+      perl: new PerlScriptAnalyzer(
+        config.pathMappings,
+        config.searchPaths?.perl
+      ),
+      python: new PythonScriptAnalyzer(
+        config.pathMappings,
+        config.searchPaths?.python
+      ),
+    };
+    this.fileMapper = new PathMapper(config.pathMappings);
+  }
+
+  /**
+   * Works through the process queue of the given state with up to
+   * `concurrency` files in flight, checkpointing the state after every file
+   * so an interrupted run can be resumed. Finished files are added to the
+   * state in the order they were started, so the queue, and with it the
+   * report, is the same as with a sequential run. When a file fails, no
+   * further files are started; the files in flight still finish and are
+   * added before the error is rethrown, and the failed file stays queued in
+   * the checkpoint.
+   */
+  async analyze(
+    state: AnalysisState,
+    options: DependencyAnalysisOptions
+  ): Promise<AnalysisState> {
+    const maxIterations = options.maxIterations ?? MAX_ITERATIONS;
+    const concurrency = Math.max(1, options.concurrency ?? 1);
+    const { processQueue, processedFiles } = state;
+    const inFlight = new Map<string, QueueEntry>();
+    const running = new Set<Promise<void>>();
+    // Started files in order, with their result once they finished.
+    const started: {
+      absolutePath: string;
+      processed?: ProcessedFile;
+      failed?: boolean;
+    }[] = [];
+    let failure: { error: unknown } | undefined;
+
+    while (true) {
+      while (
+        !failure &&
+        running.size < concurrency &&
+        processQueue.length > 0 &&
+        state.currentIteration < maxIterations &&
+        !(options.budget && isOverBudget(this.usage, options.budget))
+      ) {
+        const nextFile = processQueue.shift()!;
+        const absolutePath = resolveUnixPath(nextFile.pwd, nextFile.path);
+
+        // Skip files that have already been processed or are being processed.
+        if (processedFiles.has(absolutePath) || inFlight.has(absolutePath)) {
+          continue;
+        }
+
+        state.currentIteration++;
+        console.info(
+          chalk.gray(
+            `> Processing ${state.currentIteration} / ${
+              state.currentIteration + processQueue.length
+            }...`
+          )
+        );
+        inFlight.set(absolutePath, nextFile);
+        const slot: (typeof started)[number] = { absolutePath };
+        started.push(slot);
+        const task = this.processFile(absolutePath, nextFile, options.previous)
+          .then(
+            (processed) => {
+              slot.processed = processed;
+            },
+            (error: unknown) => {
+              slot.failed = true;
+              failure ??= { error };
+            }
+          )
+          .then(() => {
+            let committed = false;
+            while (started[0]?.processed || started[0]?.failed) {
+              const next = started.shift()!;
+              // Failed files stay in flight, so the checkpoint queues them.
+              if (!next.processed) continue;
+              this.commitFile(state, next.absolutePath, next.processed);
+              inFlight.delete(next.absolutePath);
+              committed = true;
+            }
+            return committed
+              ? this.saveCheckpoint(options.statePath, state, inFlight)
+              : undefined;
+          })
+          .finally(() => running.delete(task));
+        running.add(task);
+      }
+
+      if (running.size === 0) {
+        break;
+      }
+      await Promise.race(running);
+    }
+
+    await this.saveCheckpoint(options.statePath, state, inFlight);
+    if (failure) {
+      throw failure.error;
+    }
+    return state;
+  }
+
+  /** Model usage of the files analyzed by this service so far. */
+  getUsage(): ModelUsage {
+    return this.usage;
+  }
+
+  /**
+   * Queue entries that were not analyzed, e.g. because the budget ran out.
+   */
+  getUnprocessed(state: AnalysisState): string[] {
+    const unprocessed = state.processQueue
+      .map((entry) => resolveUnixPath(entry.pwd, entry.path))
+      .filter((file) => !state.processedFiles.has(file));
+    return [...new Set(unprocessed)];
+  }
+
+  /**
+   * Rebuilds the combined output and the dependency map by replaying the
+   * queue in the order a sequential run would have processed it, so the
+   * report does not depend on the order in which parallel analyses finished.
+   */
+  collectResults(state: AnalysisState): {
+    output: FileAnalysisOutput;
+    fileDependencies: Map<string, FileDependency[]>;
+  } {
+    const output: FileAnalysisOutput = {
+      readFiles: [],
+      writeFiles: [],
+      errors: [],
+      executeFiles: [],
+      disagreements: [],
+      unresolved: [],
+      notFound: [],
+      costs: [],
+      uncertain: [],
+      members: [],
+    };
+    const fileDependencies = new Map<string, FileDependency[]>();
+    const queue = [...state.entryPoints];
+    const visited = new Set<string>();
+
+    while (queue.length > 0) {
+      const nextFile = queue.shift()!;
+      const absolutePath = resolveUnixPath(nextFile.pwd, nextFile.path);
+      if (visited.has(absolutePath)) {
+        continue;
+      }
+      visited.add(absolutePath);
+
+      const result = state.results.get(absolutePath);
+      const dependencies = state.fileDependencies.get(absolutePath);
+      if (dependencies) {
+        fileDependencies.set(absolutePath, dependencies);
+      }
+      if (!result) {
+        continue;
+      }
+
+      output.readFiles.push(...result.readFiles);
+      output.writeFiles.push(...result.writeFiles);
+      output.executeFiles.push(...result.executeFiles);
+      output.errors.push(...result.errors);
+      output.disagreements!.push(...(result.disagreements ?? []));
+      output.unresolved!.push(
+        ...(result.unresolved ?? []).map((entry) => ({
+          ...entry,
+          file: absolutePath,
+        }))
+      );
+      output.notFound!.push(
+        ...(result.notFound ?? []).map((miss) => ({
+          ...miss,
+          file: absolutePath,
+        }))
+      );
+      output.members!.push(...(result.members ?? []));
+      output.uncertain!.push(
+        ...(result.uncertain ?? []).map((entry) => ({
+          ...entry,
+          file: absolutePath,
+        }))
+      );
+      if (result.usage) {
+        output.costs!.push({ ...result.usage, file: absolutePath });
+      }
+      queue.push(...result.executeFiles);
+    }
+
+    output.readFiles = uniqueBy(output.readFiles, "path");
+    output.writeFiles = uniqueBy(output.writeFiles, "path");
+    output.executeFiles = uniqueBy(output.executeFiles, "path");
+
+    return { output, fileDependencies };
+  }
+
+  /**
+   * Compares the processed files of this run with a previous run.
+   */
+  summarizeChanges(
+    state: AnalysisState,
+    previous: AnalysisState
+  ): IncrementalSummary {
+    const summary: IncrementalSummary = {
+      reused: [],
+      changed: [],
+      added: [],
+      removed: [],
+    };
+    for (const file of state.processedFiles) {
+      if (this.reusedFiles.has(file)) {
+        summary.reused.push(file);
+      } else if (previous.processedFiles.has(file)) {
+        summary.changed.push(file);
+      } else {
+        summary.added.push(file);
+      }
+    }
+    for (const file of previous.processedFiles) {
+      if (!state.processedFiles.has(file)) {
+        summary.removed.push(file);
+      }
+    }
+    return summary;
+  }
+
+  /**
+   * Analyzes a file, or reuses its result of the previous run, without
+   * touching the state; see `commitFile`.
+   */
+  private async processFile(
+    absolutePath: string,
+    nextFile: QueueEntry,
+    previous?: AnalysisState
+  ): Promise<ProcessedFile> {
+    // Filter binary files and skip their analysis, archives are listed.
+    const isBinaryFile =
+      !!nextFile.fileType && !isArchiveFileType(nextFile.fileType);
+    if (isBinaryFile) {
+      const mappedAbsolutePath = this.fileMapper.map(absolutePath);
+      console.log(
+        `📀 Skipping binary file ${mappedAbsolutePath} with type ${nextFile.fileType}`
+      );
+      return { dependencies: [] };
+    }
+
+    const fingerprint = await this.fingerprint(
+      absolutePath,
+      nextFile,
+      previous?.fingerprints.get(absolutePath)
+    );
+
+    let analysisResult: FileAnalysisOutput | undefined;
+    if (
+      previous &&
+      fingerprint &&
+      previous.results.has(absolutePath) &&
+      isSameFingerprint(fingerprint, previous.fingerprints.get(absolutePath))
+    ) {
+      console.log(
+        chalk.dim(`⏭️  Unchanged since previous run: ${absolutePath}`)
+      );
+      // The reused result did not cost anything in this run.
+      const { usage: _usage, ...reused } = previous.results.get(absolutePath)!;
+      analysisResult = reused;
+      this.reusedFiles.add(absolutePath);
+    } else {
+      analysisResult = await this.analyzeEntry(nextFile);
+    }
+
+    const dependencies: FileDependency[] = [];
+    let result: FileAnalysisOutput | undefined;
+    if (analysisResult) {
+      const executablesWithType = await Promise.all(
+        analysisResult.executeFiles.map(async (file) => {
+          const fileType = await determineFileType(this.fileMapper, file);
+          return { ...file, fileType, env: inheritEnv(nextFile.env, file.env) };
+        })
+      );
+      result = { ...analysisResult, executeFiles: executablesWithType };
+
+      dependencies.push(
+        ...analysisResult.readFiles.map((f) => ({
+          path: f.path,
+          confidence: f.confidence,
+          action: "read" as const,
+        }))
+      );
+      dependencies.push(
+        ...analysisResult.writeFiles.map((f) => ({
+          path: f.path,
+          confidence: f.confidence,
+          action: "write" as const,
+        }))
+      );
+      // Members are contained in an archive rather than executed by it.
+      if (analysisResult.members) {
+        dependencies.push(
+          ...analysisResult.members.map((m) => ({
+            path: m.path,
+            fileType: m.fileType,
+            action: "contain" as const,
+          }))
+        );
+      } else {
+        dependencies.push(
+          ...executablesWithType.map((f) => ({
+            path: f.path,
+            fileType: f.fileType,
+            schedule: f.schedule,
+            confidence: f.confidence,
+            action: "execute" as const,
+          }))
+        );
+      }
+    }
+
+    return { fingerprint, result, dependencies };
+  }
+
+  /**
+   * Adds a processed file to the state and queues the files it executes.
+   */
+  private commitFile(
+    state: AnalysisState,
+    absolutePath: string,
+    processed: ProcessedFile
+  ): void {
+    if (processed.fingerprint) {
+      state.fingerprints.set(absolutePath, processed.fingerprint);
+    }
+    if (processed.result) {
+      state.results.set(absolutePath, processed.result);
+      state.processQueue.push(...processed.result.executeFiles);
+    }
+    state.fileDependencies.set(absolutePath, processed.dependencies);
+    state.processedFiles.add(absolutePath);
+  }
+
+  /**
+   * Analyzes a single file with the analyzer matching its type, without
+   * following the files it executes.
+   */
+  async analyzeEntry(
+    nextFile: QueueEntry
+  ): Promise<FileAnalysisOutput | undefined> {
+    const absolutePath = resolveUnixPath(nextFile.pwd, nextFile.path);
+    if (isArchiveFileType(nextFile.fileType)) {
+      return this.archiveAnalyzer.analyzeFile({
+        pwd: nextFile.pwd,
+        filePath: nextFile.path,
+      });
+    }
+    if (isCrontabPath(absolutePath)) {
+      return this.crontabAnalyzer.analyzeFile({
+        pwd: nextFile.pwd,
+        filePath: nextFile.path,
+      });
+    }
+    if (isSystemdUnitPath(absolutePath)) {
+      return this.systemdUnitAnalyzer.analyzeFile({
+        pwd: nextFile.pwd,
+        filePath: nextFile.path,
+      });
+    }
+    const analysisResult = await this.analyzeScript(absolutePath, nextFile);
+    if (analysisResult?.usage) {
+      this.usage = addUsage(this.usage, analysisResult.usage);
+    }
+    return analysisResult && this.minConfidence !== undefined
+      ? applyMinConfidence(analysisResult, this.minConfidence)
+      : analysisResult;
+  }
+
+  /**
+   * Asks the model for the analysis of a script. With self-consistency
+   * sampling the file is analyzed once per sample, the samples take turns
+   * between the models, and the answers are merged with a confidence for
+   * every dependency.
+   */
+  private async askModel(
+    params: Parameters<FileAnalysisAgent["analyzeFile"]>[0]
+  ): Promise<FileAnalysisOutput | undefined> {
+    if (this.samples <= 1) {
+      return this.agents[0].analyzeFile(params);
+    }
+    const samples: (FileAnalysisOutput | undefined)[] = [];
+    for (let sample = 0; sample < this.samples; sample++) {
+      console.log(chalk.dim(`\tSample ${sample + 1} of ${this.samples}`));
+      const agent = this.agents[sample % this.agents.length];
+      samples.push(await agent.analyzeFile({ ...params, sample }));
+    }
+    return mergeSamples(samples);
+  }
+
+  /**
+   * Analyzes a script with the configured engine. The static engine reports
+   * files of unsupported languages as errors instead of asking the model, the
+   * hybrid engine cross-checks a static pass against the model.
+   */
+  private async analyzeScript(
+    absolutePath: string,
+    nextFile: QueueEntry
+  ): Promise<FileAnalysisOutput | undefined> {
+    const params = {
+      pwd: nextFile.pwd,
+      filePath: nextFile.path,
+      cliArgs: nextFile.args,
+      env: nextFile.env,
+    };
+
+    if (this.engine === "hybrid") {
+      return this.crossCheckScript(absolutePath, nextFile);
+    }
+
+    if (this.engine === "static") {
+      const language = await this.detectScriptLanguage(absolutePath);
+      const analyzer = language ? this.staticAnalyzers[language] : undefined;
+      if (analyzer) {
+        return analyzer.analyzeFile(params);
+      }
+      console.log(chalk.yellow(`⚠️  No static analyzer for ${nextFile.path}`));
+      return {
+        readFiles: [],
+        writeFiles: [],
+        executeFiles: [],
+        errors: [
+          {
+            pwd: nextFile.pwd,
+            path: nextFile.path,
+            error: `No static analyzer for ${language ?? "this file type"}`,
+          },
+        ],
+      };
+    }
+
+    return this.askModel({
+      ...params,
+      fileType: nextFile.fileType ?? undefined,
+    });
+  }
+
+  /**
+   * Runs the static analyzer of the script's language, or the literal path
+   * extraction for other languages, hands its findings to the model as hints
+   * and merges both answers.
+   */
+  private async crossCheckScript(
+    absolutePath: string,
+    nextFile: QueueEntry
+  ): Promise<FileAnalysisOutput | undefined> {
+    let content: string;
+    try {
+      content = await readLocalFile(this.fileMapper.map(absolutePath), "utf8");
+    } catch {
+      // The agent reports unreadable files as errors.
+      content = "";
+    }
+
+    const candidates = extractPathCandidates(content, { pwd: nextFile.pwd });
+    const language = detectLanguage(absolutePath, content);
+    const analyzer = language ? this.staticAnalyzers[language] : undefined;
+    const staticOutput = analyzer
+      ? await analyzer.analyzeFile({
+          pwd: nextFile.pwd,
+          filePath: nextFile.path,
+          cliArgs: nextFile.args,
+          env: nextFile.env,
+        })
+      : candidatesToOutput(candidates, nextFile.pwd);
+    const references = candidates.filter((c) => c.action === "reference");
+
+    const llmOutput = await this.askModel({
+      pwd: nextFile.pwd,
+      filePath: nextFile.path,
+      cliArgs: nextFile.args,
+      env: nextFile.env,
+      fileType: nextFile.fileType ?? undefined,
+      hints: toHints(staticOutput, references),
+    });
+    if (!llmOutput) {
+      console.log(
+        chalk.yellow(
+          `⚠️  No model answer for ${nextFile.path}, using the static pass`
+        )
+      );
+      return crossCheck(absolutePath, staticOutput, {
+        readFiles: [],
+        writeFiles: [],
+        executeFiles: [],
+        errors: [],
+      });
+    }
+
+    const merged = crossCheck(
+      absolutePath,
+      staticOutput,
+      llmOutput,
+      references
+    );
+    if (merged.disagreements?.length) {
+      console.log(
+        chalk.yellow(
+          `⚖️  ${merged.disagreements.length} disagreements between the static pass and the model`
+        )
+      );
+    }
+    return merged;
+  }
+
+  private async detectScriptLanguage(
+    absolutePath: string
+  ): Promise<ScriptLanguage | undefined> {
+    try {
+      const content = await readLocalFile(
+        this.fileMapper.map(absolutePath),
+        "utf8"
+      );
+      return detectLanguage(absolutePath, content);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Fingerprints the mapped file. The content is only hashed again when the
+   * mtime or size differ from the previous fingerprint.
+   */
+  private async fingerprint(
+    absolutePath: string,
+    entry: QueueEntry,
+    previous?: FileFingerprint
+  ): Promise<FileFingerprint | undefined> {
+    const mappedPath = this.fileMapper.map(absolutePath);
+    try {
+      // Members of an archive change with the archive.
+      const fileStat = await stat(
+        splitArchivePath(mappedPath)?.archivePath ?? mappedPath
+      );
+      const hash =
+        previous &&
+        previous.mtimeMs === fileStat.mtimeMs &&
+        previous.size === fileStat.size
+          ? previous.hash
+          : hashContent(await readLocalFile(mappedPath));
+      return {
+        hash,
+        mtimeMs: fileStat.mtimeMs,
+        size: fileStat.size,
+        pwd: entry.pwd,
+        args: entry.args,
+        env: entry.env,
+        engine: this.engine,
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Files still in flight are written back to the front of the queue, so a
+   * resumed run analyzes them again instead of losing them.
+   */
+  private saveCheckpoint(
+    statePath: string,
+    state: AnalysisState,
+    inFlight: Map<string, QueueEntry>
+  ): Promise<void> {
+    const snapshot: AnalysisState = {
+      ...state,
+      processQueue: [...inFlight.values(), ...state.processQueue],
+      processedFiles: new Set(state.processedFiles),
+      currentIteration: state.currentIteration - inFlight.size,
+    };
+    // Chain the writes so concurrent completions never interleave them.
+    this.checkpoint = this.checkpoint.then(() =>
+      saveAnalysisState(statePath, snapshot)
+    );
+    return this.checkpoint;
+  }
+}
@@ -0,0 +1,51 @@
+import { chmodSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { EntryPointDiscoveryService } from "./entryPointDiscovery";
+
+describe("EntryPointDiscoveryService", () => {
+  const dir = mkdtempSync(path.join(os.tmpdir(), "discovery-"));
+  const files: Record<string, string> = {
+    crontab: "0 * * * * /app/bin/nightly.sh\n",
+    "bin/nightly.sh": "#!/bin/sh\n/app/bin/helper.pl\n/app/bin/tool\n",
+    "bin/helper.pl": "print 'help';\n",
+    "bin/tool": "#!/bin/sh\necho tool\n",
+    "bin/standalone.py": "print('standalone')\n",
+    "README.md": "Run standalone.py or helper.pl by hand, see also tool.\n",
+  };
+  mkdirSync(path.join(dir, "bin"));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(path.join(dir, name), content);
+  }
+  chmodSync(path.join(dir, "bin/tool"), 0o755);
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  const discover = async (includeReferenced = false) => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    const service = new EntryPointDiscoveryService({
+      pwd: "/app",
+      pathMappings: [{ from: "/app", to: dir }],
+    });
+    const { candidates } = await service.discover({ includeReferenced });
+    jest.restoreAllMocks();
+    return candidates.map((c) => [c.entryPoint.path, c.reason]);
+  };
+
+  test("skips scripts that other scripts call", async () => {
+    expect(await discover()).toEqual([
+      ["/app/bin/standalone.py", "script"],
+      ["/app/bin/tool", "shebang"],
+      ["/app/crontab", "crontab"],
+    ]);
+  });
+
+  test("keeps called scripts on request", async () => {
+    expect(await discover(true)).toEqual([
+      ["/app/bin/helper.pl", "script"],
+      ["/app/bin/nightly.sh", "shebang"],
+      ["/app/bin/standalone.py", "script"],
+      ["/app/bin/tool", "shebang"],
+      ["/app/crontab", "crontab"],
+    ]);
+  });
+});
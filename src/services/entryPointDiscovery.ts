@@ -0,0 +1,276 @@
+import { readdir, readFile, stat } from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+import chalk from "chalk";
+import { isBinaryFile } from "isbinaryfile";
+import {
+  analyzePerlScript,
+  analyzePythonScript,
+  analyzeShellScript,
+  Config,
+  detectLanguage,
+  EntryPoint,
+  isCrontabPath,
+  isSystemCrontabPath,
+  isSystemdUnitPath,
+  parseCrontab,
+  parseServiceUnit,
+  PathMapper,
+} from "../core";
+import { importSystemdUnits } from "./entryPoints";
+
+export type DiscoveryReason =
+  "crontab" | "systemd" | "shebang" | "executable" | "script";
+
+export interface DiscoveredEntryPoint {
+  entryPoint: EntryPoint;
+  localPath: string;
+  reason: DiscoveryReason;
+}
+
+export interface DiscoveryOptions {
+  /** Also propose scripts that other scripts already call. */
+  includeReferenced?: boolean;
+  verbose?: boolean;
+}
+
+export interface DiscoveryResult {
+  candidates: DiscoveredEntryPoint[];
+  stats: {
+    filesScanned: number;
+    referencedSkipped: number;
+  };
+}
+
+const SCRIPT_EXTENSIONS = new Set([".sh", ".pl", ".py"]);
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git"]);
+const MAX_SCANNED_BYTES = 1024 * 1024;
+
+type ScannedFile = {
+  localPath: string;
+  productionPath: string;
+  reason: DiscoveryReason | undefined;
+  /** Names of the files the file executes or sources. */
+  calls: Set<string>;
+};
+
+export class EntryPointDiscoveryService {
+  private pathMapper: PathMapper;
+  private pwd: string;
+
+  constructor(private config: Config) {
+    this.pathMapper = new PathMapper(config.pathMappings);
+    this.pwd = config.pwd;
+  }
+
+  /**
+   * Walks every local root of the path mappings and proposes entry points:
+   * crontabs, systemd units, scripts with a shebang, files with the exec bit
+   * and `*.sh`/`*.pl`/`*.py` scripts. Such scripts are left out unless
+   * requested when another script, crontab or service unit executes or
+   * sources them, since they are reachable from there. Mentions in other
+   * files, like a README, do not count.
+   */
+  async discover(options: DiscoveryOptions = {}): Promise<DiscoveryResult> {
+    const scanned = new Map<string, ScannedFile>();
+
+    for (const mapping of this.config.pathMappings) {
+      const root = path.resolve(mapping.to);
+      if (!existsSync(root)) {
+        if (options.verbose) {
+          console.log(chalk.yellow(`⚠️  Skipping missing root: ${mapping.to}`));
+        }
+        continue;
+      }
+      console.log(chalk.blue(`🔍 Scanning ${mapping.to} (${mapping.from})`));
+      await this.walk(root, scanned, options);
+    }
+
+    const called = new Set<string>();
+    for (const file of scanned.values()) {
+      for (const name of file.calls) {
+        if (name !== path.posix.basename(file.productionPath)) {
+          called.add(name);
+        }
+      }
+    }
+
+    const candidates: DiscoveredEntryPoint[] = [];
+    const units: ScannedFile[] = [];
+    let referencedSkipped = 0;
+
+    for (const file of [...scanned.values()].sort((a, b) =>
+      a.productionPath.localeCompare(b.productionPath)
+    )) {
+      if (!file.reason) continue;
+      if (file.reason === "systemd") {
+        units.push(file);
+        continue;
+      }
+      if (
+        file.reason !== "crontab" &&
+        !options.includeReferenced &&
+        SCRIPT_EXTENSIONS.has(path.extname(file.localPath).toLowerCase()) &&
+        called.has(path.posix.basename(file.productionPath))
+      ) {
+        referencedSkipped++;
+        if (options.verbose) {
+          console.log(
+            chalk.gray(`⏭️  Called elsewhere: ${file.productionPath}`)
+          );
+        }
+        continue;
+      }
+      candidates.push({
+        entryPoint: {
+          pwd:
+            file.reason === "crontab"
+              ? this.pwd
+              : path.posix.dirname(file.productionPath),
+          path: file.productionPath,
+          args: [],
+        },
+        localPath: file.localPath,
+        reason: file.reason,
+      });
+    }
+
+    // Services started by a discovered timer are covered by the timer.
+    const importedUnits = new Set(
+      (
+        await importSystemdUnits(
+          units.map((unit) => unit.productionPath),
+          this.pathMapper
+        )
+      ).map((entry) => entry.path)
+    );
+    for (const unit of units) {
+      if (!importedUnits.has(unit.productionPath)) continue;
+      candidates.push({
+        entryPoint: { pwd: "/", path: unit.productionPath, args: [] },
+        localPath: unit.localPath,
+        reason: "systemd",
+      });
+    }
+
+    return {
+      candidates,
+      stats: { filesScanned: scanned.size, referencedSkipped },
+    };
+  }
+
+  private async walk(
+    directory: string,
+    scanned: Map<string, ScannedFile>,
+    options: DiscoveryOptions
+  ): Promise<void> {
+    const entries = await readdir(directory, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const localPath = path.join(directory, entry.name);
+
+      if (entry.isDirectory()) {
+        if (SKIPPED_DIRECTORIES.has(entry.name)) continue;
+        await this.walk(localPath, scanned, options);
+        continue;
+      }
+      if (!entry.isFile() || scanned.has(localPath)) continue;
+
+      const productionPath = this.pathMapper.unmap(localPath);
+      if (!productionPath) continue;
+
+      try {
+        scanned.set(localPath, await this.scanFile(localPath, productionPath));
+      } catch (error) {
+        if (options.verbose) {
+          console.log(chalk.red(`❌ Error scanning ${localPath}: ${error}`));
+        }
+      }
+    }
+  }
+
+  private async scanFile(
+    localPath: string,
+    productionPath: string
+  ): Promise<ScannedFile> {
+    const fileStat = await stat(localPath);
+    const isExecutable = (fileStat.mode & 0o111) !== 0;
+    const file: ScannedFile = {
+      localPath,
+      productionPath,
+      reason: undefined,
+      calls: new Set<string>(),
+    };
+
+    const buffer = (await readFile(localPath)).subarray(0, MAX_SCANNED_BYTES);
+    const isBinary = await isBinaryFile(buffer, buffer.length);
+
+    if (!isBinary) {
+      const content = buffer.toString("utf8");
+      for (const called of this.findCalls(content, productionPath)) {
+        file.calls.add(path.posix.basename(called));
+      }
+      if (isCrontabPath(productionPath)) {
+        file.reason = "crontab";
+      } else if (isSystemdUnitPath(productionPath)) {
+        file.reason = "systemd";
+      } else if (content.startsWith("#!")) {
+        file.reason = "shebang";
+      }
+    }
+
+    if (!file.reason && isExecutable) {
+      file.reason = "executable";
+    } else if (
+      !file.reason &&
+      SCRIPT_EXTENSIONS.has(path.extname(localPath).toLowerCase())
+    ) {
+      file.reason = "script";
+    }
+
+    return file;
+  }
+
+  /**
+   * Paths of the files a crontab, service unit or shell, Perl or Python
+   * script executes, and of the shell scripts it sources. Other files don't
+   * call anything.
+   */
+  private findCalls(content: string, productionPath: string): string[] {
+    const pwd = path.posix.dirname(productionPath);
+    try {
+      if (isCrontabPath(productionPath)) {
+        return parseCrontab(content, {
+          pwd: this.pwd,
+          systemCrontab: isSystemCrontabPath(productionPath),
+        }).jobs.flatMap((job) => job.executions.map((e) => e.path));
+      }
+      if (productionPath.endsWith(".service")) {
+        return parseServiceUnit(content).executions.map((e) => e.path);
+      }
+      const options = { pwd, scriptPath: productionPath, args: [] };
+      switch (detectLanguage(productionPath, content)) {
+        case "shell": {
+          const analysis = analyzeShellScript(content, options);
+          return [
+            ...analysis.executions.map((e) => e.path),
+            ...analysis.readFiles
+              .map((f) => f.path)
+              .filter((f) => path.posix.extname(f) === ".sh"),
+          ];
+        }
+        case "perl":
+          return analyzePerlScript(content, options).executions.map(
+            (e) => e.path
+          );
+        case "python":
+          return analyzePythonScript(content, options).executions.map(
+            (e) => e.path
+          );
+      }
+    } catch {
+      // A file that cannot be parsed does not hide any candidate.
+    }
+    return [];
+  }
+}
@@ -0,0 +1,87 @@
+import { readFile } from "fs/promises";
+import {
+  Config,
+  EntryPoint,
+  parseEnvFile,
+  parseTimerUnit,
+  PathMapper,
+  resolveUnixPath,
+} from "../core";
+
+/**
+ * Adds entry points that are not part of the list yet, comparing their
+ * absolute paths and arguments.
+ * @returns The merged list and the entry points that were actually added
+ */
+export function mergeEntryPoints(
+  existing: EntryPoint[],
+  candidates: EntryPoint[]
+): { entryPoints: EntryPoint[]; added: EntryPoint[] } {
+  const key = (entry: EntryPoint) =>
+    [resolveUnixPath(entry.pwd, entry.path), ...entry.args].join("\0");
+  const known = new Set(existing.map(key));
+  const added: EntryPoint[] = [];
+
+  for (const candidate of candidates) {
+    if (known.has(key(candidate))) continue;
+    known.add(key(candidate));
+    added.push(candidate);
+  }
+
+  return { entryPoints: [...existing, ...added], added };
+}
+
+/**
+ * Turns systemd `.service` and `.timer` files into entry points. Services that
+ * are activated by one of the given timers are left out, since the timer
+ * already executes them.
+ * @param unitPaths - Production paths of the unit files
+ */
+export async function importSystemdUnits(
+  unitPaths: string[],
+  pathMapper: PathMapper
+): Promise<EntryPoint[]> {
+  const absolutePaths = unitPaths.map((p) => resolveUnixPath("/", p));
+  const activatedByTimer = new Set<string>();
+
+  for (const unitPath of absolutePaths.filter((p) => p.endsWith(".timer"))) {
+    const content = await readFile(pathMapper.map(unitPath), "utf-8");
+    activatedByTimer.add(parseTimerUnit(content, unitPath).unit);
+  }
+
+  return absolutePaths
+    .filter((unitPath) => !activatedByTimer.has(unitPath))
+    .map((unitPath) => ({ pwd: "/", path: unitPath, args: [] }));
+}
+
+/**
+ * Builds the global environment of the analyzed system: the `envFiles` of
+ * the configuration in order, each one able to use the variables of the
+ * previous ones, overridden by the `env` map.
+ */
+export async function loadEnvironment(
+  config: Pick<Config, "env" | "envFiles">,
+  pathMapper: PathMapper
+): Promise<Record<string, string>> {
+  let env: Record<string, string> = {};
+  for (const envFile of config.envFiles ?? []) {
+    const content = await readFile(
+      pathMapper.map(resolveUnixPath("/", envFile)),
+      "utf-8"
+    );
+    env = { ...env, ...parseEnvFile(content, env) };
+  }
+  return { ...env, ...config.env };
+}
+
+/** Adds the global environment to every entry point, their own `env` wins. */
+export function applyEnvironment(
+  entryPoints: EntryPoint[],
+  env: Record<string, string>
+): EntryPoint[] {
+  if (Object.keys(env).length === 0) return entryPoints;
+  return entryPoints.map((entry) => ({
+    ...entry,
+    env: { ...env, ...entry.env },
+  }));
+}
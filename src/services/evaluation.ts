@@ -0,0 +1,104 @@
+import chalk from "chalk";
+import { LanguageModelV2 } from "@ai-sdk/provider";
+import { PROMPT_VERSION } from "../agents";
+import {
+  AnalysisEngine,
+  Config,
+  EvalFixtureSet,
+  EvaluationResult,
+  FileScore,
+  resolveUnixPath,
+  scoreFixture,
+  summarizeScores,
+} from "../core";
+import { getModelId } from "../providers";
+import { DependencyAnalysisService, inheritEnv } from "./dependencyAnalysis";
+
+export class EvaluationService {
+  private analysisService: DependencyAnalysisService;
+  private engine: AnalysisEngine;
+  private model: string;
+
+  constructor(
+    private config: Config,
+    model: LanguageModelV2 | undefined,
+    options: {
+      engine?: AnalysisEngine;
+      /** Directory raw responses of files without a valid analysis go to. */
+      responseDir?: string;
+      samples?: number;
+      minConfidence?: number;
+      /** Models of `sampling.providers`, sampled in turns with `model`. */
+      samplingModels?: LanguageModelV2[];
+    } = {}
+  ) {
+    this.engine = options.engine ?? config.engine ?? "llm";
+    this.model = model ? getModelId(model) : "static";
+    // Cached answers would hide prompt changes made without a version bump.
+    this.analysisService = new DependencyAnalysisService(config, model, {
+      useCache: false,
+      engine: this.engine,
+      responseDir: options.responseDir,
+      samples: options.samples,
+      minConfidence: options.minConfidence,
+      samplingModels: options.samplingModels,
+    });
+  }
+
+  /**
+   * Analyzes every fixture on its own, without following the files it
+   * executes, and scores the reported dependencies against the expected ones.
+   */
+  async evaluate(
+    fixtureSet: EvalFixtureSet,
+    env?: Record<string, string>
+  ): Promise<EvaluationResult> {
+    const files: FileScore[] = [];
+    for (const [index, fixture] of fixtureSet.fixtures.entries()) {
+      const pwd = fixture.pwd ?? this.config.pwd;
+      console.info(
+        chalk.gray(
+          `> Evaluating ${index + 1} / ${fixtureSet.fixtures.length}: ${fixture.path}`
+        )
+      );
+
+      const output = await this.analysisService.analyzeEntry({
+        pwd,
+        path: fixture.path,
+        args: fixture.args ?? [],
+        env: inheritEnv(env, fixture.env),
+      });
+      const score = scoreFixture(fixture, pwd, {
+        read: output?.readFiles.map((f) => f.path),
+        write: output?.writeFiles.map((f) => f.path),
+        execute: output?.executeFiles.map((f) => f.path),
+      });
+      // Errors of other files, e.g. a missing config file, are part of the
+      // answer; only failures of the fixture itself are reported.
+      const failures = (output?.errors ?? []).filter(
+        (e) => resolveUnixPath(e.pwd, e.path) === score.path
+      );
+      if (!output) {
+        score.error = "No analysis";
+      } else if (failures.length > 0) {
+        score.error = failures.map((e) => e.error).join("; ");
+      }
+      if (score.forbidden.length > 0) {
+        console.log(
+          chalk.red(
+            `🪤 Reported forbidden paths: ${score.forbidden.join(", ")}`
+          )
+        );
+      }
+      files.push(score);
+    }
+
+    return {
+      promptVersion: PROMPT_VERSION,
+      model: this.model,
+      engine: this.engine,
+      summary: summarizeScores(files),
+      files,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { FileAnalysisOutput } from "../agents";
+import { applyMinConfidence, mergeSamples } from "./selfConsistency";
+
+const output = (
+  lists: Partial<FileAnalysisOutput> = {}
+): FileAnalysisOutput => ({
+  readFiles: [],
+  writeFiles: [],
+  executeFiles: [],
+  errors: [],
+  ...lists,
+});
+
+describe("mergeSamples", () => {
+  test("sets the fraction of samples reporting a dependency as confidence", () => {
+    const merged = mergeSamples([
+      output({
+        readFiles: [{ path: "/etc/app.conf" }, { path: "/etc/app.conf" }],
+      }),
+      output({ readFiles: [{ path: "/etc/app.conf" }] }),
+      output({ readFiles: [{ path: "/tmp/cache" }] }),
+      output(),
+    ]);
+
+    expect(merged?.readFiles).toEqual([
+      { path: "/etc/app.conf", confidence: 0.5 },
+      { path: "/tmp/cache", confidence: 0.25 },
+    ]);
+  });
+
+  test("counts samples without an answer in the total", () => {
+    const merged = mergeSamples([
+      output({ writeFiles: [{ path: "/var/log/app.log" }] }),
+      undefined,
+    ]);
+
+    expect(merged?.writeFiles).toEqual([
+      { path: "/var/log/app.log", confidence: 0.5 },
+    ]);
+  });
+
+  test("returns nothing when no sample answered", () => {
+    expect(mergeSamples([undefined, undefined])).toBeUndefined();
+  });
+
+  test("keeps candidates rejected by one sample but confirmed by another", () => {
+    const merged = mergeSamples([
+      output({
+        rejected: [
+          { path: "/etc/app.conf", reason: "Commented out" },
+          { path: "/etc/old.conf", reason: "Commented out" },
+        ],
+      }),
+      output({ readFiles: [{ path: "/etc/app.conf" }] }),
+    ]);
+
+    expect(merged?.rejected).toEqual([
+      { path: "/etc/old.conf", reason: "Commented out" },
+    ]);
+  });
+});
+
+describe("applyMinConfidence", () => {
+  test("moves dependencies below the threshold to uncertain", () => {
+    const result = applyMinConfidence(
+      output({
+        readFiles: [
+          { path: "/etc/app.conf", confidence: 1 },
+          { path: "/tmp/cache", confidence: 0.5 },
+        ],
+        executeFiles: [
+          { pwd: "/app", path: "/app/worker.sh", args: [], confidence: 0.25 },
+        ],
+      }),
+      0.6
+    );
+
+    expect(result.readFiles).toEqual([
+      { path: "/etc/app.conf", confidence: 1 },
+    ]);
+    expect(result.executeFiles).toEqual([]);
+    expect(result.uncertain).toEqual([
+      { path: "/tmp/cache", action: "read", confidence: 0.5 },
+      { path: "/app/worker.sh", action: "execute", confidence: 0.25 },
+    ]);
+  });
+
+  test("keeps dependencies at the threshold and without a confidence", () => {
+    const result = applyMinConfidence(
+      output({
+        readFiles: [{ path: "/etc/app.conf", confidence: 0.5 }],
+        writeFiles: [{ path: "/var/log/app.log", source: "static" }],
+      }),
+      0.5
+    );
+
+    expect(result.readFiles).toHaveLength(1);
+    expect(result.writeFiles).toHaveLength(1);
+    expect(result.uncertain).toBeUndefined();
+  });
+});
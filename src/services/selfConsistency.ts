@@ -0,0 +1,154 @@
+import { FileAnalysisOutput } from "../agents";
+import { addUsage, EMPTY_USAGE, UncertainDependency } from "../core";
+
+const CATEGORIES = [
+  ["readFiles", "read"],
+  ["writeFiles", "write"],
+  ["executeFiles", "execute"],
+] as const;
+
+/**
+ * Merges the analyses of the self-consistency samples of a file. Every
+ * dependency gets the fraction of samples that reported it as confidence,
+ * samples without an answer count as reporting nothing. The first sample
+ * reporting a dependency decides its description and arguments.
+ * @returns Nothing when no sample answered
+ */
+export function mergeSamples(
+  samples: (FileAnalysisOutput | undefined)[]
+): FileAnalysisOutput | undefined {
+  const answers = samples.filter(
+    (sample): sample is FileAnalysisOutput => !!sample
+  );
+  if (answers.length === 0) {
+    return undefined;
+  }
+  const merged: FileAnalysisOutput = {
+    readFiles: [],
+    writeFiles: [],
+    executeFiles: [],
+    errors: [],
+  };
+
+  for (const [key] of CATEGORIES) {
+    const target = merged[key] as FileAnalysisOutput[typeof key][number][];
+    const counts = new Map<string, number>();
+    for (const answer of answers) {
+      for (const entry of new Map(
+        answer[key].map((e) => [e.path, e])
+      ).values()) {
+        const count = counts.get(entry.path) ?? 0;
+        if (count === 0) {
+          target.push(entry);
+        }
+        counts.set(entry.path, count + 1);
+      }
+    }
+    target.forEach((entry, index) => {
+      target[index] = {
+        ...entry,
+        confidence: counts.get(entry.path)! / samples.length,
+      };
+    });
+  }
+
+  const errors = new Set<string>();
+  merged.errors = answers
+    .flatMap((answer) => answer.errors)
+    .filter((error) => {
+      const key = `${error.path}\0${error.error}`;
+      if (errors.has(key)) return false;
+      errors.add(key);
+      return true;
+    });
+
+  const unresolved = answers.flatMap((answer) => answer.unresolved ?? []);
+  if (unresolved.length > 0) {
+    merged.unresolved = unresolved.filter(
+      (entry, index) =>
+        unresolved.findIndex(
+          (other) =>
+            other.expression === entry.expression &&
+            other.action === entry.action
+        ) === index
+    );
+  }
+
+  const notFound = answers.flatMap((answer) => answer.notFound ?? []);
+  if (notFound.length > 0) {
+    merged.notFound = notFound.filter(
+      (entry, index) =>
+        notFound.findIndex(
+          (other) =>
+            other.name === entry.name && other.language === entry.language
+        ) === index
+    );
+  }
+
+  // A candidate rejected by one sample but confirmed by another is kept.
+  const confirmed = new Set(
+    [...merged.readFiles, ...merged.writeFiles, ...merged.executeFiles].map(
+      (entry) => entry.path
+    )
+  );
+  const rejected = answers
+    .flatMap((answer) => answer.rejected ?? [])
+    .filter(
+      (entry, index, all) =>
+        !confirmed.has(entry.path) &&
+        all.findIndex((other) => other.path === entry.path) === index
+    );
+  if (rejected.length > 0) {
+    merged.rejected = rejected;
+  }
+
+  const audit = answers.flatMap((answer) => answer.audit ?? []);
+  if (audit.length > 0) {
+    merged.audit = audit;
+  }
+  const usages = answers.flatMap((answer) =>
+    answer.usage ? [answer.usage] : []
+  );
+  if (usages.length > 0) {
+    merged.usage = usages.reduce(addUsage, EMPTY_USAGE);
+  }
+  return merged;
+}
+
+/**
+ * Moves the dependencies reported by less than `minConfidence` of the samples
+ * out of the file lists, so they neither reach the graph nor the queue.
+ * Dependencies without a confidence, e.g. of a static pass, are always kept.
+ */
+export function applyMinConfidence(
+  output: FileAnalysisOutput,
+  minConfidence: number
+): FileAnalysisOutput {
+  const uncertain: UncertainDependency[] = [...(output.uncertain ?? [])];
+  const keep = <T extends { path: string; confidence?: number | undefined }>(
+    entries: T[],
+    action: UncertainDependency["action"]
+  ): T[] =>
+    entries.filter((entry) => {
+      if (entry.confidence === undefined || entry.confidence >= minConfidence) {
+        return true;
+      }
+      uncertain.push({
+        path: entry.path,
+        action,
+        confidence: entry.confidence,
+      });
+      return false;
+    });
+
+  const result: FileAnalysisOutput = {
+    ...output,
+    readFiles: keep(output.readFiles, "read"),
+    writeFiles: keep(output.writeFiles, "write"),
+    executeFiles: keep(output.executeFiles, "execute"),
+  };
+  if (uncertain.length > 0) {
+    result.uncertain = uncertain;
+  }
+  return result;
+}
@@ -0,0 +1,110 @@
+import { tool } from "ai";
+import { z } from "zod";
+import fs from "fs/promises";
+import { PathMapper, PathMapping } from "../core";
+import {
+  entryType,
+  denyAccess,
+  isInsideLocalRoots,
+  recordAccess,
+  resolveToolPath,
+  ToolContext,
+} from "./toolPaths";
+
+export const createFileExistsTool = (
+  pathMappings: PathMapping[],
+  context: ToolContext = {}
+) => {
+  const pathMapper = new PathMapper(pathMappings);
+  return tool({
+    description:
+      "Check whether a file or directory exists in the analyzed system, e.g. to confirm an inferred library path before reporting it",
+    inputSchema: z.object({
+      pwd: z.string().optional().describe("The current working directory."),
+      filepath: z.string().describe("Path to check"),
+    }),
+    execute: async ({ pwd, filepath }) => {
+      const { productionPath, localPath } = resolveToolPath(
+        pathMapper,
+        pwd,
+        filepath,
+        context.env
+      );
+      if (!(await isInsideLocalRoots(localPath, pathMappings))) {
+        const error = denyAccess(context, "fileExists", productionPath);
+        return { exists: false, error, filepath: productionPath };
+      }
+      recordAccess(context, {
+        tool: "fileExists",
+        path: productionPath,
+        status: "ok",
+      });
+      try {
+        const stat = await fs.lstat(localPath);
+        return {
+          exists: true,
+          filepath: productionPath,
+          type: entryType(stat),
+        };
+      } catch {
+        return { exists: false, filepath: productionPath };
+      }
+    },
+  });
+};
+
+export const createStatTool = (
+  pathMappings: PathMapping[],
+  context: ToolContext = {}
+) => {
+  const pathMapper = new PathMapper(pathMappings);
+  return tool({
+    description:
+      "Get the type, size, modification time and permissions of a file of the analyzed system",
+    inputSchema: z.object({
+      pwd: z.string().optional().describe("The current working directory."),
+      filepath: z.string().describe("Path of the file"),
+    }),
+    execute: async ({ pwd, filepath }) => {
+      const { productionPath, localPath } = resolveToolPath(
+        pathMapper,
+        pwd,
+        filepath,
+        context.env
+      );
+      if (!(await isInsideLocalRoots(localPath, pathMappings))) {
+        const error = denyAccess(context, "stat", productionPath);
+        return { success: false, error, filepath: productionPath };
+      }
+      try {
+        const stat = await fs.lstat(localPath);
+        recordAccess(context, {
+          tool: "stat",
+          path: productionPath,
+          status: "ok",
+        });
+        return {
+          success: true,
+          filepath: productionPath,
+          type: entryType(stat),
+          size: stat.size,
+          modified: stat.mtime.toISOString(),
+          mode: (stat.mode & 0o7777).toString(8),
+          executable: (stat.mode & 0o111) !== 0,
+        };
+      } catch (error: unknown) {
+        recordAccess(context, {
+          tool: "stat",
+          path: productionPath,
+          status: "failed",
+          reason: `${error}`,
+        });
+        return {
+          success: false,
+          error: `${error}`,
+          filepath: productionPath,
+        };
+      }
+    },
+  });
+};
@@ -0,0 +1,123 @@
+import { tool } from "ai";
+import { z } from "zod";
+import fs from "fs/promises";
+import path from "path";
+import { globToRegExp, hasGlobMagic, PathMapper, PathMapping } from "../core";
+import {
+  denyAccess,
+  isInsideLocalRoots,
+  recordAccess,
+  resolveToolPath,
+  ToolContext,
+} from "./toolPaths";
+
+const MAX_MATCHES = 500;
+/** Directories visited at most, so `/**` on a large tree stays bounded. */
+const MAX_VISITED_DIRECTORIES = 2000;
+
+export const createGlobFilesTool = (
+  pathMappings: PathMapping[],
+  context: ToolContext = {}
+) => {
+  const pathMapper = new PathMapper(pathMappings);
+  return tool({
+    description:
+      "Expand a shell wildcard like /var/data/*.csv or /opt/lib/**/*.pm to the matching files of the analyzed system",
+    inputSchema: z.object({
+      pwd: z.string().optional().describe("The current working directory."),
+      pattern: z
+        .string()
+        .describe("Glob pattern supporting *, ?, **, [...] and {a,b}"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_MATCHES)
+        .optional()
+        .default(200)
+        .describe("Maximum number of matches to return"),
+    }),
+    execute: async ({ pwd, pattern, limit }) => {
+      const { productionPath: productionPattern } = resolveToolPath(
+        pathMapper,
+        pwd,
+        pattern,
+        context.env
+      );
+      // Walk from the deepest directory without wildcards.
+      const segments = productionPattern.split("/");
+      const firstMagic = segments.findIndex(hasGlobMagic);
+      if (firstMagic === -1) {
+        return {
+          success: false,
+          error: "The pattern contains no wildcards, use fileExists instead",
+          pattern: productionPattern,
+        };
+      }
+      const baseDirectory = segments.slice(0, firstMagic).join("/") || "/";
+      const maxDepth = productionPattern.includes("**")
+        ? Infinity
+        : segments.length - firstMagic;
+      const regExp = globToRegExp(productionPattern);
+      const { localPath } = resolveToolPath(pathMapper, "/", baseDirectory);
+      if (!(await isInsideLocalRoots(localPath, pathMappings))) {
+        const error = denyAccess(
+          context,
+          "globFiles",
+          productionPattern,
+          baseDirectory
+        );
+        return { success: false, error, pattern: productionPattern };
+      }
+
+      console.log(`🔍 Expanding '${productionPattern}' in '${localPath}'.`);
+      const matches: string[] = [];
+      let visited = 0;
+      let truncated = false;
+
+      const walk = async (
+        local: string,
+        production: string,
+        depth: number
+      ): Promise<void> => {
+        if (truncated || ++visited > MAX_VISITED_DIRECTORIES) {
+          truncated = true;
+          return;
+        }
+        let entries;
+        try {
+          entries = await fs.readdir(local, { withFileTypes: true });
+        } catch {
+          return;
+        }
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+          const entryPath = path.posix.join(production, entry.name);
+          if (regExp.test(entryPath)) {
+            if (matches.length >= limit) {
+              truncated = true;
+              return;
+            }
+            matches.push(entryPath);
+          }
+          if (entry.isDirectory() && depth < maxDepth) {
+            await walk(path.join(local, entry.name), entryPath, depth + 1);
+          }
+        }
+      };
+
+      await walk(localPath, baseDirectory, 1);
+      recordAccess(context, {
+        tool: "globFiles",
+        path: productionPattern,
+        status: truncated ? "truncated" : "ok",
+      });
+      return {
+        success: true,
+        pattern: productionPattern,
+        matches,
+        truncated,
+      };
+    },
+  });
+};
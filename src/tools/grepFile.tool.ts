@@ -0,0 +1,124 @@
+import { tool } from "ai";
+import { z } from "zod";
+import { PathMapper, PathMapping } from "../core";
+import {
+  DEFAULT_MAX_READ_BYTES,
+  denyAccess,
+  isInsideLocalRoots,
+  readToolFile,
+  recordAccess,
+  resolveToolPath,
+  ToolContext,
+} from "./toolPaths";
+
+const MAX_MATCHES = 100;
+/** Matching lines are cut to this length. */
+const MAX_LINE_LENGTH = 300;
+
+export const createGrepFileTool = (
+  pathMappings: PathMapping[],
+  context: ToolContext = {}
+) => {
+  const pathMapper = new PathMapper(pathMappings);
+  const maxBytes = context.maxReadBytes ?? DEFAULT_MAX_READ_BYTES;
+  return tool({
+    description: `Search a file of the analyzed system for lines matching a regular expression, instead of reading it completely. Only the first ${maxBytes} bytes are searched, binary files are refused.`,
+    inputSchema: z.object({
+      pwd: z.string().optional().describe("The current working directory."),
+      filepath: z.string().describe("Path to the file to search"),
+      pattern: z.string().describe("JavaScript regular expression"),
+      ignoreCase: z.boolean().optional().default(false),
+      maxMatches: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_MATCHES)
+        .optional()
+        .default(20),
+    }),
+    execute: async ({ pwd, filepath, pattern, ignoreCase, maxMatches }) => {
+      const { productionPath, localPath } = resolveToolPath(
+        pathMapper,
+        pwd,
+        filepath,
+        context.env
+      );
+      if (!(await isInsideLocalRoots(localPath, pathMappings))) {
+        const error = denyAccess(context, "grepFile", productionPath);
+        return { success: false, error, filepath: productionPath };
+      }
+      try {
+        const regExp = new RegExp(pattern, ignoreCase ? "i" : "");
+        console.log(`🔎 Searching '${productionPath}' for /${pattern}/.`);
+
+        const { buffer, size, binary } = await readToolFile(
+          localPath,
+          maxBytes
+        );
+        if (binary) {
+          const error = `${productionPath} is a binary file and was not searched`;
+          recordAccess(context, {
+            tool: "grepFile",
+            path: productionPath,
+            status: "denied",
+            reason: error,
+          });
+          return { success: false, error, filepath: productionPath };
+        }
+        const content = buffer.toString("utf8");
+        // Matches past the limit are not found, the model is told so.
+        const notice =
+          size > buffer.length
+            ? {
+                notice: `Only the first ${buffer.length} of ${size} bytes were searched.`,
+              }
+            : {};
+        recordAccess(context, {
+          tool: "grepFile",
+          path: productionPath,
+          status: size > buffer.length ? "truncated" : "ok",
+          bytes: buffer.length,
+        });
+
+        const matches: { line: number; text: string }[] = [];
+        const lines = content.split("\n");
+        for (let i = 0; i < lines.length; i++) {
+          if (!regExp.test(lines[i])) continue;
+          if (matches.length >= maxMatches) {
+            return {
+              success: true,
+              filepath: productionPath,
+              matches,
+              truncated: true,
+              ...notice,
+            };
+          }
+          matches.push({
+            line: i + 1,
+            text: lines[i].slice(0, MAX_LINE_LENGTH),
+          });
+        }
+        return {
+          success: true,
+          filepath: productionPath,
+          matches,
+          truncated: false,
+          ...notice,
+        };
+      } catch (error: unknown) {
+        console.error(`⛔️ Failed to search file '${filepath}': ${error}`);
+        recordAccess(context, {
+          tool: "grepFile",
+          path: productionPath,
+          status: "failed",
+          reason: `${error}`,
+        });
+        return {
+          success: false,
+          error: `${error}`,
+          filepath: productionPath,
+        };
+      }
+    },
+  });
+};
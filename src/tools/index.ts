@@ -1 +1,6 @@
 export * from "./readFile.tool";
+export * from "./listDirectory.tool";
+export * from "./globFiles.tool";
+export * from "./fileExists.tool";
+export * from "./grepFile.tool";
+export * from "./toolPaths";
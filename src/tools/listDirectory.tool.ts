@@ -0,0 +1,86 @@
+import { tool } from "ai";
+import { z } from "zod";
+import fs from "fs/promises";
+import path from "path";
+import { PathMapper, PathMapping } from "../core";
+import {
+  entryType,
+  denyAccess,
+  isInsideLocalRoots,
+  recordAccess,
+  resolveToolPath,
+  ToolContext,
+} from "./toolPaths";
+
+const MAX_ENTRIES = 500;
+
+export const createListDirectoryTool = (
+  pathMappings: PathMapping[],
+  context: ToolContext = {}
+) => {
+  const pathMapper = new PathMapper(pathMappings);
+  return tool({
+    description:
+      "List the entries of a directory of the analyzed system, e.g. to see which files a loop over a directory processes",
+    inputSchema: z.object({
+      pwd: z.string().optional().describe("The current working directory."),
+      directory: z.string().describe("Path to the directory to list"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .max(MAX_ENTRIES)
+        .optional()
+        .default(200)
+        .describe("Maximum number of entries to return"),
+    }),
+    execute: async ({ pwd, directory, limit }) => {
+      const { productionPath, localPath } = resolveToolPath(
+        pathMapper,
+        pwd,
+        directory,
+        context.env
+      );
+      if (!(await isInsideLocalRoots(localPath, pathMappings))) {
+        const error = denyAccess(context, "listDirectory", productionPath);
+        return { success: false, error, directory: productionPath };
+      }
+      try {
+        console.log(
+          `📁 Listing directory '${productionPath}' from '${localPath}'.`
+        );
+        const entries = (await fs.readdir(localPath, { withFileTypes: true }))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map((entry) => ({
+            name: entry.name,
+            path: path.posix.join(productionPath, entry.name),
+            type: entryType(entry),
+          }));
+        recordAccess(context, {
+          tool: "listDirectory",
+          path: productionPath,
+          status: "ok",
+        });
+        return {
+          success: true,
+          directory: productionPath,
+          entries: entries.slice(0, limit),
+          truncated: entries.length > limit,
+        };
+      } catch (error: unknown) {
+        console.error(`⛔️ Failed to list directory '${directory}': ${error}`);
+        recordAccess(context, {
+          tool: "listDirectory",
+          path: productionPath,
+          status: "failed",
+          reason: `${error}`,
+        });
+        return {
+          success: false,
+          error: `${error}`,
+          directory: productionPath,
+        };
+      }
+    },
+  });
+};
@@ -1,40 +1,90 @@
 import { tool } from "ai";
 import { z } from "zod";
-import fs from "fs/promises";
-import { PathMapper, PathMapping, resolveUnixPath } from "../core";
+import { PathMapper, PathMapping } from "../core";
+import {
+  DEFAULT_MAX_READ_BYTES,
+  denyAccess,
+  isInsideLocalRoots,
+  readToolFile,
+  recordAccess,
+  resolveToolPath,
+  ToolContext,
+} from "./toolPaths";
 
-export const createReadFileTool = (pathMappings: PathMapping[]) => {
+export const createReadFileTool = (
+  pathMappings: PathMapping[],
+  context: ToolContext = {}
+) => {
   const pathMapper = new PathMapper(pathMappings);
+  const maxBytes = context.maxReadBytes ?? DEFAULT_MAX_READ_BYTES;
   return tool({
-    description: "Read contents of a local file",
+    description: `Read a text file of the analyzed system. Files larger than ${maxBytes} bytes are truncated, binary files are refused.`,
     inputSchema: z.object({
       pwd: z.string().optional().describe("The current working directory."),
       filepath: z.string().describe("Path to the file to read"),
-      encoding: z.enum(["utf8", "base64"]).optional().default("utf8"),
     }),
-    execute: async ({ pwd, filepath, encoding }) => {
-      try {
-        const mappedPath = pathMapper.map(resolveUnixPath(pwd ?? "", filepath));
-        // Resolve the path (you might want to restrict to specific directories)
+    execute: async ({ pwd, filepath }) => {
+      const { productionPath, localPath } = resolveToolPath(
+        pathMapper,
+        pwd,
+        filepath,
+        context.env
+      );
+      if (!(await isInsideLocalRoots(localPath, pathMappings))) {
+        const error = denyAccess(context, "readFile", productionPath);
+        return { success: false, error, filepath: productionPath };
+      }
 
+      try {
         console.log(
-          `📂 Reading file '${filepath}' from '${mappedPath}' with pwd '${pwd}'.`
+          `📂 Reading file '${productionPath}' from '${localPath}' with pwd '${pwd}'.`
         );
 
-        // Read the file
-        const content = await fs.readFile(mappedPath, encoding);
+        const { buffer, size, binary } = await readToolFile(
+          localPath,
+          maxBytes
+        );
+        if (binary) {
+          const error = `${productionPath} is a binary file and was not read`;
+          recordAccess(context, {
+            tool: "readFile",
+            path: productionPath,
+            status: "denied",
+            reason: error,
+          });
+          return { success: false, error, filepath: productionPath };
+        }
 
+        const truncated = size > buffer.length;
+        recordAccess(context, {
+          tool: "readFile",
+          path: productionPath,
+          status: truncated ? "truncated" : "ok",
+          bytes: buffer.length,
+        });
         return {
           success: true,
-          content,
-          filepath: mappedPath,
+          content: buffer.toString("utf8"),
+          filepath: productionPath,
+          ...(truncated
+            ? {
+                truncated: true,
+                notice: `Only the first ${buffer.length} of ${size} bytes were read.`,
+              }
+            : {}),
         };
       } catch (error: unknown) {
         console.error(`⛔️ Failed to read file '${filepath}': ${error}`);
+        recordAccess(context, {
+          tool: "readFile",
+          path: productionPath,
+          status: "failed",
+          reason: `${error}`,
+        });
         return {
           success: false,
           error: `${error}`,
-          filepath,
+          filepath: productionPath,
         };
       }
     },
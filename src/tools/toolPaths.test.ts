@@ -0,0 +1,135 @@
+import { mkdtempSync, rmSync, symlinkSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { ToolAccess } from "../core";
+import { createGrepFileTool } from "./grepFile.tool";
+import { createReadFileTool } from "./readFile.tool";
+
+const call = { toolCallId: "test", messages: [] };
+
+/** The fields of a tool result the tests look at. */
+type ToolResult = {
+  success: boolean;
+  content?: string;
+  error?: string;
+  notice?: string;
+};
+
+describe("file system tools", () => {
+  const root = mkdtempSync(path.join(os.tmpdir(), "tools-"));
+  const outside = mkdtempSync(path.join(os.tmpdir(), "outside-"));
+  const pathMappings = [{ from: "/app", to: root }];
+  writeFileSync(path.join(root, "app.conf"), "name=app\nport=8080\n");
+  writeFileSync(path.join(root, "large.log"), "a".repeat(90) + "\nERROR\n");
+  writeFileSync(path.join(root, "tool.bin"), Buffer.from([0x7f, 0, 1, 2]));
+  writeFileSync(path.join(outside, "secret"), "password=hunter2\n");
+  symlinkSync(path.join(outside, "secret"), path.join(root, "link"));
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  let audit: ToolAccess[];
+  beforeEach(() => {
+    audit = [];
+    jest.spyOn(console, "log").mockImplementation(() => {});
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+  afterEach(() => jest.restoreAllMocks());
+
+  const readFile = async (filepath: string) =>
+    (await createReadFileTool(pathMappings, {
+      audit,
+      maxReadBytes: 64,
+    }).execute!({ pwd: "/app", filepath }, call)) as ToolResult;
+
+  test("reads mapped files and records the access", async () => {
+    expect(await readFile("app.conf")).toEqual({
+      success: true,
+      content: "name=app\nport=8080\n",
+      filepath: "/app/app.conf",
+    });
+    expect(audit).toEqual([
+      { tool: "readFile", path: "/app/app.conf", status: "ok", bytes: 19 },
+    ]);
+  });
+
+  test("denies paths without a mapping", async () => {
+    const result = await readFile("/root/.aws/credentials");
+
+    expect(result).toMatchObject({ success: false });
+    expect(result.error).toMatch(/^Access denied: \/root\/\.aws\/credentials/);
+    expect(audit).toEqual([
+      {
+        tool: "readFile",
+        path: "/root/.aws/credentials",
+        status: "denied",
+        reason: result.error,
+      },
+    ]);
+  });
+
+  test("denies symlinks pointing outside of the local roots", async () => {
+    const result = await readFile("link");
+
+    expect(result).toMatchObject({ success: false });
+    expect(result.error).toMatch(/^Access denied/);
+    expect(result).not.toHaveProperty("content");
+    expect(audit[0]).toMatchObject({ path: "/app/link", status: "denied" });
+  });
+
+  test("truncates files larger than maxReadBytes", async () => {
+    const result = await readFile("large.log");
+
+    expect(result).toMatchObject({ success: true, truncated: true });
+    expect(result.content).toBe("a".repeat(64));
+    expect(result.notice).toBe("Only the first 64 of 97 bytes were read.");
+    expect(audit[0]).toMatchObject({ status: "truncated", bytes: 64 });
+  });
+
+  test("refuses binary files", async () => {
+    const result = await readFile("tool.bin");
+
+    expect(result).toEqual({
+      success: false,
+      error: "/app/tool.bin is a binary file and was not read",
+      filepath: "/app/tool.bin",
+    });
+    expect(audit[0]).toMatchObject({ status: "denied" });
+  });
+
+  test("greps only the first maxReadBytes of files that are not binary", async () => {
+    const grepFile = createGrepFileTool(pathMappings, {
+      audit,
+      maxReadBytes: 64,
+    });
+    const grep = (filepath: string, pattern: string) =>
+      grepFile.execute!(
+        { pwd: "/app", filepath, pattern, ignoreCase: false, maxMatches: 20 },
+        call
+      );
+
+    expect(await grep("app.conf", "^port=")).toEqual({
+      success: true,
+      filepath: "/app/app.conf",
+      matches: [{ line: 2, text: "port=8080" }],
+      truncated: false,
+    });
+    expect(await grep("large.log", "ERROR")).toMatchObject({
+      success: true,
+      matches: [],
+      notice: "Only the first 64 of 97 bytes were searched.",
+    });
+    expect(await grep("tool.bin", ".")).toMatchObject({
+      success: false,
+      error: "/app/tool.bin is a binary file and was not searched",
+    });
+    expect(await grep("link", "password")).toMatchObject({ success: false });
+    expect(audit.map((access) => access.status)).toEqual([
+      "ok",
+      "truncated",
+      "denied",
+      "denied",
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+import fs from "fs/promises";
+import path from "path";
+import {
+  expandVariables,
+  PathMapper,
+  PathMapping,
+  resolveUnixPath,
+  ToolAccess,
+} from "../core";
+
+export const DEFAULT_MAX_READ_BYTES = 100 * 1024;
+
+/** Bytes checked for NUL characters, the way git detects binary files. */
+const BINARY_CHECK_BYTES = 8000;
+
+/** Settings shared by the file system tools of one analysis. */
+export interface ToolContext {
+  /** Environment of the analyzed file, used to expand paths. */
+  env?: Record<string, string>;
+  /** Every access of the tools is appended to this audit trail. */
+  audit?: ToolAccess[];
+  /** Files larger than this are truncated by readFile and grepFile. */
+  maxReadBytes?: number;
+}
+
+/**
+ * Resolves a path the model passed to a tool: variables of the known
+ * environment are expanded, the production path is made absolute against the
+ * pwd and the local path is where it is mapped to.
+ */
+export function resolveToolPath(
+  pathMapper: PathMapper,
+  pwd: string | undefined,
+  filePath: string,
+  env: Record<string, string> = {}
+): { productionPath: string; localPath: string } {
+  const productionPath = resolveUnixPath(
+    expandVariables(pwd ?? "/", env),
+    expandVariables(filePath, env)
+  );
+  const mappedPath = pathMapper.map(productionPath);
+  return {
+    productionPath,
+    localPath: path.isAbsolute(mappedPath)
+      ? mappedPath
+      : path.resolve(mappedPath),
+  };
+}
+
+export type EntryType = "file" | "directory" | "symlink" | "other";
+
+export function entryType(entry: {
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}): EntryType {
+  if (entry.isSymbolicLink()) return "symlink";
+  if (entry.isDirectory()) return "directory";
+  if (entry.isFile()) return "file";
+  return "other";
+}
+
+async function realPath(localPath: string): Promise<string> {
+  try {
+    return await fs.realpath(localPath);
+  } catch {
+    return path.resolve(localPath);
+  }
+}
+
+/**
+ * Whether a local path lies within one of the local roots of the path
+ * mappings, after following symlinks. Production paths without a mapping map
+ * to themselves, so without this check a tool would read the analyst's own
+ * machine, e.g. `/root/.aws/credentials`.
+ */
+export async function isInsideLocalRoots(
+  localPath: string,
+  pathMappings: PathMapping[]
+): Promise<boolean> {
+  const target = await realPath(localPath);
+  for (const mapping of pathMappings) {
+    const relative = path.relative(await realPath(mapping.to), target);
+    if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Reads the first `maxBytes` bytes of a local file for a tool, with the full
+ * size of the file and whether it looks binary.
+ */
+export async function readToolFile(
+  localPath: string,
+  maxBytes: number
+): Promise<{ buffer: Buffer; size: number; binary: boolean }> {
+  const handle = await fs.open(localPath, "r");
+  try {
+    const size = (await handle.stat()).size;
+    const buffer = Buffer.alloc(Math.min(size, maxBytes));
+    await handle.read(buffer, 0, buffer.length, 0);
+    const binary = buffer.subarray(0, BINARY_CHECK_BYTES).includes(0);
+    return { buffer, size, binary };
+  } finally {
+    await handle.close();
+  }
+}
+
+export function recordAccess(context: ToolContext, access: ToolAccess): void {
+  context.audit?.push(access);
+}
+
+/**
+ * Records an access outside of the local roots in the audit trail and returns
+ * the error for the model.
+ * @param deniedPath - The unmapped directory, if it differs from the path
+ */
+export function denyAccess(
+  context: ToolContext,
+  tool: string,
+  productionPath: string,
+  deniedPath: string = productionPath
+): string {
+  const error = `Access denied: ${deniedPath} is outside of the mapped directories of the analyzed system`;
+  console.warn(`⛔️ ${error}`);
+  recordAccess(context, {
+    tool,
+    path: productionPath,
+    status: "denied",
+    reason: error,
+  });
+  return error;
+}